@@ -115,40 +115,123 @@ async def diagnose_issues(request: DiagnoseRequest):
     # If no specific issue detected, return a random one
     return random.choice(SAMPLE_ISSUES)
 
+# Issue lifecycle, mirroring src/api/issue-tracker.ts
+ALLOWED_TRANSITIONS = {
+    "open": ["acknowledged", "remediating", "resolved"],
+    "acknowledged": ["remediating", "resolved"],
+    "remediating": ["resolved", "acknowledged"],
+    "resolved": ["reopened"],
+    "reopened": ["acknowledged", "remediating", "resolved"],
+}
+
+class TransitionRequest(BaseModel):
+    status: str
+    note: Optional[str] = None
+
+# Sample tracked issues, keyed by fingerprint; repeated detections collapse into one record
+TRACKED_ISSUES: Dict[str, Dict[str, Any]] = {
+    "fp-3f9a1c2e": {
+        "id": "pod/production/frontend-7d9f4b8f9c-2x4z5/crash-loop",
+        "fingerprint": "fp-3f9a1c2e",
+        "type": "crash-loop",
+        "severity": "high",
+        "title": "Pod CrashLoopBackOff detected",
+        "description": "Container frontend in pod frontend-7d9f4b8f9c-2x4z5 restarted 12 times",
+        "namespace": "production",
+        "resource": {"kind": "Pod", "name": "frontend-7d9f4b8f9c-2x4z5"},
+        "owner": {"kind": "Deployment", "name": "frontend"},
+        "aiAnalysis": "Application is failing to start due to missing configuration",
+        "status": "resolved",
+        "firstSeen": "2025-01-15T10:30:15Z",
+        "lastSeen": "2025-01-15T10:42:01Z",
+        "occurrences": 3,
+        "history": [
+            {"from": None, "to": "open", "at": "2025-01-15T10:30:15Z"},
+            {"from": "open", "to": "remediating", "at": "2025-01-15T10:31:02Z", "note": "Applying increase_resources"},
+            {"from": "remediating", "to": "resolved", "at": "2025-01-15T10:45:00Z", "note": "No longer detected"},
+        ],
+    },
+    "fp-8b21d4e7": {
+        "id": "pod/staging/backend-api-5c8d7f6b4d-3y6x7/image-pull",
+        "fingerprint": "fp-8b21d4e7",
+        "type": "image-pull",
+        "severity": "medium",
+        "title": "Image pull failing",
+        "description": "Container backend-api cannot pull registry.local/backend-api:v2.3.1",
+        "namespace": "staging",
+        "resource": {"kind": "Pod", "name": "backend-api-5c8d7f6b4d-3y6x7"},
+        "owner": {"kind": "Deployment", "name": "backend-api"},
+        "aiAnalysis": "Container image not found in registry",
+        "status": "acknowledged",
+        "firstSeen": "2025-01-15T09:45:22Z",
+        "lastSeen": "2025-01-15T10:50:40Z",
+        "occurrences": 1,
+        "history": [
+            {"from": None, "to": "open", "at": "2025-01-15T09:45:22Z"},
+            {"from": "open", "to": "acknowledged", "at": "2025-01-15T09:52:10Z"},
+        ],
+    },
+    "fp-c40e9b53": {
+        "id": "pod/production/database-0/oom-killed",
+        "fingerprint": "fp-c40e9b53",
+        "type": "oom-killed",
+        "severity": "critical",
+        "title": "Container OOMKilled",
+        "description": "Container postgres in pod database-0 was OOMKilled at its 2Gi memory limit",
+        "namespace": "production",
+        "resource": {"kind": "Pod", "name": "database-0"},
+        "owner": {"kind": "StatefulSet", "name": "database"},
+        "aiAnalysis": "Container exceeded memory limits",
+        "status": "reopened",
+        "firstSeen": "2025-01-14T22:04:51Z",
+        "lastSeen": "2025-01-15T08:12:05Z",
+        "occurrences": 4,
+        "history": [
+            {"from": None, "to": "open", "at": "2025-01-14T22:04:51Z"},
+            {"from": "open", "to": "resolved", "at": "2025-01-14T23:30:00Z", "note": "No longer detected"},
+            {"from": "resolved", "to": "reopened", "at": "2025-01-15T08:12:05Z", "note": "Detected again after resolution"},
+        ],
+    },
+}
+
 @app.get("/api/issues")
-async def get_issues():
-    """Get a list of recent issues detected by AutoKube AI"""
-    return {
-        "issues": [
-            {
-                "id": "issue-001",
-                "namespace": "production",
-                "resource": "deployment/frontend",
-                "issue": "CrashLoopBackOff",
-                "detected": "2025-01-15T10:30:15Z",
-                "status": "remediated",
-                "confidence": 0.92
-            },
-            {
-                "id": "issue-002",
-                "namespace": "staging",
-                "resource": "pod/backend-api-5c8d7f6b4d-3y6x7",
-                "issue": "ImagePullBackOff",
-                "detected": "2025-01-15T09:45:22Z",
-                "status": "pending",
-                "confidence": 0.89
-            },
-            {
-                "id": "issue-003",
-                "namespace": "production",
-                "resource": "statefulset/database",
-                "issue": "OOMKilled",
-                "detected": "2025-01-15T08:12:05Z",
-                "status": "remediated",
-                "confidence": 0.95
-            }
-        ]
+async def get_issues(status: Optional[str] = None, namespace: Optional[str] = None):
+    """Get tracked issues detected by AutoKube AI, most recently seen first"""
+    issues = [
+        issue for issue in TRACKED_ISSUES.values()
+        if (status is None or issue["status"] in status.split(","))
+        and (namespace is None or issue["namespace"] == namespace)
+    ]
+    issues.sort(key=lambda issue: issue["lastSeen"], reverse=True)
+    return {"issues": issues}
+
+@app.get("/api/issues/{fingerprint}/history")
+async def get_issue_history(fingerprint: str):
+    issue = TRACKED_ISSUES.get(fingerprint)
+    if issue is None:
+        raise HTTPException(status_code=404, detail=f"Issue not found: {fingerprint}")
+    return {"history": issue["history"]}
+
+@app.post("/api/issues/{fingerprint}/transition")
+async def transition_issue(fingerprint: str, request: TransitionRequest):
+    issue = TRACKED_ISSUES.get(fingerprint)
+    if issue is None:
+        raise HTTPException(status_code=404, detail=f"Issue not found: {fingerprint}")
+
+    current = issue["status"]
+    if request.status not in ALLOWED_TRANSITIONS.get(current, []):
+        raise HTTPException(status_code=409, detail=f"Invalid issue transition: {current} -> {request.status}")
+
+    transition = {
+        "from": current,
+        "to": request.status,
+        "at": time.strftime("%Y-%m-%dT%H:%M:%SZ", time.gmtime()),
     }
+    if request.note:
+        transition["note"] = request.note
+    issue["history"].append(transition)
+    issue["status"] = request.status
+    return issue
 
 if __name__ == "__main__":
     import uvicorn
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ApprovalPolicyEngine, PolicyDecision } from './approval-policy';
+import { KubernetesAI } from './kubernetes';
 
 // AI CI/CD Integration Schema
 export const CICDPipelineConfigSchema = z.object({
@@ -6,6 +8,9 @@ export const CICDPipelineConfigSchema = z.object({
   name: z.string(),
   provider: z.enum(['github-actions', 'jenkins', 'argocd', 'gitlab-ci', 'azure-devops']),
   environment: z.enum(['development', 'staging', 'production']),
+  // Where the pipeline deploys; approval rules match fixes on it
+  cluster: z.string(),
+  namespace: z.string(),
   aiIntegrationLevel: z.enum(['basic', 'standard', 'advanced', 'full-automation']),
   preDeploymentChecks: z.object({
     enabled: z.boolean(),
@@ -17,7 +22,6 @@ export const CICDPipelineConfigSchema = z.object({
     enabled: z.boolean(),
     confidenceThreshold: z.number().min(0).max(100),
     maxConcurrentFixes: z.number(),
-    approvalRequired: z.array(z.enum(['high-risk', 'production', 'critical-fixes'])),
   }),
   gitopsSync: z.object({
     enabled: z.boolean(),
@@ -58,11 +62,15 @@ export const CICDFixExecutionSchema = z.object({
   fixes: z.array(z.object({
     fixId: z.string(),
     type: z.string(),
-    status: z.enum(['pending', 'executing', 'completed', 'failed', 'requires-approval']),
+    action: z.string(),
+    status: z.enum(['pending', 'executing', 'completed', 'failed', 'requires-approval', 'denied']),
     confidence: z.number(),
     riskLevel: z.enum(['low', 'medium', 'high', 'critical']),
     autoApplied: z.boolean(),
     approvalRequired: z.boolean(),
+    approvers: z.number(),
+    // Policy rule and version that decided, for the audit trail
+    policy: z.string(),
     executionTime: z.string().optional(),
     rollbackAvailable: z.boolean(),
   })),
@@ -103,6 +111,20 @@ export type PreDeploymentAnalysis = z.infer<typeof PreDeploymentAnalysisSchema>;
 export type CICDFixExecution = z.infer<typeof CICDFixExecutionSchema>;
 export type GitOpsTracking = z.infer<typeof GitOpsTrackingSchema>;
 
+// The fix action each pipeline issue gets, in the action vocabulary approval rules use
+const CICD_FIX_ACTIONS: Record<string, string> = {
+  resource_quota_exceeded: 'increase_quota',
+  security_policy_violation: 'modify_config',
+  image_vulnerability: 'update_image',
+  missing_health_probes: 'modify_config',
+  resource_limits_missing: 'modify_config',
+};
+
+// Issues name their namespace among the affected resources, e.g. "namespace/production"
+function issueNamespace(issue: { affectedResources?: string[] }): string | undefined {
+  return issue.affectedResources?.find(resource => resource.startsWith('namespace/'))?.slice('namespace/'.length);
+}
+
 // Advanced AI CI/CD Integration Engine
 export class AICICDIntegrationEngine {
   private static instance: AICICDIntegrationEngine;
@@ -130,6 +152,8 @@ export class AICICDIntegrationEngine {
         name: 'Production Deployment Pipeline',
         provider: 'github-actions',
         environment: 'production',
+        cluster: 'production',
+        namespace: 'production',
         aiIntegrationLevel: 'advanced',
         preDeploymentChecks: {
           enabled: true,
@@ -141,7 +165,6 @@ export class AICICDIntegrationEngine {
           enabled: true,
           confidenceThreshold: 95,
           maxConcurrentFixes: 3,
-          approvalRequired: ['high-risk', 'production', 'critical-fixes'],
         },
         gitopsSync: {
           enabled: true,
@@ -156,6 +179,8 @@ export class AICICDIntegrationEngine {
         name: 'Staging Deployment Pipeline',
         provider: 'argocd',
         environment: 'staging',
+        cluster: 'staging',
+        namespace: 'staging',
         aiIntegrationLevel: 'full-automation',
         preDeploymentChecks: {
           enabled: true,
@@ -167,7 +192,6 @@ export class AICICDIntegrationEngine {
           enabled: true,
           confidenceThreshold: 85,
           maxConcurrentFixes: 5,
-          approvalRequired: ['critical-fixes'],
         },
         gitopsSync: {
           enabled: true,
@@ -182,6 +206,8 @@ export class AICICDIntegrationEngine {
         name: 'Development Deployment Pipeline',
         provider: 'jenkins',
         environment: 'development',
+        cluster: 'development',
+        namespace: 'development',
         aiIntegrationLevel: 'full-automation',
         preDeploymentChecks: {
           enabled: true,
@@ -193,7 +219,6 @@ export class AICICDIntegrationEngine {
           enabled: true,
           confidenceThreshold: 75,
           maxConcurrentFixes: 10,
-          approvalRequired: [],
         },
         gitopsSync: {
           enabled: true,
@@ -461,28 +486,36 @@ export class AICICDIntegrationEngine {
   ): Promise<Array<{
     fixId: string;
     type: string;
-    status: 'pending' | 'executing' | 'completed' | 'failed' | 'requires-approval';
+    action: string;
+    status: 'pending' | 'executing' | 'completed' | 'failed' | 'requires-approval' | 'denied';
     confidence: number;
     riskLevel: 'low' | 'medium' | 'high' | 'critical';
     autoApplied: boolean;
     approvalRequired: boolean;
+    approvers: number;
+    policy: string;
     rollbackAvailable: boolean;
   }>> {
-    return issues.map((issue, index) => {
+    return Promise.all(issues.map(async (issue, index) => {
       const confidence = this.calculateFixConfidence(issue);
-      const requiresApproval = this.requiresApproval(issue, config);
+      const action = CICD_FIX_ACTIONS[issue.type] ?? 'manual_intervention';
+      const decision = await this.requiresApproval(issue, action, config, confidence);
+      const requiresApproval = decision.effect === 'require-approval';
       
       return {
         fixId: `fix-${Date.now()}-${index}`,
         type: issue.type,
-        status: requiresApproval ? 'requires-approval' : 'pending',
+        action,
+        status: decision.effect === 'deny' ? 'denied' : requiresApproval ? 'requires-approval' : 'pending',
         confidence,
         riskLevel: issue.severity,
-        autoApplied: !requiresApproval && confidence >= config.autoRemediation.confidenceThreshold,
+        autoApplied: decision.effect === 'allow' && confidence >= config.autoRemediation.confidenceThreshold,
         approvalRequired: requiresApproval,
+        approvers: decision.approvers,
+        policy: `${decision.ruleId ?? 'default'}@v${decision.policyVersion}`,
         rollbackAvailable: true,
       };
-    });
+    }));
   }
 
   private calculateFixConfidence(issue: any): number {
@@ -490,20 +523,28 @@ export class AICICDIntegrationEngine {
     return baseConfidence[issue.severity] || 90;
   }
 
-  private requiresApproval(issue: any, config: CICDPipelineConfig): boolean {
-    if (config.environment === 'production' && config.autoRemediation.approvalRequired.includes('production')) {
-      return true;
-    }
-    
-    if (issue.severity === 'critical' && config.autoRemediation.approvalRequired.includes('critical-fixes')) {
-      return true;
-    }
-    
-    if (['high', 'critical'].includes(issue.severity) && config.autoRemediation.approvalRequired.includes('high-risk')) {
-      return true;
+  // Decided by the shared approval policy, so pipelines and the confidence scorer agree
+  private async requiresApproval(issue: any, action: string, config: CICDPipelineConfig, confidence: number): Promise<PolicyDecision> {
+    const namespace = issueNamespace(issue) ?? config.namespace;
+    return ApprovalPolicyEngine.getInstance().evaluate({
+      cluster: config.cluster,
+      environment: config.environment,
+      namespace,
+      namespaceLabels: await this.namespaceLabels(config.cluster, namespace),
+      action,
+      severity: issue.severity,
+      confidence,
+    });
+  }
+
+  // Read from the connected cluster, so only known when the pipeline deploys to it
+  private async namespaceLabels(cluster: string, namespace: string): Promise<Record<string, string> | undefined> {
+    const ai = KubernetesAI.getInstance();
+    if (ai.outcomeScope().cluster !== cluster) {
+      return undefined;
     }
-    
-    return false;
+    return ai.namespaceLabels(namespace)
+      .catch(error => { console.error(`Could not read namespace ${namespace}`, error); return undefined; });
   }
 
   private async executeFixesWithApproval(
@@ -514,6 +555,12 @@ export class AICICDIntegrationEngine {
     const executedFixes = [];
     
     for (const fix of fixes) {
+      // Denied by policy: never applied, not even when approval is waived
+      if (fix.status === 'denied') {
+        executedFixes.push(fix);
+        continue;
+      }
+
       if (fix.approvalRequired && !autoApprove) {
         // Keep as requires-approval
         executedFixes.push(fix);
@@ -542,7 +589,8 @@ export class AICICDIntegrationEngine {
   private determineOverallStatus(fixes: any[]): 'in-progress' | 'completed' | 'partial-success' | 'failed' | 'awaiting-approval' {
     const pendingApproval = fixes.some(f => f.status === 'requires-approval');
     const executing = fixes.some(f => f.status === 'executing');
-    const failed = fixes.filter(f => f.status === 'failed').length;
+    // A denied fix is as unfixed as a failed one
+    const failed = fixes.filter(f => f.status === 'failed' || f.status === 'denied').length;
     const completed = fixes.filter(f => f.status === 'completed').length;
     
     if (pendingApproval) return 'awaiting-approval';
@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import { ApprovalPolicyEngine, PolicyInputSchema } from './approval-policy';
+import { betaMean, betaPrior, credibleInterval, decayedPosterior } from './beta-distribution';
+import { BlastRadius, BlastRadiusSchema, estimateBlastRadius } from './blast-radius';
+import { CalibrationReport, calibrationReport } from './confidence-calibration';
+import { BEST_PRACTICE_RULES, ManifestValidationOptions, ManifestViolation, validateManifest, violation } from './manifest-validator';
+import type { DetectableResources } from './issue-detectors';
+import { FixOutcome, MemoryOutcomeStore, OutcomeFilter, OutcomeStore, OutcomeSummary, matchesOutcome, summarizeOutcomes } from './outcome-store';
+import type { ResourceGraph, ResourceRef } from './resource-graph';
 
 // AI Confidence Scoring Schema
 export const AIConfidenceSchema = z.object({
@@ -9,8 +17,28 @@ export const AIConfidenceSchema = z.object({
     riskFactor: z.number(),
     complexityPenalty: z.number(),
   }),
+  // Posterior mean success probability, as a percentage
   finalConfidence: z.number().min(0).max(100),
+  credibleInterval: z.object({
+    lower: z.number().min(0).max(100),
+    upper: z.number().min(0).max(100),
+    level: z.number(),
+  }),
+  evidence: z.object({
+    attempts: z.number(),
+    successes: z.number(),
+    // After recency decay; what the posterior was actually updated with
+    effectiveAttempts: z.number(),
+  }),
+  // The approval policy's verdict, judged on the interval's lower bound so thin evidence cannot auto-approve
   autoApprovalEligible: z.boolean(),
+  approval: z.object({
+    effect: z.enum(['allow', 'require-approval', 'deny']),
+    approvers: z.number(),
+    ruleId: z.string().optional(),
+    policyVersion: z.number(),
+    reason: z.string(),
+  }),
 });
 
 export const FixEvaluationSchema = z.object({
@@ -22,14 +50,23 @@ export const FixEvaluationSchema = z.object({
     yaml: z.string().optional(),
     command: z.string().optional(),
   }),
-  confidence: z.infer<typeof AIConfidenceSchema>,
+  confidence: AIConfidenceSchema,
   riskAssessment: z.object({
     level: z.enum(['low', 'medium', 'high']),
     factors: z.array(z.string()),
+    // Only when the fix was evaluated against a target in a listed cluster
+    blastRadius: BlastRadiusSchema.optional(),
   }),
   bestPracticeValidation: z.object({
     score: z.number().min(0).max(100),
-    violations: z.array(z.string()),
+    violations: z.array(z.object({
+      rule: z.string(),
+      severity: z.enum(['error', 'warning']),
+      message: z.string(),
+      path: z.string(),
+      document: z.number().optional(),
+      recommendation: z.string(),
+    })),
     recommendations: z.array(z.string()),
   }),
 });
@@ -37,14 +74,60 @@ export const FixEvaluationSchema = z.object({
 export type AIConfidence = z.infer<typeof AIConfidenceSchema>;
 export type FixEvaluation = z.infer<typeof FixEvaluationSchema>;
 
+// Which part of the fleet historical rates are drawn from; unset fields match everything
+export type OutcomeScope = Pick<OutcomeFilter, 'cluster' | 'environment' | 'namespace'>;
+
+// A fix that has just been applied; whether it worked is only known later
+export type AppliedFix = Omit<FixOutcome, 'timestamp' | 'success' | 'timeToRecoverSeconds'>;
+
+export interface FixVerificationOptions {
+  // Polled until the issue is gone or the timeout passes
+  isRecovered: () => boolean | Promise<boolean>;
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+export interface ConfidenceContext extends OutcomeScope {
+  action?: string;
+  // Labels of the target namespace, for approval rules that match on them
+  namespaceLabels?: Record<string, string>;
+  // From validating the fix's manifest; without one the prior gets no best-practice adjustment
+  bestPracticeScore?: number;
+  now?: number;
+}
+
+// Scope for historical rates, plus the cluster's objects for validating the manifest and
+// estimating the blast radius on the target. PodDisruptionBudgets default to the listed ones.
+export type FixEvaluationContext = OutcomeScope & Pick<ConfidenceContext, 'namespaceLabels'> & ManifestValidationOptions & {
+  target?: ResourceRef;
+  resources?: Partial<DetectableResources>;
+  graph?: ResourceGraph;
+};
+
+export interface ConfidenceModelOptions {
+  // How many outcomes the heuristic prior is worth
+  priorStrength: number;
+  halfLifeDays: number;
+  credibleLevel: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Enhanced AI Confidence Scoring Engine
 export class AIConfidenceScorer {
   private static instance: AIConfidenceScorer;
-  private historicalData: Map<string, { attempts: number; successes: number }> = new Map();
+  private store: OutcomeStore = new MemoryOutcomeStore();
+  // Everything in the store, so scoring stays synchronous
+  private outcomes: FixOutcome[] = [];
+  // Set while a store is loading; outcomes recorded meanwhile wait for it
+  private loading: Promise<void> | null = null;
+  private model: ConfidenceModelOptions = {
+    priorStrength: 4,
+    halfLifeDays: 30,
+    credibleLevel: 0.95,
+  };
   
-  private constructor() {
-    this.initializeHistoricalData();
-  }
+  private constructor() {}
   
   static getInstance(): AIConfidenceScorer {
     if (!AIConfidenceScorer.instance) {
@@ -53,19 +136,69 @@ export class AIConfidenceScorer {
     return AIConfidenceScorer.instance;
   }
 
-  private initializeHistoricalData() {
-    // Initialize with mock historical success rates
-    this.historicalData.set('pod_crash_loop', { attempts: 50, successes: 47 });
-    this.historicalData.set('image_pull_error', { attempts: 30, successes: 29 });
-    this.historicalData.set('resource_quota_exceeded', { attempts: 25, successes: 23 });
-    this.historicalData.set('node_scheduling_failure', { attempts: 20, successes: 16 });
-    this.historicalData.set('api_server_connection_failure', { attempts: 15, successes: 12 });
-    this.historicalData.set('metrics_server_failure', { attempts: 35, successes: 33 });
-    this.historicalData.set('ip_exhaustion', { attempts: 10, successes: 8 });
+  // Switch to a persistent store and load its history
+  async useOutcomeStore(store: OutcomeStore): Promise<void> {
+    const loading = store.query().then(outcomes => {
+      this.store = store;
+      this.outcomes = outcomes;
+    });
+    this.loading = loading;
+    try {
+      await loading;
+    } finally {
+      if (this.loading === loading) {
+        this.loading = null;
+      }
+    }
   }
 
-  // Calculate AI confidence score based on multiple factors
-  calculateConfidence(issueType: string, severity: string, fixComplexity: number): AIConfidence {
+  // Record how an applied fix went
+  async recordOutcome(outcome: FixOutcome): Promise<void> {
+    // Otherwise the outcome would go to the store about to be replaced; a failed load keeps the old one
+    await this.loading?.catch(() => undefined);
+    await this.store.record(outcome);
+    this.outcomes.push(outcome);
+  }
+
+  // Records a success once the fix is seen to work, or a failure if it has not by the timeout
+  async verifyAppliedFix(
+    fix: AppliedFix,
+    { isRecovered, intervalMs = 30 * 1000, timeoutMs = 15 * 60 * 1000 }: FixVerificationOptions
+  ): Promise<FixOutcome> {
+    const appliedAt = Date.now();
+    let recovered = await isRecovered();
+    while (!recovered && Date.now() - appliedAt < timeoutMs) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      recovered = await isRecovered();
+    }
+
+    const outcome: FixOutcome = {
+      ...fix,
+      timestamp: new Date(appliedAt).toISOString(),
+      success: recovered,
+      timeToRecoverSeconds: recovered ? Math.round((Date.now() - appliedAt) / 1000) : undefined,
+    };
+    await this.recordOutcome(outcome);
+    return outcome;
+  }
+
+  configureModel(options: Partial<ConfidenceModelOptions>): void {
+    this.model = { ...this.model, ...options };
+  }
+
+  historicalStats(issueType: string, scope: OutcomeScope = {}): OutcomeSummary {
+    return summarizeOutcomes(this.outcomes.filter(o => matchesOutcome(o, { ...scope, issueType })));
+  }
+
+  // Success probability of a fix as a Beta posterior: the heuristics below set the prior,
+  // recorded outcomes of the same issue and action (recent ones weighing more) update it
+  calculateConfidence(
+    issueType: string,
+    severity: string,
+    fixComplexity: number,
+    context: ConfidenceContext = {}
+  ): AIConfidence {
+    const { action, bestPracticeScore, namespaceLabels, now = Date.now(), ...scope } = context;
     // Base confidence starts at 80%
     let baseConfidence = 80;
     
@@ -81,17 +214,8 @@ export class AIConfidenceScorer {
       baseConfidence += 10;
     }
     
-    // Historical success rate adjustment
-    const historical = this.historicalData.get(issueType);
-    let historicalSuccess = 0;
-    if (historical && historical.attempts > 5) {
-      const successRate = (historical.successes / historical.attempts) * 100;
-      historicalSuccess = (successRate - 80) * 0.2; // Scale to ±4 points
-    }
-    
-    // Best practice alignment (simulated)
-    const bestPracticeAlignment = this.calculateBestPracticeAlignment(issueType);
-    const bestPracticeBonus = (bestPracticeAlignment - 80) * 0.1; // Scale to ±2 points
+    // Best practice alignment of the proposed manifest
+    const bestPracticeBonus = bestPracticeScore === undefined ? 0 : (bestPracticeScore - 80) * 0.1; // Scale to -8..+2 points
     
     // Risk factor penalty
     const riskPenalty = this.calculateRiskPenalty(severity, fixComplexity);
@@ -99,37 +223,52 @@ export class AIConfidenceScorer {
     // Complexity penalty
     const complexityPenalty = Math.min(fixComplexity * 2, 10); // Max 10 point penalty
     
-    // Calculate final confidence
-    const finalConfidence = Math.max(0, Math.min(100, 
-      baseConfidence + historicalSuccess + bestPracticeBonus - riskPenalty - complexityPenalty
-    ));
+    // Keep the prior off 0 and 1, where no amount of evidence could move it
+    const priorMean = Math.max(5, Math.min(95,
+      baseConfidence + bestPracticeBonus - riskPenalty - complexityPenalty
+    )) / 100;
+    
+    const history = this.outcomes.filter(o => matchesOutcome(o, { ...scope, issueType, action }));
+    const posterior = decayedPosterior(betaPrior(priorMean, this.model.priorStrength), history, {
+      halfLifeMs: this.model.halfLifeDays * DAY_MS,
+      now,
+    });
+    const finalConfidence = betaMean(posterior) * 100;
+    const interval = credibleInterval(posterior, this.model.credibleLevel);
+    // Severities outside the policy vocabulary match no severity condition
+    const policySeverity = PolicyInputSchema.shape.severity.safeParse(severity);
+    const approval = ApprovalPolicyEngine.getInstance().evaluate({
+      ...scope,
+      namespaceLabels,
+      action,
+      severity: policySeverity.success ? policySeverity.data : undefined,
+      // Policies see the lower bound, so thin evidence cannot clear a confidence floor
+      confidence: interval.lower * 100,
+      time: new Date(now).toISOString(),
+    });
     
     return {
       baseConfidence,
       adjustments: {
-        historicalSuccess,
+        historicalSuccess: finalConfidence - priorMean * 100,
         bestPracticeAlignment: bestPracticeBonus,
         riskFactor: -riskPenalty,
         complexityPenalty: -complexityPenalty,
       },
       finalConfidence: Math.round(finalConfidence),
-      autoApprovalEligible: finalConfidence >= 90
-    };
-  }
-
-  private calculateBestPracticeAlignment(issueType: string): number {
-    // Simulate best practice alignment scoring
-    const alignmentScores: Record<string, number> = {
-      'pod_crash_loop': 92,
-      'image_pull_error': 95,
-      'resource_quota_exceeded': 88,
-      'node_scheduling_failure': 75,
-      'api_server_connection_failure': 70,
-      'metrics_server_failure': 90,
-      'ip_exhaustion': 85,
+      credibleInterval: {
+        lower: Math.round(interval.lower * 1000) / 10,
+        upper: Math.round(interval.upper * 1000) / 10,
+        level: interval.level,
+      },
+      evidence: {
+        attempts: posterior.attempts,
+        successes: posterior.successes,
+        effectiveAttempts: Math.round(posterior.effectiveAttempts * 10) / 10,
+      },
+      autoApprovalEligible: approval.effect === 'allow',
+      approval,
     };
-    
-    return alignmentScores[issueType] || 80;
   }
 
   private calculateRiskPenalty(severity: string, complexity: number): number {
@@ -156,16 +295,6 @@ export class AIConfidenceScorer {
     return penalty;
   }
 
-  // Update historical data based on fix outcomes
-  updateHistoricalData(issueType: string, success: boolean): void {
-    const current = this.historicalData.get(issueType) || { attempts: 0, successes: 0 };
-    current.attempts += 1;
-    if (success) {
-      current.successes += 1;
-    }
-    this.historicalData.set(issueType, current);
-  }
-
   // Evaluate a complete fix proposal
   evaluateFix(
     issueType: string, 
@@ -175,8 +304,10 @@ export class AIConfidenceScorer {
       description: string;
       yaml?: string;
       command?: string;
-    }
+    },
+    context: FixEvaluationContext = {}
   ): FixEvaluation {
+    const { target, resources, graph, podDisruptionBudgets = resources?.PodDisruptionBudget, namespaceLabels, ...scope } = context;
     // Calculate fix complexity based on action type
     const complexityMap: Record<string, number> = {
       'restart_pod': 1,
@@ -189,14 +320,20 @@ export class AIConfidenceScorer {
     };
     
     const complexity = complexityMap[suggestedFix.action] || 3;
-    const confidence = this.calculateConfidence(issueType, severity, complexity);
-    
-    // Risk assessment
-    const riskLevel = this.assessRiskLevel(severity, complexity, confidence.finalConfidence);
-    const riskFactors = this.identifyRiskFactors(issueType, suggestedFix.action);
     
     // Best practice validation
-    const bestPracticeValidation = this.validateBestPractices(issueType, suggestedFix);
+    const bestPracticeValidation = this.validateBestPractices(suggestedFix, { podDisruptionBudgets });
+    const confidence = this.calculateConfidence(issueType, severity, complexity, {
+      ...scope,
+      namespaceLabels,
+      action: suggestedFix.action,
+      bestPracticeScore: bestPracticeValidation.score,
+    });
+    
+    // Risk assessment
+    const blastRadius = target && resources ? estimateBlastRadius(suggestedFix, target, resources, graph) : undefined;
+    const riskLevel = this.assessRiskLevel(severity, complexity, confidence.finalConfidence, blastRadius);
+    const riskFactors = this.identifyRiskFactors(issueType, suggestedFix.action, scope, blastRadius);
     
     return {
       issueType,
@@ -206,6 +343,7 @@ export class AIConfidenceScorer {
       riskAssessment: {
         level: riskLevel,
         factors: riskFactors,
+        blastRadius,
       },
       bestPracticeValidation,
     };
@@ -214,22 +352,25 @@ export class AIConfidenceScorer {
   private assessRiskLevel(
     severity: string, 
     complexity: number, 
-    confidence: number
+    confidence: number,
+    blastRadius?: BlastRadius
   ): 'low' | 'medium' | 'high' {
-    if (severity === 'critical' || complexity >= 5 || confidence < 80) {
+    if (severity === 'critical' || complexity >= 5 || confidence < 80 || blastRadius?.level === 'high') {
       return 'high';
     }
-    if (severity === 'high' || complexity >= 3 || confidence < 90) {
+    if (severity === 'high' || complexity >= 3 || confidence < 90 || blastRadius?.level === 'medium') {
       return 'medium';
     }
     return 'low';
   }
 
-  private identifyRiskFactors(issueType: string, action: string): string[] {
-    const factors: string[] = [];
+  private identifyRiskFactors(issueType: string, action: string, scope: OutcomeScope, blastRadius?: BlastRadius): string[] {
+    // What the fix would actually disturb, when the cluster was available to look at
+    const factors = [...blastRadius?.factors ?? []];
     
-    // Production environment risks
-    factors.push('Production environment impact');
+    if (scope.environment === 'production') {
+      factors.push('Production environment impact');
+    }
     
     // Action-specific risks
     if (action.includes('scale') || action.includes('resource')) {
@@ -253,45 +394,23 @@ export class AIConfidenceScorer {
   }
 
   private validateBestPractices(
-    issueType: string, 
-    suggestedFix: { action: string; description: string; yaml?: string; command?: string }
-  ): { score: number; violations: string[]; recommendations: string[] } {
-    const violations: string[] = [];
-    const recommendations: string[] = [];
-    let score = 100;
-    
-    // Check for resource limits in YAML
-    if (suggestedFix.yaml && !suggestedFix.yaml.includes('limits:')) {
-      violations.push('Missing resource limits in deployment');
-      recommendations.push('Add CPU and memory limits to prevent resource exhaustion');
-      score -= 10;
-    }
-    
-    // Check for health probes
-    if (suggestedFix.yaml && !suggestedFix.yaml.includes('Probe')) {
-      violations.push('Missing health probes');
-      recommendations.push('Add readiness and liveness probes for better reliability');
-      score -= 8;
-    }
-    
-    // Check for security context
-    if (suggestedFix.yaml && !suggestedFix.yaml.includes('securityContext')) {
-      violations.push('Missing security context');
-      recommendations.push('Add security context to follow security best practices');
-      score -= 5;
-    }
+    suggestedFix: { action: string; description: string; yaml?: string; command?: string },
+    options: ManifestValidationOptions
+  ): { score: number; violations: ManifestViolation[]; recommendations: string[] } {
+    const validation = suggestedFix.yaml ? validateManifest(suggestedFix.yaml, options) : { score: 100, violations: [] };
+    const violations = [...validation.violations];
+    let score = validation.score;
     
     // Validate command safety
     if (suggestedFix.command && suggestedFix.command.includes('--force')) {
-      violations.push('Using --force flag in command');
-      recommendations.push('Consider safer alternatives to --force operations');
-      score -= 15;
+      violations.push(violation('force-command', 'Using --force flag in command', '$.command'));
+      score -= BEST_PRACTICE_RULES['force-command'].penalty;
     }
     
     return {
       score: Math.max(0, score),
       violations,
-      recommendations,
+      recommendations: Array.from(new Set(violations.map(v => v.recommendation))),
     };
   }
 
@@ -309,33 +428,41 @@ export class AIConfidenceScorer {
   }
 
   // Generate confidence report
-  generateConfidenceReport(): {
+  generateConfidenceReport(scope: OutcomeScope = {}): {
     totalFixes: number;
     averageConfidence: number;
     autoApprovalRate: number;
     successRate: number;
+    medianTimeToRecoverSeconds?: number;
     topPerformingIssues: Array<{ issueType: string; successRate: number }>;
+    calibration: CalibrationReport;
   } {
-    const totalAttempts = Array.from(this.historicalData.values())
-      .reduce((sum, data) => sum + data.attempts, 0);
-    
-    const totalSuccesses = Array.from(this.historicalData.values())
-      .reduce((sum, data) => sum + data.successes, 0);
+    const outcomes = this.outcomes.filter(o => matchesOutcome(o, scope));
+    const overall = summarizeOutcomes(outcomes);
+    const predicted = outcomes.filter(o => o.predictedConfidence !== undefined);
+    const approved = outcomes.filter(o => o.approval !== undefined);
     
-    const topPerforming = Array.from(this.historicalData.entries())
-      .map(([issueType, data]) => ({
+    const topPerforming = Array.from(new Set(outcomes.map(o => o.issueType)))
+      .map(issueType => ({
         issueType,
-        successRate: data.attempts > 0 ? (data.successes / data.attempts) * 100 : 0
+        successRate: this.historicalStats(issueType, scope).successRate * 100
       }))
       .sort((a, b) => b.successRate - a.successRate)
       .slice(0, 5);
     
     return {
-      totalFixes: totalAttempts,
-      averageConfidence: 87, // Simulated average
-      autoApprovalRate: 65,  // Simulated auto-approval rate
-      successRate: totalAttempts > 0 ? (totalSuccesses / totalAttempts) * 100 : 0,
+      totalFixes: overall.attempts,
+      averageConfidence: predicted.length > 0
+        ? predicted.reduce((sum, o) => sum + o.predictedConfidence!, 0) / predicted.length
+        : 0,
+      // Share of applied fixes that the policy cleared without a person
+      autoApprovalRate: approved.length > 0
+        ? approved.filter(o => o.approval === 'auto').length / approved.length * 100
+        : 0,
+      successRate: overall.successRate * 100,
+      medianTimeToRecoverSeconds: overall.medianTimeToRecoverSeconds,
       topPerformingIssues: topPerforming,
+      calibration: calibrationReport(outcomes),
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import { parse } from 'yaml';
+
+// Declarative auto-approval policy for fixes, shared by AIConfidenceScorer and AICICDIntegrationEngine.
+// Rules are checked in order and the first match decides; a policy file carries its own test cases,
+// and is only loaded if they all pass.
+
+const TIME = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times are HH:MM, 24-hour');
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export const PolicyEffectSchema = z.enum(['allow', 'require-approval', 'deny']);
+
+export const PolicyMatchSchema = z.object({
+  // Names may use * as a wildcard, e.g. prod-*
+  clusters: z.array(z.string()).optional(),
+  environments: z.array(z.string()).optional(),
+  namespaces: z.array(z.string()).optional(),
+  // Every label listed must be present on the namespace with this value
+  namespaceLabels: z.record(z.string()).optional(),
+  actions: z.array(z.string()).optional(),
+  severities: z.array(z.enum(['low', 'medium', 'high', 'critical'])).optional(),
+  // Against the input's confidence, 0-100; a rule with bounds never matches input without one
+  minConfidence: z.number().min(0).max(100).optional(),
+  maxConfidence: z.number().min(0).max(100).optional(),
+  // A window ending before it starts wraps past midnight
+  timeOfDay: z.object({
+    from: TIME,
+    to: TIME,
+    timezone: z.string().default('UTC'),
+    days: z.array(z.enum(WEEKDAYS)).optional(),
+  }).optional(),
+});
+
+export const PolicyRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9._/-]*$/, 'Rule ids are lowercase letters, digits, ".", "_", "/" and "-"'),
+  description: z.string().default(''),
+  match: PolicyMatchSchema.default({}),
+  effect: PolicyEffectSchema,
+  // Only meaningful for require-approval
+  approvers: z.number().int().min(1).default(1),
+});
+
+export const PolicyInputSchema = z.object({
+  cluster: z.string().optional(),
+  environment: z.string().optional(),
+  namespace: z.string().optional(),
+  namespaceLabels: z.record(z.string()).optional(),
+  action: z.string().optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  confidence: z.number().min(0).max(100).optional(),
+  // ISO timestamp; defaults to now
+  time: z.string().optional(),
+});
+
+export const PolicyTestSchema = z.object({
+  name: z.string(),
+  input: PolicyInputSchema,
+  expect: z.object({
+    effect: PolicyEffectSchema,
+    approvers: z.number().int().min(0).optional(),
+    // Rule id that should decide, or "default"
+    rule: z.string().optional(),
+  }),
+});
+
+export const ApprovalPolicySchema = z.object({
+  // Bump on every change; decisions record the version that made them
+  version: z.number().int().positive(),
+  name: z.string().default('approval-policy'),
+  default: z.object({
+    effect: PolicyEffectSchema,
+    approvers: z.number().int().min(1).default(1),
+  }).default({ effect: 'require-approval', approvers: 1 }),
+  rules: z.array(PolicyRuleSchema).default([]),
+  tests: z.array(PolicyTestSchema).default([]),
+});
+
+export type PolicyEffect = z.infer<typeof PolicyEffectSchema>;
+export type PolicyMatch = z.infer<typeof PolicyMatchSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyInput = z.infer<typeof PolicyInputSchema>;
+export type PolicyTest = z.infer<typeof PolicyTestSchema>;
+export type ApprovalPolicy = z.infer<typeof ApprovalPolicySchema>;
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  // 0 unless approval is required
+  approvers: number;
+  // Undefined when no rule matched and the policy default applied
+  ruleId?: string;
+  policyVersion: number;
+  reason: string;
+}
+
+export interface PolicyTestResult {
+  name: string;
+  passed: boolean;
+  decision: PolicyDecision;
+  expected: PolicyTest['expect'];
+}
+
+export interface LoadedPolicyVersion {
+  version: number;
+  name: string;
+  source: string;
+  loadedAt: string;
+}
+
+// Mirrors the approval rules the CI/CD pipelines and the confidence scorer used to hard-code
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  version: 1,
+  name: 'default',
+  default: { effect: 'require-approval', approvers: 1 },
+  rules: [
+    {
+      id: 'production-critical',
+      description: 'Critical fixes in production need a second pair of eyes',
+      match: { environments: ['production'], severities: ['critical'] },
+      effect: 'require-approval',
+      approvers: 2,
+    },
+    {
+      id: 'production',
+      description: 'Every production fix is reviewed',
+      match: { environments: ['production'] },
+      effect: 'require-approval',
+      approvers: 1,
+    },
+    {
+      id: 'development',
+      description: 'Development clusters fix themselves',
+      match: { environments: ['development'] },
+      effect: 'allow',
+      approvers: 1,
+    },
+    {
+      id: 'critical',
+      description: 'Critical fixes outside development are reviewed',
+      match: { severities: ['critical'] },
+      effect: 'require-approval',
+      approvers: 1,
+    },
+    {
+      id: 'high-confidence',
+      description: 'Fixes we are at least 90% sure of apply without review',
+      match: { minConfidence: 90 },
+      effect: 'allow',
+      approvers: 1,
+    },
+  ],
+  tests: [
+    {
+      name: 'production always needs approval',
+      input: { environment: 'production', severity: 'low', confidence: 99 },
+      expect: { effect: 'require-approval', approvers: 1, rule: 'production' },
+    },
+    {
+      name: 'critical production fixes need two approvers',
+      input: { environment: 'production', severity: 'critical', confidence: 99 },
+      expect: { effect: 'require-approval', approvers: 2 },
+    },
+    {
+      name: 'confident staging fixes are allowed',
+      input: { environment: 'staging', severity: 'high', confidence: 90 },
+      expect: { effect: 'allow', rule: 'high-confidence' },
+    },
+    {
+      name: 'unsure fixes fall back to review',
+      input: { environment: 'staging', severity: 'medium', confidence: 70 },
+      expect: { effect: 'require-approval', rule: 'default' },
+    },
+  ],
+};
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+}
+
+// Parses and validates a policy file; does not run its tests
+export function parseApprovalPolicy(text: string, source: string): ApprovalPolicy {
+  let raw: unknown;
+  try {
+    raw = parse(text);
+  } catch (error) {
+    throw new Error(`Invalid approval policy ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ApprovalPolicySchema.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new Error(`Invalid approval policy ${source}: ${formatIssues(result.error)}`);
+  }
+
+  const ids = new Set<string>();
+  for (const rule of result.data.rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Invalid approval policy ${source}: duplicate rule id ${rule.id}`);
+    }
+    ids.add(rule.id);
+    const zone = rule.match.timeOfDay?.timezone;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    } catch {
+      throw new Error(`Invalid approval policy ${source}: rule ${rule.id} has unknown timezone ${zone}`);
+    }
+  }
+  return result.data;
+}
+
+function globMatches(patterns: string[], value: string | undefined): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  return patterns.some(pattern => {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(value);
+  });
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function inTimeWindow(window: NonNullable<PolicyMatch['timeOfDay']>, at: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: window.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  const minute = Number(part('hour')) * 60 + Number(part('minute'));
+  const day = part('weekday').toLowerCase().slice(0, 3) as typeof WEEKDAYS[number];
+
+  const from = minutesOf(window.from);
+  const to = minutesOf(window.to);
+  // For a window wrapping midnight, the early-morning part belongs to the previous day's window
+  const wrapped = from > to && minute < to;
+  const windowDay = wrapped ? WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7] : day;
+  if (window.days && !window.days.includes(windowDay)) {
+    return false;
+  }
+  return from <= to ? minute >= from && minute < to : minute >= from || minute < to;
+}
+
+export function ruleMatches(match: PolicyMatch, input: PolicyInput): boolean {
+  if (match.clusters && !globMatches(match.clusters, input.cluster)) return false;
+  if (match.environments && !match.environments.includes(input.environment ?? '')) return false;
+  if (match.namespaces && !globMatches(match.namespaces, input.namespace)) return false;
+  if (match.actions && !globMatches(match.actions, input.action)) return false;
+  if (match.severities && (!input.severity || !match.severities.includes(input.severity))) return false;
+
+  if (match.namespaceLabels) {
+    const labels = input.namespaceLabels ?? {};
+    if (!Object.entries(match.namespaceLabels).every(([key, value]) => labels[key] === value)) return false;
+  }
+
+  if (match.minConfidence !== undefined || match.maxConfidence !== undefined) {
+    if (input.confidence === undefined) return false;
+    if (match.minConfidence !== undefined && input.confidence < match.minConfidence) return false;
+    if (match.maxConfidence !== undefined && input.confidence > match.maxConfidence) return false;
+  }
+
+  if (match.timeOfDay) {
+    const at = input.time ? new Date(input.time) : new Date();
+    if (Number.isNaN(at.getTime()) || !inTimeWindow(match.timeOfDay, at)) return false;
+  }
+  return true;
+}
+
+export function evaluatePolicy(policy: ApprovalPolicy, input: PolicyInput): PolicyDecision {
+  const rule = policy.rules.find(r => ruleMatches(r.match, input));
+  const effect = rule?.effect ?? policy.default.effect;
+  const approvers = effect === 'require-approval' ? rule?.approvers ?? policy.default.approvers : 0;
+
+  return {
+    effect,
+    approvers,
+    ruleId: rule?.id,
+    policyVersion: policy.version,
+    reason: rule
+      ? `${policy.name} v${policy.version}: ${rule.description || rule.id}`
+      : `${policy.name} v${policy.version}: no rule matched, default applies`,
+  };
+}
+
+export function testPolicy(policy: ApprovalPolicy, tests: PolicyTest[] = policy.tests): PolicyTestResult[] {
+  return tests.map(test => {
+    const decision = evaluatePolicy(policy, test.input);
+    const { effect, approvers, rule } = test.expect;
+    const passed = decision.effect === effect
+      && (approvers === undefined || decision.approvers === approvers)
+      && (rule === undefined || (decision.ruleId ?? 'default') === rule);
+    return { name: test.name, passed, decision, expected: test.expect };
+  });
+}
+
+export class ApprovalPolicyEngine {
+  private static instance: ApprovalPolicyEngine;
+  private current: ApprovalPolicy = DEFAULT_APPROVAL_POLICY;
+  private loaded: LoadedPolicyVersion[] = [];
+  private listeners: Array<(policy: ApprovalPolicy) => void> = [];
+
+  private constructor() {
+    this.loaded.push({ version: this.current.version, name: this.current.name, source: 'builtin', loadedAt: new Date().toISOString() });
+  }
+
+  static getInstance(): ApprovalPolicyEngine {
+    if (!ApprovalPolicyEngine.instance) {
+      ApprovalPolicyEngine.instance = new ApprovalPolicyEngine();
+    }
+    return ApprovalPolicyEngine.instance;
+  }
+
+  // Replaces the active policy; throws without changing anything if the file is invalid or a test fails
+  load(text: string, source: string): ApprovalPolicy {
+    return this.setPolicy(parseApprovalPolicy(text, source), source);
+  }
+
+  setPolicy(policy: ApprovalPolicy, source = 'inline'): ApprovalPolicy {
+    const failures = testPolicy(policy).filter(result => !result.passed);
+    if (failures.length > 0) {
+      const details = failures
+        .map(f => `${f.name}: expected ${f.expected.effect}, got ${f.decision.effect} (${f.decision.ruleId ?? 'default'})`)
+        .join('; ');
+      throw new Error(`Approval policy ${source} v${policy.version} failed its tests: ${details}`);
+    }
+
+    this.current = policy;
+    this.loaded.push({ version: policy.version, name: policy.name, source, loadedAt: new Date().toISOString() });
+    this.listeners.forEach(listener => listener(policy));
+    return policy;
+  }
+
+  policy(): ApprovalPolicy {
+    return this.current;
+  }
+
+  // Every policy version activated since startup, oldest first
+  history(): LoadedPolicyVersion[] {
+    return [...this.loaded];
+  }
+
+  evaluate(input: PolicyInput): PolicyDecision {
+    return evaluatePolicy(this.current, input);
+  }
+
+  // Dry-runs cases against the active policy, or against a candidate before loading it
+  test(tests?: PolicyTest[], policy: ApprovalPolicy = this.current): PolicyTestResult[] {
+    return testPolicy(policy, tests);
+  }
+
+  subscribe(listener: (policy: ApprovalPolicy) => void): () => void {
+    this.listeners.push(listener);
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+}
@@ -0,0 +1,160 @@
+// Beta distributions for success rates: a prior, updated with (time-decayed) outcomes,
+// summarised as a mean and an equal-tailed credible interval.
+
+export interface BetaParameters {
+  alpha: number;
+  beta: number;
+}
+
+export interface CredibleInterval {
+  lower: number;
+  upper: number;
+  // Probability mass between lower and upper, e.g. 0.95
+  level: number;
+}
+
+export interface Observation {
+  success: boolean;
+  timestamp: string;
+}
+
+export interface DecayOptions {
+  // An outcome this old counts half as much as one from now; Infinity disables decay
+  halfLifeMs: number;
+  now?: number;
+}
+
+export interface BetaPosterior extends BetaParameters {
+  prior: BetaParameters;
+  attempts: number;
+  successes: number;
+  // Decayed counts actually added to the prior
+  effectiveAttempts: number;
+  effectiveSuccesses: number;
+}
+
+// Lanczos approximation, accurate to ~15 digits for x > 0
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => {
+    sum += c / (z + i + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    for (const numerator of [
+      m * (b - m) * x / ((a + m2 - 1) * (a + m2)),
+      -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + numerator * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + numerator / c;
+      c = Math.abs(c) < tiny ? tiny : c;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) {
+      break;
+    }
+  }
+  return h;
+}
+
+// I_x(a, b): the Beta(a, b) cumulative distribution at x
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (a <= 0 || b <= 0) {
+    throw new Error(`Beta parameters must be positive, got ${a} and ${b}`);
+  }
+  if (x <= 0) {
+    return 0;
+  }
+  if (x >= 1) {
+    return 1;
+  }
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges quickly only on this side of the mean; use symmetry on the other
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+// Inverse of the cumulative distribution, by bisection; monotone, so it cannot miss
+export function betaQuantile(p: number, a: number, b: number): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (regularizedIncompleteBeta(mid, a, b) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export function betaMean({ alpha, beta }: BetaParameters): number {
+  return alpha / (alpha + beta);
+}
+
+export function credibleInterval({ alpha, beta }: BetaParameters, level = 0.95): CredibleInterval {
+  const tail = (1 - level) / 2;
+  return {
+    lower: betaQuantile(tail, alpha, beta),
+    upper: betaQuantile(1 - tail, alpha, beta),
+    level,
+  };
+}
+
+// A prior with the given mean, worth `strength` observations
+export function betaPrior(mean: number, strength: number): BetaParameters {
+  return { alpha: mean * strength, beta: (1 - mean) * strength };
+}
+
+// Each outcome adds its decay weight to alpha (success) or beta (failure)
+export function decayedPosterior(prior: BetaParameters, observations: Observation[], options: DecayOptions): BetaPosterior {
+  const now = options.now ?? Date.now();
+  let effectiveAttempts = 0;
+  let effectiveSuccesses = 0;
+
+  for (const observation of observations) {
+    const time = Date.parse(observation.timestamp);
+    const age = Number.isFinite(time) ? Math.max(0, now - time) : 0;
+    const weight = Number.isFinite(options.halfLifeMs) ? Math.pow(0.5, age / options.halfLifeMs) : 1;
+    effectiveAttempts += weight;
+    if (observation.success) {
+      effectiveSuccesses += weight;
+    }
+  }
+
+  return {
+    alpha: prior.alpha + effectiveSuccesses,
+    beta: prior.beta + effectiveAttempts - effectiveSuccesses,
+    prior,
+    attempts: observations.length,
+    successes: observations.filter(o => o.success).length,
+    effectiveAttempts,
+    effectiveSuccesses,
+  };
+}
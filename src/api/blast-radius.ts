@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import { parse } from 'yaml';
+import type { DetectableResources } from './issue-detectors';
+import type { Pod, PodDisruptionBudget } from './kubernetes-resources';
+import { podSpecPath, selectorMatches } from './manifest-validator';
+import { GraphNode, ResourceGraph, ResourceRef, refKey } from './resource-graph';
+
+// What applying a fix would disturb: the pods it restarts, the Services and Ingresses that
+// lose endpoints while it rolls out, the disruption budgets it breaks and the namespaces that
+// call into the target. Estimated from listed objects only, so it is a floor, not a guarantee.
+
+export const BlastRadiusSchema = z.object({
+  // The workload the fix lands on: the target's outermost owner
+  target: z.object({ kind: z.string(), name: z.string(), namespace: z.string().optional() }),
+  disruption: z.enum(['none', 'single-pod', 'rolling', 'recreate']),
+  podsRestarting: z.number(),
+  // Pods down at the same time during the rollout
+  maxUnavailable: z.number(),
+  services: z.array(z.object({
+    name: z.string(),
+    namespace: z.string().optional(),
+    readyEndpoints: z.number(),
+    unavailableDuringRollout: z.number(),
+    losesAllEndpoints: z.boolean(),
+  })),
+  ingresses: z.array(z.object({
+    name: z.string(),
+    namespace: z.string().optional(),
+    services: z.array(z.string()),
+    // Every backend Service it routes to goes dark
+    losesAllBackends: z.boolean(),
+  })),
+  disruptionBudgets: z.array(z.object({
+    name: z.string(),
+    allowedDisruptions: z.number(),
+    wouldBeViolated: z.boolean(),
+  })),
+  // False when no budgets were listed, e.g. without RBAC for policy/poddisruptionbudgets
+  disruptionBudgetsKnown: z.boolean(),
+  dependentNamespaces: z.array(z.object({
+    namespace: z.string(),
+    via: z.array(z.string()),
+  })),
+  level: z.enum(['low', 'medium', 'high']),
+  // Human-readable risk factors, most serious first
+  factors: z.array(z.string()),
+});
+
+export type BlastRadius = z.infer<typeof BlastRadiusSchema>;
+
+export interface BlastRadiusFix {
+  action: string;
+  yaml?: string;
+  command?: string;
+}
+
+type Disruption = BlastRadius['disruption'];
+
+function isReady(pod: Pod | undefined): boolean {
+  return pod?.status.conditions?.some(c => c.type === 'Ready' && c.status === 'True') ?? false;
+}
+
+// "25%" of 10 → 2 (rounded down, as the Deployment controller does for maxUnavailable)
+function scaledValue(value: number | string | undefined, total: number, fallback: number, roundUp = false): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  const percent = Number(value.replace('%', '')) / 100;
+  return roundUp ? Math.ceil(percent * total) : Math.floor(percent * total);
+}
+
+// How the fix takes pods down; template changes land on the owning workload, as rollUpIssues retargets them
+function disruptionOf(fix: BlastRadiusFix, root: ResourceRef): Disruption {
+  if (fix.yaml) {
+    let doc: unknown;
+    try {
+      doc = parse(fix.yaml);
+    } catch {
+      doc = undefined;
+    }
+    if (doc && typeof doc === 'object' && !Array.isArray(doc)) {
+      // A pod template change rolls the workload; any other object (quota, policy, node) restarts nothing
+      return podSpecPath(doc as Record<string, unknown>) ? (root.kind === 'Pod' ? 'recreate' : 'rolling') : 'none';
+    }
+  }
+
+  const text = `${fix.action} ${fix.command ?? ''}`;
+  if (/rollout\s+(restart|undo)|restart_deployment|rollback/.test(text)) {
+    return root.kind === 'Pod' ? 'single-pod' : 'rolling';
+  }
+  if (/delete\s+pods?\b|restart_pod|evict/.test(text)) {
+    return 'single-pod';
+  }
+  return 'none';
+}
+
+export function estimateBlastRadius(
+  fix: BlastRadiusFix,
+  target: ResourceRef,
+  cluster: Partial<DetectableResources>,
+  graph: ResourceGraph = ResourceGraph.fromResources(cluster)
+): BlastRadius {
+  const root = graph.rootOwner(target);
+  const podObjects = new Map((cluster.Pod ?? []).map(pod => [refKey({ kind: 'Pod', name: pod.metadata.name, namespace: pod.metadata.namespace }), pod]));
+  let disruption = disruptionOf(fix, root);
+
+  // Which pods go down, and how many at once
+  let restarting: GraphNode[] = [];
+  let maxUnavailable = 0;
+  if (disruption === 'single-pod' || disruption === 'recreate') {
+    const pod = target.kind === 'Pod' ? graph.get(target) : graph.podsOf(root)[0];
+    restarting = pod ? [pod] : [];
+    maxUnavailable = restarting.length;
+  } else if (disruption === 'rolling') {
+    restarting = root.kind === 'Pod' ? [graph.get(root)].filter((n): n is GraphNode => !!n) : graph.podsOf(root);
+    const total = restarting.length;
+    const deployment = cluster.Deployment?.find(d => d.metadata.name === root.name && d.metadata.namespace === root.namespace);
+    const statefulSet = cluster.StatefulSet?.find(s => s.metadata.name === root.name && s.metadata.namespace === root.namespace);
+
+    if (deployment?.spec.strategy?.type === 'Recreate') {
+      disruption = 'recreate';
+      maxUnavailable = total;
+    } else if (deployment) {
+      // With no unavailability budget the controller surges first, so capacity never drops
+      maxUnavailable = Math.min(total, scaledValue(deployment.spec.strategy?.rollingUpdate?.maxUnavailable, total, Math.floor(total / 4)));
+    } else if (statefulSet || root.kind === 'DaemonSet') {
+      // One pod at a time
+      maxUnavailable = Math.min(total, 1);
+    } else if (root.kind === 'ReplicaSet' || root.kind === 'Job' || root.kind === 'CronJob') {
+      // Template changes only reach pods created later
+      disruption = 'none';
+      restarting = [];
+    } else {
+      maxUnavailable = total;
+    }
+  }
+  const restartingKeys = new Set(restarting.map(pod => pod.key));
+
+  // Services and the Ingresses in front of them
+  const serviceNodes = new Map<string, GraphNode>();
+  restarting.forEach(pod => graph.servicesSelecting(pod).forEach(service => serviceNodes.set(service.key, service)));
+  const services = Array.from(serviceNodes.values()).map(service => {
+    const selected = graph.podsSelectedBy(service);
+    const ready = selected.filter(pod => isReady(podObjects.get(pod.key)));
+    const overlap = ready.filter(pod => restartingKeys.has(pod.key)).length;
+    const unavailable = Math.min(maxUnavailable, overlap);
+    return {
+      name: service.name,
+      namespace: service.namespace,
+      readyEndpoints: ready.length,
+      unavailableDuringRollout: unavailable,
+      losesAllEndpoints: ready.length > 0 && unavailable >= ready.length,
+    };
+  });
+  const losing = new Set(services.filter(s => s.losesAllEndpoints).map(s => refKey({ kind: 'Service', ...s })));
+
+  const ingressNodes = new Map<string, GraphNode>();
+  serviceNodes.forEach(service => graph.ingressesRouting(service).forEach(ingress => ingressNodes.set(ingress.key, ingress)));
+  const ingresses = Array.from(ingressNodes.values()).map(ingress => {
+    const routed = graph.servicesRoutedBy(ingress);
+    return {
+      name: ingress.name,
+      namespace: ingress.namespace,
+      services: routed.map(service => service.name),
+      losesAllBackends: routed.length > 0 && routed.every(service => losing.has(service.key)),
+    };
+  });
+
+  // Disruption budgets covering the restarting pods; listed on demand, so they may be missing
+  const disruptionBudgetsKnown = cluster.PodDisruptionBudget !== undefined;
+  const disruptionBudgets = (cluster.PodDisruptionBudget ?? [])
+    .filter(budget => budget.metadata.namespace === root.namespace)
+    .flatMap(budget => {
+      const covered = restarting.filter(pod => selectorMatches(budget.spec.selector, pod.labels));
+      if (covered.length === 0) {
+        return [];
+      }
+      const allowed = allowedDisruptions(budget, cluster.Pod ?? []);
+      return [{ name: budget.metadata.name, allowedDisruptions: allowed, wouldBeViolated: Math.min(maxUnavailable, covered.length) > allowed }];
+    });
+
+  const dependentNamespaces = findDependentNamespaces(Array.from(serviceNodes.values()), cluster, graph);
+
+  const factors: string[] = [];
+  services.filter(s => s.losesAllEndpoints).forEach(s => factors.push(`Service ${s.namespace}/${s.name} loses all endpoints during rollout`));
+  ingresses.filter(i => i.losesAllBackends).forEach(i => factors.push(`Ingress ${i.namespace}/${i.name} has no backends during rollout`));
+  disruptionBudgets.filter(b => b.wouldBeViolated).forEach(b => factors.push(`Violates PodDisruptionBudget ${root.namespace}/${b.name} (allows ${b.allowedDisruptions} disruption${b.allowedDisruptions === 1 ? '' : 's'})`));
+  if (!disruptionBudgetsKnown && restarting.length > 0) {
+    factors.push('PodDisruptionBudgets could not be listed, so budget violations were not checked');
+  }
+  if (dependentNamespaces.length > 0) {
+    factors.push(`Namespaces ${dependentNamespaces.map(d => d.namespace).join(', ')} depend on the affected Services`);
+  }
+  if (restarting.length > 0) {
+    const pace = maxUnavailable === 0 ? 'surging so none are unavailable' : `up to ${maxUnavailable} at a time`;
+    factors.push(`Restarts ${restarting.length} pod${restarting.length === 1 ? '' : 's'} of ${root.kind} ${root.namespace ? `${root.namespace}/` : ''}${root.name}, ${pace}`);
+  }
+
+  const outage = losing.size > 0 || disruptionBudgets.some(b => b.wouldBeViolated);
+  return {
+    target: root,
+    disruption,
+    podsRestarting: restarting.length,
+    maxUnavailable,
+    services,
+    ingresses,
+    disruptionBudgets,
+    disruptionBudgetsKnown,
+    dependentNamespaces,
+    level: outage ? 'high' : restarting.length > 0 || dependentNamespaces.length > 0 ? 'medium' : 'low',
+    factors,
+  };
+}
+
+// status.disruptionsAllowed when the controller has reported it, otherwise worked out from the spec
+function allowedDisruptions(budget: PodDisruptionBudget, pods: Pod[]): number {
+  if (budget.status?.disruptionsAllowed !== undefined) {
+    return budget.status.disruptionsAllowed;
+  }
+  const matched = pods.filter(pod =>
+    pod.metadata.namespace === budget.metadata.namespace && selectorMatches(budget.spec.selector, pod.metadata.labels ?? {}));
+  const healthy = matched.filter(isReady).length;
+  if (budget.spec.maxUnavailable !== undefined) {
+    return Math.max(0, scaledValue(budget.spec.maxUnavailable, matched.length, 0, true) - (matched.length - healthy));
+  }
+  return Math.max(0, healthy - scaledValue(budget.spec.minAvailable, matched.length, 0, true));
+}
+
+// Other namespaces whose pods address an affected Service by DNS, or alias it with an ExternalName Service
+function findDependentNamespaces(services: GraphNode[], cluster: Partial<DetectableResources>, graph: ResourceGraph): BlastRadius['dependentNamespaces'] {
+  const dependents = new Map<string, Set<string>>();
+  const add = (namespace: string, via: string) => dependents.set(namespace, (dependents.get(namespace) ?? new Set()).add(via));
+
+  for (const service of services) {
+    const escaped = `${service.name}.${service.namespace}`.replace(/\./g, '\\.');
+    const dns = new RegExp(`(^|[^\\w.-])${escaped}(\\.svc\\b|[:/]|$)`);
+
+    for (const pod of cluster.Pod ?? []) {
+      if (pod.metadata.namespace === service.namespace) continue;
+      const env = pod.spec.containers.flatMap(c => c.env ?? []).find(e => e.value && dns.test(e.value));
+      if (env) {
+        const owner = graph.rootOwner({ kind: 'Pod', name: pod.metadata.name, namespace: pod.metadata.namespace });
+        add(pod.metadata.namespace, `${owner.kind} ${owner.name} (env ${env.name})`);
+      }
+    }
+
+    for (const alias of cluster.Service ?? []) {
+      if (alias.metadata.namespace !== service.namespace && alias.spec.externalName && dns.test(alias.spec.externalName)) {
+        add(alias.metadata.namespace, `Service ${alias.metadata.name} (ExternalName)`);
+      }
+    }
+  }
+
+  return Array.from(dependents.entries())
+    .map(([namespace, via]) => ({ namespace, via: Array.from(via) }))
+    .sort((a, b) => a.namespace.localeCompare(b.namespace));
+}
@@ -0,0 +1,252 @@
+import { parseAllDocuments } from 'yaml';
+import { ResourceSchemas, ResourceKind, ResourceOfKind, isResourceKind } from './kubernetes-resources';
+import { DetectorRegistry, DetectableResources } from './issue-detectors';
+import { ResourceGraph, rollUpIssues } from './resource-graph';
+import { HealthReport, HealthScoreOptions, findingFromAnalysis, findingFromIssue, scoreClusterHealth } from './health-score';
+import { KubernetesErrorAnalyzer } from './kubernetes-error-analyzer';
+import { parseLogLines } from './log-parsers';
+import type { Issue } from './issues';
+
+// Offline cluster state loaded from support bundles: `kubectl get -A -o yaml` dumps,
+// `kubectl cluster-info dump` directories and tarballs of either
+
+export interface SnapshotLog {
+  source: string;
+  namespace?: string;
+  pod?: string;
+  lines: string[];
+}
+
+export interface SnapshotSkip {
+  source: string;
+  reason: string;
+}
+
+export interface SnapshotAnalysis {
+  issues: Issue[];
+  logAnalysis: Awaited<ReturnType<KubernetesErrorAnalyzer['batchAnalyze']>>;
+  health: HealthReport;
+}
+
+const MANIFEST_EXTENSIONS = /\.(ya?ml|json)$/i;
+const LOG_FILE = /(^|\/)logs?\.txt$|\.log$/i;
+
+export class ClusterSnapshot {
+  private objects: Map<ResourceKind, Map<string, unknown>> = new Map();
+  readonly logs: SnapshotLog[] = [];
+  readonly skipped: SnapshotSkip[] = [];
+  // Kinds present in the bundle that the resource model does not cover (ConfigMaps, Secrets, ...)
+  readonly ignoredKinds: Map<string, number> = new Map();
+
+  static fromManifest(text: string, source = 'manifest'): ClusterSnapshot {
+    const snapshot = new ClusterSnapshot();
+    snapshot.addManifest(text, source);
+    return snapshot;
+  }
+
+  static fromFiles(files: Record<string, string>): ClusterSnapshot {
+    const snapshot = new ClusterSnapshot();
+    snapshot.addFiles(files);
+    return snapshot;
+  }
+
+  static async fromTarball(data: Uint8Array): Promise<ClusterSnapshot> {
+    const snapshot = new ClusterSnapshot();
+    await snapshot.addTarball(data);
+    return snapshot;
+  }
+
+  // Same shape as a live list: all namespaces when omitted, cluster-scoped kinds ignore it
+  list<K extends ResourceKind>(kind: K, namespace?: string): ResourceOfKind<K>[] {
+    const objects = Array.from(this.objects.get(kind)?.values() ?? []) as ResourceOfKind<K>[];
+    return namespace
+      ? objects.filter(o => !o.metadata.namespace || o.metadata.namespace === namespace)
+      : objects;
+  }
+
+  get kinds(): ResourceKind[] {
+    return Array.from(this.objects.keys());
+  }
+
+  resources(namespace?: string): Partial<DetectableResources> {
+    const resources: Partial<Record<ResourceKind, unknown[]>> = {};
+    for (const kind of Object.keys(ResourceSchemas) as ResourceKind[]) {
+      resources[kind] = this.list(kind, namespace);
+    }
+    return resources as Partial<DetectableResources>;
+  }
+
+  // One YAML stream or JSON document; Lists (v1/List or PodList-style) are unpacked
+  addManifest(text: string, source = 'manifest'): void {
+    let documents: unknown[];
+    try {
+      documents = source.toLowerCase().endsWith('.json')
+        ? [JSON.parse(text)]
+        : parseAllDocuments(text).map(doc => {
+          if (doc.errors.length > 0) {
+            throw doc.errors[0];
+          }
+          return doc.toJS();
+        });
+    } catch (error) {
+      this.skipped.push({ source, reason: `Unparseable manifest: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    for (const document of documents) {
+      this.addDocument(document, source);
+    }
+  }
+
+  addLog(text: string, source: string, context: { namespace?: string; pod?: string } = {}): void {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length > 0) {
+      this.logs.push({ source, ...context, lines });
+    }
+  }
+
+  // Path → contents, as found in a cluster-info dump directory or an unpacked bundle
+  addFiles(files: Record<string, string>): void {
+    for (const [path, content] of Object.entries(files)) {
+      if (LOG_FILE.test(path)) {
+        this.addLog(content, path, logContext(path));
+      } else if (MANIFEST_EXTENSIONS.test(path)) {
+        this.addManifest(content, path);
+      }
+    }
+  }
+
+  // A .tar or .tar.gz bundle; gzip is detected from the magic bytes
+  async addTarball(data: Uint8Array): Promise<void> {
+    const archive = data[0] === 0x1f && data[1] === 0x8b ? await gunzip(data) : data;
+    this.addFiles(readTar(archive));
+  }
+
+  private addDocument(document: unknown, source: string, listKind?: string): void {
+    if (!document || typeof document !== 'object') {
+      return;
+    }
+
+    const raw = document as { kind?: string; items?: unknown[] };
+    if (Array.isArray(raw.items) && (!raw.kind || raw.kind.endsWith('List'))) {
+      // cluster-info dump writes typed lists whose items omit their own kind
+      const itemKind = raw.kind && raw.kind !== 'List' ? raw.kind.slice(0, -'List'.length) : undefined;
+      raw.items.forEach(item => this.addDocument(item, source, itemKind));
+      return;
+    }
+
+    const kind = raw.kind ?? listKind;
+    if (!kind) {
+      this.skipped.push({ source, reason: 'Object without a kind' });
+      return;
+    }
+    if (!isResourceKind(kind)) {
+      this.ignoredKinds.set(kind, (this.ignoredKinds.get(kind) ?? 0) + 1);
+      return;
+    }
+
+    const parsed = ResourceSchemas[kind].safeParse(document);
+    if (!parsed.success) {
+      const name = (document as { metadata?: { name?: string } }).metadata?.name ?? '<unnamed>';
+      this.skipped.push({ source, reason: `Invalid ${kind} ${name}: ${parsed.error.issues[0]?.message}` });
+      return;
+    }
+
+    const { metadata } = parsed.data as { metadata: { namespace?: string; name: string } };
+    const key = metadata.namespace ? `${metadata.namespace}/${metadata.name}` : metadata.name;
+    let objects = this.objects.get(kind);
+    if (!objects) {
+      objects = new Map();
+      this.objects.set(kind, objects);
+    }
+    // Bundles often carry the same object twice (a dump plus a per-namespace file); last one wins
+    objects.set(key, parsed.data);
+  }
+}
+
+// cluster-info dump lays logs out as <namespace>/<pod>/logs.txt
+function logContext(path: string): { namespace?: string; pod?: string } {
+  const parts = path.split('/').filter(Boolean);
+  return parts.length >= 3 && /^logs?\.txt$/i.test(parts[parts.length - 1])
+    ? { namespace: parts[parts.length - 3], pod: parts[parts.length - 2] }
+    : {};
+}
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const BLOCK = 512;
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+// Minimal ustar reader: regular files only, with GNU long names and pax path overrides
+export function readTar(data: Uint8Array): Record<string, string> {
+  const files: Record<string, string> = {};
+  const decoder = new TextDecoder();
+  let offset = 0;
+  let nextPath: string | undefined;
+
+  while (offset + BLOCK <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readString(header, 257, 6).startsWith('ustar') ? readString(header, 345, 155) : '';
+    const name = readString(header, 0, 100);
+    const body = data.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === 'L') {
+      nextPath = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      nextPath = decoder.decode(body).match(/\d+ path=([^\n]*)\n/)?.[1] ?? nextPath;
+      continue;
+    }
+
+    const path = (nextPath ?? (prefix ? `${prefix}/${name}` : name)).replace(/^\.\//, '');
+    nextPath = undefined;
+    if (type === '0' || type === '\0') {
+      files[path] = decoder.decode(body);
+    }
+  }
+
+  return files;
+}
+
+// Run the detectors, the log analyzer and the health model exactly as for a live cluster
+export async function analyzeSnapshot(
+  snapshot: ClusterSnapshot,
+  registry: DetectorRegistry,
+  options: HealthScoreOptions & { namespace?: string } = {},
+): Promise<SnapshotAnalysis> {
+  const resources = snapshot.resources(options.namespace);
+  const issues = rollUpIssues(registry.run(resources), ResourceGraph.fromResources(resources));
+
+  const logs = snapshot.logs.filter(log => !options.namespace || !log.namespace || log.namespace === options.namespace);
+  // Each file is its own stream, so format detection and pod context stay per file
+  const records = logs.flatMap(log => parseLogLines(log.lines, { context: { namespace: log.namespace, pod: log.pod } }));
+  const logAnalysis = await KubernetesErrorAnalyzer.getInstance().batchAnalyze(records);
+
+  const health = scoreClusterHealth([
+    ...issues.map(findingFromIssue),
+    ...logAnalysis.analyses.map(findingFromAnalysis),
+  ], options);
+
+  return { issues, logAnalysis, health };
+}
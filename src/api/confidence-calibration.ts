@@ -0,0 +1,113 @@
+import type { FixOutcome } from './outcome-store';
+
+// Whether the confidence the scorer gave a fix matches how often such fixes actually worked.
+// Well calibrated means: of all fixes scored ~90%, ~90% succeeded.
+
+export interface Prediction {
+  // Probability of success, 0-1
+  predicted: number;
+  success: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationStats {
+  predictions: number;
+  // Mean squared error of the predicted probabilities; 0 is perfect, 0.25 is a coin flip at 50%
+  brierScore: number;
+  // Gap between predicted and observed success, averaged over bins weighted by their size
+  expectedCalibrationError: number;
+  // Empty bins are left out
+  bins: ReliabilityBin[];
+}
+
+export interface CalibrationGroup extends CalibrationStats {
+  issueType: string;
+  action?: string;
+}
+
+export interface CalibrationReport {
+  overall: CalibrationStats;
+  issueTypes: CalibrationGroup[];
+  // One group per issue type and action pair
+  actions: CalibrationGroup[];
+}
+
+export interface CalibrationOptions {
+  bins?: number;
+}
+
+export function calibrate(predictions: Prediction[], binCount = 10): CalibrationStats {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    predictedSum: 0,
+    successes: 0,
+    count: 0,
+  }));
+
+  let squaredError = 0;
+  for (const { predicted, success } of predictions) {
+    const p = Math.max(0, Math.min(1, predicted));
+    squaredError += (p - (success ? 1 : 0)) ** 2;
+    // A prediction of exactly 1 belongs in the top bin
+    const bin = bins[Math.min(binCount - 1, Math.floor(p * binCount))];
+    bin.count++;
+    bin.predictedSum += p;
+    if (success) {
+      bin.successes++;
+    }
+  }
+
+  const filled = bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      lower: bin.lower,
+      upper: bin.upper,
+      count: bin.count,
+      meanPredicted: bin.predictedSum / bin.count,
+      observedRate: bin.successes / bin.count,
+    }));
+
+  const total = predictions.length;
+  return {
+    predictions: total,
+    brierScore: total > 0 ? squaredError / total : 0,
+    expectedCalibrationError: total > 0
+      ? filled.reduce((sum, bin) => sum + bin.count / total * Math.abs(bin.meanPredicted - bin.observedRate), 0)
+      : 0,
+    bins: filled,
+  };
+}
+
+// Outcomes recorded without the confidence they were given are skipped
+export function calibrationReport(outcomes: FixOutcome[], options: CalibrationOptions = {}): CalibrationReport {
+  const binCount = options.bins ?? 10;
+  const scored = outcomes.filter(o => o.predictedConfidence !== undefined);
+  const toPredictions = (group: FixOutcome[]) =>
+    group.map(o => ({ predicted: o.predictedConfidence! / 100, success: o.success }));
+
+  const groupBy = (key: (o: FixOutcome) => string) => {
+    const groups = new Map<string, FixOutcome[]>();
+    for (const outcome of scored) {
+      groups.set(key(outcome), [...(groups.get(key(outcome)) ?? []), outcome]);
+    }
+    return Array.from(groups.values());
+  };
+
+  return {
+    overall: calibrate(toPredictions(scored), binCount),
+    issueTypes: groupBy(o => o.issueType)
+      .map(group => ({ issueType: group[0].issueType, ...calibrate(toPredictions(group), binCount) }))
+      .sort((a, b) => b.predictions - a.predictions),
+    actions: groupBy(o => `${o.issueType}/${o.action}`)
+      .map(group => ({ issueType: group[0].issueType, action: group[0].action, ...calibrate(toPredictions(group), binCount) }))
+      .sort((a, b) => b.predictions - a.predictions),
+  };
+}
@@ -0,0 +1,574 @@
+import { z } from 'zod';
+import { parse } from 'yaml';
+import type { ErrorAnalysis, KubernetesError } from './kubernetes-error-analyzer';
+
+// Declarative error pattern rules for KubernetesErrorAnalyzer, loadable from YAML or JSON
+export const ErrorRuleFixSchema = z.object({
+  action: z.string(),
+  description: z.string(),
+  yaml: z.string().optional(),
+  command: z.string().optional(),
+  priority: z.number(),
+});
+
+export const ErrorRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9._/-]*$/, 'Rule ids are lowercase letters, digits, ".", "_", "/" and "-"'),
+  pattern: z.string().min(1),
+  flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u regex flags are supported').default(''),
+  errorType: z.string(),
+  severity: z.enum(['critical', 'high', 'medium', 'low']),
+  rootCause: z.string(),
+  diagnosis: z.string(),
+  autoRemediation: z.boolean().default(true),
+  fixes: z.array(ErrorRuleFixSchema).default([]),
+  prevention: z.string().default(''),
+  // Higher runs first; ties go to the most recently loaded source, so overrides beat built-ins
+  priority: z.number().default(0),
+  enabled: z.boolean().default(true),
+});
+
+export const ErrorRuleFileSchema = z.object({
+  // Rule ids to switch off, built-in or from other files
+  disable: z.array(z.string()).default([]),
+  rules: z.array(ErrorRuleSchema).default([]),
+});
+
+export type ErrorRuleFix = z.infer<typeof ErrorRuleFixSchema>;
+export type ErrorRule = z.infer<typeof ErrorRuleSchema>;
+export type ErrorRuleFile = z.infer<typeof ErrorRuleFileSchema>;
+
+export interface CompiledErrorRule extends ErrorRule {
+  regex: RegExp;
+  source: string;
+}
+
+// Variables a fix template may use without a matching named group; they come from the parsed record
+export const RECORD_VARIABLES = ['pod', 'namespace', 'container', 'component', 'node'] as const;
+
+const TEMPLATE_VARIABLE = /\{\{\s*([A-Za-z_]\w*)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+// Captured text ends up in shell commands and YAML; only plain resource-name characters are let through
+const SAFE_VALUE = /^[A-Za-z0-9._:/@-]{1,253}$/;
+
+const TEMPLATE_FILTERS: Record<string, (value: string) => string | undefined> = {
+  // 10 → 20, 512Mi → 1024Mi; anything non-numeric is left unresolved
+  double: value => {
+    const match = value.match(/^(\d+(?:\.\d+)?)([A-Za-z]*)$/);
+    return match ? `${Number(match[1]) * 2}${match[2]}` : undefined;
+  },
+};
+
+export const BUILTIN_RULE_SOURCE = 'builtin';
+
+export const BUILTIN_ERROR_RULES: ErrorRule[] = [
+  {
+    id: 'api-server-connection-failure',
+    pattern: 'Failed to watch.*Pod.*connection refused',
+    flags: '',
+    errorType: 'api_server_connection_failure',
+    severity: 'critical',
+    rootCause: 'Kubernetes API server is unreachable',
+    diagnosis: 'The kubelet cannot connect to the API server. This could indicate network issues, API server downtime, or certificate problems.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'restart_kubelet',
+        description: 'Restart kubelet service to re-establish connection',
+        command: 'systemctl restart kubelet',
+        priority: 1,
+      },
+      {
+        action: 'check_certificates',
+        description: 'Verify kubelet certificates are valid',
+        command: 'kubeadm certs check-expiration',
+        priority: 2,
+      }
+    ],
+    prevention: 'Implement API server health monitoring and certificate auto-renewal',
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'pod-crash-loop',
+    pattern: 'CrashLoopBackOff.*back-off.*restarting failed container(?:=(?<container>[\\w.-]+)(?: pod=(?<pod>[a-z0-9.-]+)_(?<namespace>[a-z0-9-]+))?)?',
+    flags: '',
+    errorType: 'pod_crash_loop',
+    severity: 'high',
+    rootCause: 'Container repeatedly failing to start',
+    diagnosis: 'Pod is stuck in CrashLoopBackOff due to application errors, resource constraints, or configuration issues.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'increase_resources',
+        description: 'Increase memory and CPU limits',
+        yaml: `spec:
+  containers:
+  - name: {{container}}
+    resources:
+      limits:
+        memory: "512Mi"
+        cpu: "500m"
+      requests:
+        memory: "256Mi"
+        cpu: "250m"`,
+        priority: 1,
+      },
+      {
+        action: 'check_logs',
+        description: 'Analyze container logs for application errors',
+        command: 'kubectl logs {{pod}} -n {{namespace|default}} -c {{container}} --previous',
+        priority: 2,
+      }
+    ],
+    prevention: 'Implement proper health checks and resource monitoring',
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'metrics-server-failure',
+    pattern: 'no metrics returned from resource metrics API',
+    flags: '',
+    errorType: 'metrics_server_failure',
+    severity: 'medium',
+    rootCause: 'Metrics server is not responding',
+    diagnosis: 'HPA cannot scale because metrics server is unavailable. This affects auto-scaling capabilities.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'restart_metrics_server',
+        description: 'Restart metrics server deployment',
+        command: 'kubectl rollout restart deployment metrics-server -n kube-system',
+        priority: 1,
+      },
+      {
+        action: 'verify_metrics_server',
+        description: 'Check metrics server installation',
+        command: 'kubectl get deployment metrics-server -n kube-system',
+        priority: 2,
+      }
+    ],
+    prevention: 'Monitor metrics server health and implement redundancy',
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'node-scheduling-failure',
+    pattern: '(?:pod (?<namespace>[a-z0-9-]+)/(?<pod>[a-z0-9.-]+): )?no nodes available to schedule pods',
+    flags: '',
+    errorType: 'node_scheduling_failure',
+    severity: 'high',
+    rootCause: 'No available nodes meet pod requirements',
+    diagnosis: 'Pod cannot be scheduled due to resource constraints, node selectors, or taints/tolerations.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'scale_cluster',
+        description: 'Add more worker nodes to the cluster',
+        command: 'kubectl get nodes -o wide',
+        priority: 1,
+      },
+      {
+        action: 'check_node_resources',
+        description: 'Analyze node resource availability',
+        command: 'kubectl describe nodes',
+        priority: 2,
+      },
+      {
+        action: 'inspect_pending_pod',
+        description: 'See which scheduling predicates rejected the pod',
+        command: 'kubectl describe pod {{pod}} -n {{namespace|default}}',
+        priority: 3,
+      }
+    ],
+    prevention: 'Implement cluster auto-scaling and resource monitoring',
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'ip-exhaustion',
+    pattern: 'Failed to allocate IP address.*No available IPs',
+    flags: '',
+    errorType: 'ip_exhaustion',
+    severity: 'high',
+    rootCause: 'CNI network IP pool exhausted',
+    diagnosis: 'The CNI plugin has run out of available IP addresses in the pod network range.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'expand_cidr',
+        description: 'Expand pod CIDR range',
+        yaml: `spec:
+  podCIDR: "10.244.0.0/16"  # Expand from /24 to /16`,
+        priority: 1,
+      },
+      {
+        action: 'cleanup_unused_ips',
+        description: 'Clean up unused IP allocations',
+        command: 'kubectl get pods --all-namespaces | grep Terminating',
+        priority: 2,
+      }
+    ],
+    prevention: 'Monitor IP usage and implement CIDR planning',
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'image-pull-error',
+    pattern: '(?:Failed to pull image "(?<image>(?<repository>[^"@]+?)(?::(?<tag>[\\w.-]+))?)".*)?manifest.*not found',
+    flags: '',
+    errorType: 'image_pull_error',
+    severity: 'medium',
+    rootCause: 'Container image not found in registry',
+    diagnosis: 'The specified container image does not exist or is not accessible from the cluster.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'verify_image_tag',
+        description: 'Check if image tag exists in registry',
+        command: 'docker pull {{image}}',
+        priority: 1,
+      },
+      {
+        action: 'update_image_tag',
+        description: 'Pin the image to a digest that exists in the registry',
+        yaml: `spec:
+  containers:
+  - name: {{container}}
+    image: {{repository}}@sha256:<digest>`,
+        priority: 2,
+      }
+    ],
+    prevention: 'Implement image scanning and registry monitoring',
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'resource-quota-exceeded',
+    pattern: 'exceeded quota(?:: (?<quota>[a-z0-9.-]+))?.*?pods(?:=\\d+, used: pods=(?<used>\\d+), limited: pods=(?<limit>\\d+))?',
+    flags: '',
+    errorType: 'resource_quota_exceeded',
+    severity: 'medium',
+    rootCause: 'Namespace resource quota exceeded',
+    diagnosis: 'The namespace has reached its pod limit defined by resource quotas.',
+    autoRemediation: true,
+    fixes: [
+      {
+        action: 'increase_quota',
+        description: 'Increase pod quota for namespace',
+        yaml: `apiVersion: v1
+kind: ResourceQuota
+metadata:
+  name: {{quota}}
+  namespace: {{namespace|default}}
+spec:
+  hard:
+    pods: "{{limit|double}}"  # Increased from {{limit}}`,
+        priority: 1,
+      },
+      {
+        action: 'cleanup_pods',
+        description: 'Remove unused or failed pods',
+        command: 'kubectl delete pods -n {{namespace|default}} --field-selector=status.phase=Failed',
+        priority: 2,
+      }
+    ],
+    prevention: 'Monitor resource usage and implement auto-scaling quotas',
+    priority: 0,
+    enabled: true,
+  },
+];
+
+// Parses and validates one rule file; a bare list of rules is accepted as shorthand
+export function parseErrorRuleFile(text: string, source: string): ErrorRuleFile {
+  let raw: unknown;
+  try {
+    raw = parse(text);
+  } catch (error) {
+    throw new Error(`Invalid rule file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ErrorRuleFileSchema.safeParse(Array.isArray(raw) ? { rules: raw } : raw ?? {});
+  if (!result.success) {
+    const details = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid rule file ${source}: ${details}`);
+  }
+
+  const ids = new Set<string>();
+  for (const rule of result.data.rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Invalid rule file ${source}: duplicate rule id ${rule.id}`);
+    }
+    ids.add(rule.id);
+    compileRule(rule, source);
+    checkTemplateVariables(rule, source);
+  }
+
+  return result.data;
+}
+
+function compileRule(rule: ErrorRule, source: string): CompiledErrorRule {
+  try {
+    return { ...rule, regex: new RegExp(rule.pattern, rule.flags), source };
+  } catch (error) {
+    throw new Error(`Invalid pattern in rule ${rule.id} (${source}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function templateVariables(text: string | undefined): string[] {
+  return Array.from((text ?? '').matchAll(TEMPLATE_VARIABLE), match => match[1]);
+}
+
+function namedGroups(pattern: string): string[] {
+  return Array.from(pattern.matchAll(/\(\?<([A-Za-z_]\w*)>/g), match => match[1]);
+}
+
+// A typo in a template variable would otherwise only show up as "<podd>" in a suggested command
+function checkTemplateVariables(rule: ErrorRule, source: string): void {
+  const known = new Set<string>([...namedGroups(rule.pattern), ...RECORD_VARIABLES]);
+  const texts = [rule.rootCause, rule.diagnosis, rule.prevention, ...rule.fixes.flatMap(fix => [fix.description, fix.command, fix.yaml])];
+  for (const variable of texts.flatMap(templateVariables)) {
+    if (!known.has(variable)) {
+      throw new Error(`Invalid rule ${rule.id} (${source}): template variable {{${variable}}} is neither a named group in the pattern nor a record field`);
+    }
+  }
+}
+
+// Fills {{name}}, {{name|fallback}} and {{name|double}}; anything unresolvable renders as <name>
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(TEMPLATE_VARIABLE, (_, name: string, modifier?: string) => {
+    const value = variables[name];
+    if (modifier && TEMPLATE_FILTERS[modifier]) {
+      return (value !== undefined ? TEMPLATE_FILTERS[modifier](value) : undefined) ?? `<${name}>`;
+    }
+    return value ?? (modifier || `<${name}>`);
+  });
+}
+
+// Named groups win over record fields: the line itself is the more specific source
+export function matchVariables(
+  match: RegExpExecArray,
+  record: Partial<Record<(typeof RECORD_VARIABLES)[number], string>> = {},
+): Record<string, string> {
+  return safeVariables({ ...pick(record), ...match.groups });
+}
+
+// Drops values that are missing or carry characters unsafe to paste into a command
+export function safeVariables(candidates: Record<string, string | undefined>): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [name, value] of Object.entries(candidates)) {
+    if (value !== undefined && SAFE_VALUE.test(value)) {
+      variables[name] = value;
+    }
+  }
+  return variables;
+}
+
+function pick(record: Partial<Record<string, string>>): Record<string, string | undefined> {
+  return Object.fromEntries(RECORD_VARIABLES.map(name => [name, record[name]]));
+}
+
+// Built-ins plus any number of named rule files; a later file overrides earlier rules with the same id
+export class ErrorRuleSet {
+  private sources: Map<string, ErrorRuleFile> = new Map();
+  private compiled: CompiledErrorRule[] = [];
+  private listeners: Array<(rules: CompiledErrorRule[]) => void> = [];
+
+  constructor(builtins: ErrorRule[] = BUILTIN_ERROR_RULES) {
+    this.sources.set(BUILTIN_RULE_SOURCE, { disable: [], rules: builtins });
+    this.rebuild();
+  }
+
+  // Adds or replaces a source; throws without changing anything if the file is invalid
+  load(source: string, text: string): CompiledErrorRule[] {
+    return this.setSource(source, parseErrorRuleFile(text, source));
+  }
+
+  setSource(source: string, file: ErrorRuleFile): CompiledErrorRule[] {
+    // Re-inserting moves a reloaded file to the end, so the last load wins ties
+    this.sources.delete(source);
+    this.sources.set(source, file);
+    this.rebuild();
+    return this.compiled;
+  }
+
+  removeSource(source: string): boolean {
+    if (source === BUILTIN_RULE_SOURCE || !this.sources.delete(source)) {
+      return false;
+    }
+    this.rebuild();
+    return true;
+  }
+
+  source(name: string): ErrorRuleFile | undefined {
+    return this.sources.get(name);
+  }
+
+  sourceNames(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  rules(): CompiledErrorRule[] {
+    return this.compiled;
+  }
+
+  get(id: string): CompiledErrorRule | undefined {
+    return this.compiled.find(rule => rule.id === id);
+  }
+
+  match(line: string): { rule: CompiledErrorRule; match: RegExpExecArray } | null {
+    for (const rule of this.compiled) {
+      const match = rule.regex.exec(line);
+      if (match) {
+        return { rule, match };
+      }
+    }
+    return null;
+  }
+
+  // Records match on their message, then on the raw line; every text is rendered from the captures
+  analyze(logEntry: string | KubernetesError): ErrorAnalysis | null {
+    const result = typeof logEntry === 'string'
+      ? this.match(logEntry)
+      : this.match(logEntry.message) ?? (logEntry.raw ? this.match(logEntry.raw) : null);
+    if (!result) {
+      return null;
+    }
+
+    const { rule, match } = result;
+    const entry = typeof logEntry === 'string' ? undefined : logEntry;
+    const variables = matchVariables(match, entry);
+    const render = (template: string) => renderTemplate(template, variables);
+
+    return {
+      errorType: rule.errorType,
+      severity: rule.severity,
+      rootCause: render(rule.rootCause),
+      aiDiagnosis: render(rule.diagnosis),
+      autoRemediationAvailable: rule.autoRemediation,
+      suggestedFixes: rule.fixes.map(fix => ({
+        ...fix,
+        description: render(fix.description),
+        command: fix.command && render(fix.command),
+        yaml: fix.yaml && render(fix.yaml),
+      })),
+      preventionStrategy: render(rule.prevention),
+      entry,
+      variables,
+      category: 'kubernetes',
+      ruleId: rule.id,
+    };
+  }
+
+  subscribe(listener: (rules: CompiledErrorRule[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private rebuild(): void {
+    const byId = new Map<string, { rule: CompiledErrorRule; order: number }>();
+    const disabled = new Set<string>();
+    let order = 0;
+
+    for (const [source, file] of this.sources) {
+      file.disable.forEach(id => disabled.add(id));
+      for (const rule of file.rules) {
+        byId.set(rule.id, { rule: compileRule(rule, source), order: order++ });
+      }
+    }
+
+    this.compiled = Array.from(byId.values())
+      .filter(({ rule }) => rule.enabled && !disabled.has(rule.id))
+      .sort((a, b) => b.rule.priority - a.rule.priority || b.order - a.order)
+      .map(({ rule }) => rule);
+
+    this.listeners.forEach(listener => listener(this.compiled));
+  }
+}
+
+// Somewhere rule text can be read from: a URL, a file, a ConfigMap; null means it is gone
+export interface ErrorRuleSource {
+  name: string;
+  read(): Promise<string | null>;
+}
+
+export function urlRuleSource(url: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): ErrorRuleSource {
+  return {
+    name: url,
+    async read() {
+      const response = await fetchImpl(url, { cache: 'no-store' });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch rule file ${url}: ${response.status}`);
+      }
+      return response.text();
+    },
+  };
+}
+
+// Polls rule sources and reloads the ones whose text changed. A broken edit is reported and
+// the previous rules stay active, so a typo cannot silently switch detection off.
+export class ErrorRuleWatcher {
+  private lastText: Map<string, string | null> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private errorListeners: Array<(source: string, error: Error) => void> = [];
+
+  constructor(
+    private readonly ruleSet: ErrorRuleSet,
+    private readonly sources: ErrorRuleSource[],
+    private readonly intervalMs = 5000,
+  ) {}
+
+  // Resolves after the initial load so callers can analyze with the full rule set
+  async start(): Promise<void> {
+    await this.poll();
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  onError(listener: (source: string, error: Error) => void): () => void {
+    this.errorListeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.errorListeners = this.errorListeners.filter(l => l !== listener);
+    };
+  }
+
+  async poll(): Promise<void> {
+    for (const source of this.sources) {
+      try {
+        const text = await source.read();
+        if (this.lastText.has(source.name) && this.lastText.get(source.name) === text) {
+          continue;
+        }
+
+        if (text === null) {
+          this.ruleSet.removeSource(source.name);
+        } else {
+          this.ruleSet.load(source.name, text);
+        }
+        this.lastText.set(source.name, text);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (this.errorListeners.length === 0) {
+          console.warn(`Keeping previous rules for ${source.name}`, err);
+        }
+        this.errorListeners.forEach(listener => listener(source.name, err));
+      }
+    }
+  }
+}
@@ -1,71 +1,34 @@
 import { z } from 'zod';
+import { DeploymentSchema, JobSchema } from './kubernetes-resources';
 
 // GenAI Infrastructure Resiliency Schema
-export const GenAIDeploymentSchema = z.object({
-  metadata: z.object({
-    name: z.string(),
-    namespace: z.string(),
-    labels: z.record(z.string()).optional(),
-  }),
-  spec: z.object({
-    replicas: z.number().min(3), // High availability requirement
-    selector: z.object({
-      matchLabels: z.record(z.string()),
-    }),
-    template: z.object({
-      spec: z.object({
-        containers: z.array(z.object({
-          name: z.string(),
-          image: z.string(),
-          resources: z.object({
-            limits: z.object({
-              cpu: z.string(),
-              memory: z.string(),
-            }),
-            requests: z.object({
-              cpu: z.string(),
-              memory: z.string(),
-            }),
-          }),
-        })),
-        affinity: z.object({
-          podAntiAffinity: z.object({
-            requiredDuringSchedulingIgnoredDuringExecution: z.array(z.object({
-              labelSelector: z.object({
-                matchExpressions: z.array(z.object({
-                  key: z.string(),
-                  operator: z.string(),
-                  values: z.array(z.string()),
-                })),
-              }),
-              topologyKey: z.string(),
-            })),
-          }),
-        }).optional(),
-      }),
-    }),
-  }),
-});
+export const GenAIDeploymentSchema = DeploymentSchema.superRefine((deployment, ctx) => {
+  // High availability requirement
+  if ((deployment.spec.replicas ?? 1) < 3) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['spec', 'replicas'],
+      message: 'GenAI deployments need at least 3 replicas',
+    });
+  }
 
-export const AutoRemediationJobSchema = z.object({
-  metadata: z.object({
-    name: z.string(),
-    namespace: z.string(),
-  }),
-  spec: z.object({
-    template: z.object({
-      spec: z.object({
-        containers: z.array(z.object({
-          name: z.string(),
-          image: z.string(),
-          command: z.array(z.string()),
-        })),
-        restartPolicy: z.enum(['OnFailure', 'Never']),
-      }),
-    }),
-  }),
+  deployment.spec.template.spec.containers.forEach((container, i) => {
+    const { requests, limits } = container.resources ?? {};
+    if (!requests?.cpu || !requests?.memory || !limits?.cpu || !limits?.memory) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['spec', 'template', 'spec', 'containers', i, 'resources'],
+        message: 'GenAI containers need CPU and memory requests and limits',
+      });
+    }
+  });
 });
 
+export const AutoRemediationJobSchema = JobSchema.refine(
+  job => job.spec.template.spec.restartPolicy === 'OnFailure' || job.spec.template.spec.restartPolicy === 'Never',
+  { message: 'Remediation jobs must use restartPolicy OnFailure or Never', path: ['spec', 'template', 'spec', 'restartPolicy'] }
+);
+
 export type GenAIDeployment = z.infer<typeof GenAIDeploymentSchema>;
 export type AutoRemediationJob = z.infer<typeof AutoRemediationJobSchema>;
 
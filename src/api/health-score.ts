@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import type { Issue } from './issues';
+import type { ErrorAnalysis } from './kubernetes-error-analyzer';
+
+// Explainable cluster health: every point lost is attributed to a finding
+export const HealthDimensionSchema = z.enum(['workloads', 'nodes', 'networking', 'storage', 'security', 'cost']);
+export const NamespaceCriticalitySchema = z.enum(['critical', 'high', 'standard', 'low']);
+const SeveritySchema = z.enum(['critical', 'high', 'medium', 'low']);
+
+export const HealthDeductionSchema = z.object({
+  findingId: z.string(),
+  title: z.string(),
+  type: z.string(),
+  severity: SeveritySchema,
+  namespace: z.string().optional(),
+  dimension: HealthDimensionSchema,
+  criticality: NamespaceCriticalitySchema,
+  // Points taken off the dimension score
+  points: z.number(),
+  // Points taken off the overall score (points × dimension weight)
+  impact: z.number(),
+});
+
+export const DimensionScoreSchema = z.object({
+  dimension: HealthDimensionSchema,
+  weight: z.number(),
+  score: z.number(),
+  deductions: z.array(HealthDeductionSchema),
+});
+
+export const HealthReportSchema = z.object({
+  score: z.number(),
+  status: z.enum(['healthy', 'warning', 'critical']),
+  dimensions: z.array(DimensionScoreSchema),
+  deductions: z.array(HealthDeductionSchema),
+  recommendations: z.array(z.string()),
+});
+
+export type HealthDimension = z.infer<typeof HealthDimensionSchema>;
+export type NamespaceCriticality = z.infer<typeof NamespaceCriticalitySchema>;
+export type HealthDeduction = z.infer<typeof HealthDeductionSchema>;
+export type DimensionScore = z.infer<typeof DimensionScoreSchema>;
+export type HealthReport = z.infer<typeof HealthReportSchema>;
+
+// Anything that can cost health points: detector issues, analyzed log lines, ...
+export interface HealthFinding {
+  id: string;
+  type: string;
+  severity: z.infer<typeof SeveritySchema>;
+  title: string;
+  namespace?: string;
+  dimension?: HealthDimension;
+  // Scales the points, e.g. by how often a streamed error is occurring; defaults to 1
+  weight?: number;
+}
+
+export interface HealthScoreOptions {
+  // Explicit criticality per namespace; anything unlisted falls back to name heuristics
+  namespaceCriticality?: Record<string, NamespaceCriticality>;
+  dimensionWeights?: Partial<Record<HealthDimension, number>>;
+}
+
+export const DEFAULT_DIMENSION_WEIGHTS: Record<HealthDimension, number> = {
+  workloads: 0.3,
+  nodes: 0.25,
+  networking: 0.15,
+  storage: 0.1,
+  security: 0.1,
+  cost: 0.1,
+};
+
+const SEVERITY_POINTS: Record<HealthFinding['severity'], number> = {
+  critical: 30,
+  high: 15,
+  medium: 5,
+  low: 2,
+};
+
+const CRITICALITY_MULTIPLIERS: Record<NamespaceCriticality, number> = {
+  critical: 1.5,
+  high: 1.2,
+  standard: 1,
+  low: 0.5,
+};
+
+// Detector issue types and error analyzer types, by the part of the cluster they hurt
+const DIMENSION_BY_TYPE: Record<string, HealthDimension> = {
+  'crash-loop': 'workloads',
+  'image-pull': 'workloads',
+  'oom-killed': 'workloads',
+  'liveness-probe': 'workloads',
+  'readiness-probe': 'networking',
+  'replicas-unavailable': 'workloads',
+  'unschedulable': 'nodes',
+  'oom-killing': 'nodes',
+  api_server_connection_failure: 'nodes',
+  pod_crash_loop: 'workloads',
+  metrics_server_failure: 'workloads',
+  node_scheduling_failure: 'nodes',
+  ip_exhaustion: 'networking',
+  image_pull_error: 'workloads',
+  resource_quota_exceeded: 'cost',
+};
+
+const DIMENSION_RECOMMENDATIONS: Record<HealthDimension, string> = {
+  workloads: 'Review container resource requests, limits and health checks for failing workloads',
+  nodes: 'Check node capacity and conditions; consider cluster auto-scaling',
+  networking: 'Verify Service endpoints, readiness and CNI address capacity',
+  storage: 'Check PersistentVolumeClaim binding and volume capacity',
+  security: 'Tighten pod security contexts and RBAC for affected workloads',
+  cost: 'Right-size resource quotas and requests to match actual usage',
+};
+
+const SYSTEM_NAMESPACES = new Set(['kube-system', 'kube-public', 'kube-node-lease']);
+
+export function dimensionFor(type: string): HealthDimension {
+  if (DIMENSION_BY_TYPE[type]) {
+    return DIMENSION_BY_TYPE[type];
+  }
+  if (type.startsWith('node-')) {
+    return 'nodes';
+  }
+  if (/pvc|volume|storage|disk/.test(type)) {
+    return 'storage';
+  }
+  if (/security|privileged|rbac|secret/.test(type)) {
+    return 'security';
+  }
+  if (/quota|cost|idle|overprovision/.test(type)) {
+    return 'cost';
+  }
+  if (/network|dns|service|endpoint|ingress/.test(type)) {
+    return 'networking';
+  }
+  return 'workloads';
+}
+
+export function namespaceCriticality(namespace: string | undefined, overrides: Record<string, NamespaceCriticality> = {}): NamespaceCriticality {
+  if (namespace === undefined) {
+    return 'standard';
+  }
+  if (overrides[namespace]) {
+    return overrides[namespace];
+  }
+  // Cluster-scoped findings (empty namespace) affect every namespace at once
+  if (namespace === '' || SYSTEM_NAMESPACES.has(namespace)) {
+    return 'critical';
+  }
+  if (/prod/.test(namespace)) {
+    return 'high';
+  }
+  if (/dev|test|sandbox|preview/.test(namespace)) {
+    return 'low';
+  }
+  return 'standard';
+}
+
+export function findingFromIssue(issue: Issue): HealthFinding {
+  return {
+    id: issue.id,
+    type: issue.type,
+    severity: issue.severity,
+    title: issue.title,
+    namespace: issue.namespace,
+  };
+}
+
+// Log analyses carry no identity of their own; the index keeps repeated lines distinct
+export function findingFromAnalysis(analysis: ErrorAnalysis, index: number): HealthFinding {
+  return {
+    id: `${analysis.errorType}-${index}`,
+    type: analysis.errorType,
+    severity: analysis.severity,
+    title: analysis.rootCause,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function scoreClusterHealth(findings: HealthFinding[], options: HealthScoreOptions = {}): HealthReport {
+  const weights = { ...DEFAULT_DIMENSION_WEIGHTS, ...options.dimensionWeights };
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0) || 1;
+  const repeats = new Map<string, number>();
+  const byDimension = new Map<HealthDimension, HealthDeduction[]>(
+    HealthDimensionSchema.options.map(d => [d, []])
+  );
+
+  for (const finding of findings) {
+    const dimension = finding.dimension ?? dimensionFor(finding.type);
+    const criticality = namespaceCriticality(finding.namespace, options.namespaceCriticality);
+
+    // The same failure repeated across pods matters, but each repeat matters half as much
+    const repeatKey = `${finding.type}|${finding.namespace ?? ''}`;
+    const repeat = repeats.get(repeatKey) ?? 0;
+    repeats.set(repeatKey, repeat + 1);
+
+    const points = SEVERITY_POINTS[finding.severity] * CRITICALITY_MULTIPLIERS[criticality] * Math.pow(0.5, repeat) * (finding.weight ?? 1);
+    byDimension.get(dimension)!.push({
+      findingId: finding.id,
+      title: finding.title,
+      type: finding.type,
+      severity: finding.severity,
+      namespace: finding.namespace,
+      dimension,
+      criticality,
+      points,
+      impact: 0,
+    });
+  }
+
+  const dimensions: DimensionScore[] = [];
+  for (const [dimension, deductions] of byDimension) {
+    const weight = weights[dimension] / totalWeight;
+    const total = deductions.reduce((sum, d) => sum + d.points, 0);
+    // A dimension bottoms out at zero; scale deductions so they still add up to what was lost
+    const scale = total > 100 ? 100 / total : 1;
+
+    const scaled = deductions.map(d => ({
+      ...d,
+      points: round(d.points * scale),
+      impact: round(d.points * scale * weight),
+    }));
+
+    dimensions.push({
+      dimension,
+      weight: round(weight * 100) / 100,
+      score: round(100 - total * scale),
+      deductions: scaled,
+    });
+  }
+
+  const deductions = dimensions
+    .flatMap(d => d.deductions)
+    .sort((a, b) => b.impact - a.impact);
+  const score = Math.round(dimensions.reduce((sum, d) => sum + d.score * (weights[d.dimension] / totalWeight), 0));
+
+  return {
+    score,
+    status: healthStatus(score, dimensions),
+    dimensions,
+    deductions,
+    recommendations: recommend(dimensions, deductions),
+  };
+}
+
+// A badly broken dimension is never hidden by healthy ones averaging it out
+function healthStatus(score: number, dimensions: DimensionScore[]): HealthReport['status'] {
+  const worst = Math.min(...dimensions.map(d => d.score));
+  if (score < 60 || worst < 40) {
+    return 'critical';
+  }
+  if (score < 85 || worst < 70) {
+    return 'warning';
+  }
+  return 'healthy';
+}
+
+function recommend(dimensions: DimensionScore[], deductions: HealthDeduction[]): string[] {
+  const recommendations = dimensions
+    .filter(d => d.deductions.length > 0)
+    .sort((a, b) => a.score - b.score)
+    .map(d => `${DIMENSION_RECOMMENDATIONS[d.dimension]} (${d.dimension} ${d.score}/100)`);
+
+  // Point at the single most expensive findings so the fix order is obvious
+  for (const deduction of deductions.slice(0, 3)) {
+    const where = deduction.namespace ? ` in ${deduction.namespace}` : '';
+    recommendations.push(`Resolve "${deduction.title}"${where} to recover ${deduction.impact} points`);
+  }
+
+  return recommendations;
+}
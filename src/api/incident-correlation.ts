@@ -0,0 +1,239 @@
+import type { ErrorAnalysis } from './kubernetes-error-analyzer';
+
+// Groups analyses into incidents: one probable root cause and the symptoms it explains.
+// A link needs a causal rule, the cause arriving first (or close enough), and a shared
+// scope — the whole cluster, a node, a namespace or a pod.
+
+export type CorrelationScope = 'cluster' | 'node' | 'namespace' | 'pod';
+
+export interface CausalRule {
+  cause: string;
+  effects: string[];
+  scope: CorrelationScope;
+  // How long after the cause an effect still counts as explained by it
+  maxGapMs: number;
+  confidence: number;
+}
+
+export interface IncidentSymptom {
+  analysis: ErrorAnalysis;
+  causedBy: ErrorAnalysis;
+  confidence: number;
+  reason: string;
+}
+
+export interface Incident {
+  id: string;
+  rootCause: ErrorAnalysis;
+  symptoms: IncidentSymptom[];
+  severity: ErrorAnalysis['severity'];
+  // Weakest link between the root cause and any symptom; 1 for a lone analysis
+  confidence: number;
+  summary: string;
+}
+
+export interface CorrelationOptions {
+  // Replaces CAUSAL_RULES
+  rules?: CausalRule[];
+  // Clocks on different nodes disagree; an effect logged this much before its cause still links
+  clockSkewMs?: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export const CAUSAL_RULES: CausalRule[] = [
+  {
+    // Controllers, the scheduler and metrics-server all talk to the API server first
+    cause: 'api_server_connection_failure',
+    effects: ['metrics_server_failure', 'node_scheduling_failure', 'resource_quota_exceeded'],
+    scope: 'cluster',
+    maxGapMs: 5 * MINUTE,
+    confidence: 0.9,
+  },
+  {
+    // Pods without an IP never get a sandbox, so their controllers see them stuck
+    cause: 'ip_exhaustion',
+    effects: ['pod_crash_loop', 'node_scheduling_failure'],
+    scope: 'node',
+    maxGapMs: 10 * MINUTE,
+    confidence: 0.6,
+  },
+  {
+    // An application exception on startup is what a crash loop restarts over and over
+    cause: 'app_missing_configuration',
+    effects: ['pod_crash_loop'],
+    scope: 'pod',
+    maxGapMs: 15 * MINUTE,
+    confidence: 0.9,
+  },
+  {
+    cause: 'app_database_connection',
+    effects: ['pod_crash_loop'],
+    scope: 'pod',
+    maxGapMs: 15 * MINUTE,
+    confidence: 0.8,
+  },
+  {
+    cause: 'app_out_of_memory',
+    effects: ['pod_crash_loop'],
+    scope: 'pod',
+    maxGapMs: 15 * MINUTE,
+    confidence: 0.85,
+  },
+  {
+    cause: 'app_unhandled_exception',
+    effects: ['pod_crash_loop'],
+    scope: 'pod',
+    maxGapMs: 15 * MINUTE,
+    confidence: 0.6,
+  },
+];
+
+const SEVERITY_ORDER = { critical: 4, high: 3, medium: 2, low: 1 };
+
+function timeOf(analysis: ErrorAnalysis): number | undefined {
+  const time = Date.parse(analysis.entry?.timestamp ?? '');
+  return Number.isFinite(time) ? time : undefined;
+}
+
+// The record's fields, or what the rule captured from the line when the record had none
+function locate(analysis: ErrorAnalysis): { node?: string; namespace?: string; pod?: string } {
+  const { entry, variables } = analysis;
+  return {
+    node: entry?.node ?? variables?.node,
+    namespace: entry?.namespace ?? variables?.namespace,
+    pod: entry?.pod ?? variables?.pod,
+  };
+}
+
+function sharesScope(cause: ErrorAnalysis, effect: ErrorAnalysis, scope: CorrelationScope): boolean {
+  const a = locate(cause);
+  const b = locate(effect);
+  switch (scope) {
+    case 'cluster':
+      return true;
+    case 'node':
+      // Without node names, the same namespace is the closest thing we can check
+      return a.node && b.node ? a.node === b.node : !!a.namespace && a.namespace === b.namespace;
+    case 'namespace':
+      return !!a.namespace && a.namespace === b.namespace;
+    case 'pod':
+      return !!a.pod && a.pod === b.pod && (a.namespace ?? '') === (b.namespace ?? '');
+  }
+}
+
+// Confidence of cause explaining effect, or null if the rule does not apply to this pair
+function linkConfidence(cause: ErrorAnalysis, effect: ErrorAnalysis, rule: CausalRule, clockSkewMs: number): { confidence: number; reason: string } | null {
+  if (!sharesScope(cause, effect, rule.scope)) {
+    return null;
+  }
+
+  const causeTime = timeOf(cause);
+  const effectTime = timeOf(effect);
+  if (causeTime === undefined || effectTime === undefined) {
+    // Untimed lines can still be linked, just less surely
+    return { confidence: rule.confidence * 0.7, reason: `${rule.scope}-scoped rule, no timestamps to compare` };
+  }
+
+  const gap = effectTime - causeTime;
+  if (gap < -clockSkewMs || gap > rule.maxGapMs) {
+    return null;
+  }
+  // Closer in time is more convincing; at the edge of the window the rule counts half
+  const proximity = 1 - Math.max(0, gap) / rule.maxGapMs / 2;
+  const scope = rule.scope === 'cluster' ? 'cluster-wide' : `same ${rule.scope}`;
+  return {
+    confidence: Math.round(rule.confidence * proximity * 100) / 100,
+    reason: `${scope}, ${Math.round(Math.max(0, gap) / 1000)}s after the cause`,
+  };
+}
+
+export function correlateAnalyses(analyses: ErrorAnalysis[], options: CorrelationOptions = {}): Incident[] {
+  const rules = options.rules ?? CAUSAL_RULES;
+  const clockSkewMs = options.clockSkewMs ?? 5000;
+  // Each analysis keeps only its most convincing cause
+  const causes = new Map<number, { cause: number; confidence: number; reason: string }>();
+
+  analyses.forEach((effect, j) => {
+    analyses.forEach((cause, i) => {
+      if (i === j) {
+        return;
+      }
+      for (const rule of rules) {
+        if (rule.cause !== cause.errorType || !rule.effects.includes(effect.errorType)) {
+          continue;
+        }
+        const link = linkConfidence(cause, effect, rule, clockSkewMs);
+        const best = causes.get(j);
+        if (link && (!best || link.confidence > best.confidence)) {
+          causes.set(j, { cause: i, ...link });
+        }
+      }
+    });
+  });
+
+  // Follow causes up to the root; inside a cycle (A explains B explains A) the earliest analysis is the root
+  const rootOf = (index: number): { root: number; confidence: number } => {
+    const path = [index];
+    let confidence = 1;
+    for (let link = causes.get(index); link; link = causes.get(link.cause)) {
+      const loop = path.indexOf(link.cause);
+      if (loop >= 0) {
+        return { root: Math.min(...path.slice(loop)), confidence };
+      }
+      confidence = Math.min(confidence, link.confidence);
+      path.push(link.cause);
+    }
+    return { root: path[path.length - 1], confidence };
+  };
+
+  const incidents = new Map<number, Incident>();
+  analyses.forEach((analysis, index) => {
+    const { root, confidence } = rootOf(index);
+    if (!incidents.has(root)) {
+      incidents.set(root, {
+        id: `incident-${incidents.size + 1}`,
+        rootCause: analyses[root],
+        symptoms: [],
+        severity: analyses[root].severity,
+        confidence: 1,
+        summary: '',
+      });
+    }
+    const incident = incidents.get(root)!;
+    if (index === root) {
+      return;
+    }
+
+    const link = causes.get(index)!;
+    incident.symptoms.push({ analysis, causedBy: analyses[link.cause], confidence: link.confidence, reason: link.reason });
+    incident.confidence = Math.min(incident.confidence, confidence);
+    if (SEVERITY_ORDER[analysis.severity] > SEVERITY_ORDER[incident.severity]) {
+      incident.severity = analysis.severity;
+    }
+  });
+
+  for (const incident of incidents.values()) {
+    const symptomTypes = Array.from(new Set(incident.symptoms.map(s => s.analysis.errorType)));
+    incident.summary = symptomTypes.length > 0
+      ? `${incident.rootCause.rootCause}, explaining ${symptomTypes.map(t => t.replace(/_/g, ' ')).join(', ')}`
+      : incident.rootCause.rootCause;
+  }
+
+  return Array.from(incidents.values())
+    .sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity] || b.symptoms.length - a.symptoms.length);
+}
+
+// "Fix the root cause before its symptoms" as remediation plan dependencies
+export function incidentDependencies(incidents: Incident[]): Record<string, string[]> {
+  const dependencies: Record<string, string[]> = {};
+  for (const incident of incidents) {
+    for (const { analysis } of incident.symptoms) {
+      const prerequisites = dependencies[analysis.errorType] ?? [];
+      if (analysis.errorType !== incident.rootCause.errorType && !prerequisites.includes(incident.rootCause.errorType)) {
+        dependencies[analysis.errorType] = [...prerequisites, incident.rootCause.errorType];
+      }
+    }
+  }
+  return dependencies;
+}
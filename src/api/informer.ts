@@ -0,0 +1,425 @@
+import { KubernetesApiError } from './kubernetes-client';
+import type { KubernetesClient, WatchEvent } from './kubernetes-client';
+import type { ObjectMeta, ResourceKind, ResourceOfKind } from './kubernetes-resources';
+import type { DetectableResources } from './issue-detectors';
+
+interface CachedObject {
+  metadata: ObjectMeta;
+}
+
+export type ResourceChangeType = 'added' | 'updated' | 'deleted';
+
+export interface ResourceChange<K extends ResourceKind = ResourceKind> {
+  type: ResourceChangeType;
+  kind: K;
+  object: ResourceOfKind<K>;
+  previous?: ResourceOfKind<K>;
+}
+
+export interface InformerOptions {
+  // Watch a single namespace; all namespaces when omitted
+  namespace?: string;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Ask the server to end each watch after this long so connections get recycled
+  watchTimeoutSeconds?: number;
+  // Failed initial lists before giving up on syncing; auth and missing-API errors give up at once
+  maxInitialListAttempts?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  initialBackoffMs: 1000,
+  maxBackoffMs: 30000,
+  watchTimeoutSeconds: 300,
+  maxInitialListAttempts: 5,
+};
+
+// Retrying cannot fix missing credentials, missing RBAC or an API the server does not serve
+const NON_RETRYABLE_STATUSES = [401, 403, 404];
+
+export class InformerSyncError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ResourceKind,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'InformerSyncError';
+  }
+}
+
+function addToIndex(index: Map<string, Set<string>>, value: string, key: string): void {
+  let keys = index.get(value);
+  if (!keys) {
+    keys = new Set();
+    index.set(value, keys);
+  }
+  keys.add(key);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, value: string, key: string): void {
+  const keys = index.get(value);
+  if (keys) {
+    keys.delete(key);
+    if (keys.size === 0) {
+      index.delete(value);
+    }
+  }
+}
+
+// In-memory store of one resource kind, indexed by namespace, label and owner
+export class ResourceCache<T extends CachedObject> {
+  private items: Map<string, T> = new Map();
+  private namespaceIndex: Map<string, Set<string>> = new Map();
+  private labelIndex: Map<string, Set<string>> = new Map();
+  private ownerIndex: Map<string, Set<string>> = new Map();
+
+  static keyOf(object: CachedObject): string {
+    const { namespace, name } = object.metadata;
+    return namespace ? `${namespace}/${name}` : name;
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  get(key: string): T | undefined {
+    return this.items.get(key);
+  }
+
+  list(): T[] {
+    return Array.from(this.items.values());
+  }
+
+  byNamespace(namespace: string): T[] {
+    return this.lookup(this.namespaceIndex, namespace);
+  }
+
+  byLabel(key: string, value: string): T[] {
+    return this.lookup(this.labelIndex, `${key}=${value}`);
+  }
+
+  byOwner(ownerUid: string): T[] {
+    return this.lookup(this.ownerIndex, ownerUid);
+  }
+
+  // Returns the object it replaced, if any
+  upsert(object: T): T | undefined {
+    const key = ResourceCache.keyOf(object);
+    const previous = this.items.get(key);
+    if (previous) {
+      this.unindex(key, previous);
+    }
+
+    this.items.set(key, object);
+    this.index(key, object);
+    return previous;
+  }
+
+  remove(object: CachedObject): T | undefined {
+    const key = ResourceCache.keyOf(object);
+    const previous = this.items.get(key);
+    if (previous) {
+      this.unindex(key, previous);
+      this.items.delete(key);
+    }
+    return previous;
+  }
+
+  // Swap in a fresh list and report what changed relative to the old contents
+  replace(objects: T[]): Array<{ type: ResourceChangeType; object: T; previous?: T }> {
+    const changes: Array<{ type: ResourceChangeType; object: T; previous?: T }> = [];
+    const seen = new Set<string>();
+
+    for (const object of objects) {
+      const key = ResourceCache.keyOf(object);
+      seen.add(key);
+      const previous = this.upsert(object);
+      if (!previous) {
+        changes.push({ type: 'added', object });
+      } else if (previous.metadata.resourceVersion !== object.metadata.resourceVersion) {
+        changes.push({ type: 'updated', object, previous });
+      }
+    }
+
+    for (const [key, object] of Array.from(this.items.entries())) {
+      if (!seen.has(key)) {
+        this.remove(object);
+        changes.push({ type: 'deleted', object });
+      }
+    }
+
+    return changes;
+  }
+
+  private lookup(index: Map<string, Set<string>>, value: string): T[] {
+    return Array.from(index.get(value) ?? [])
+      .map(key => this.items.get(key))
+      .filter((item): item is T => item !== undefined);
+  }
+
+  private index(key: string, object: T): void {
+    const { namespace, labels, ownerReferences } = object.metadata;
+    if (namespace) {
+      addToIndex(this.namespaceIndex, namespace, key);
+    }
+    Object.entries(labels ?? {}).forEach(([k, v]) => addToIndex(this.labelIndex, `${k}=${v}`, key));
+    (ownerReferences ?? []).forEach(owner => addToIndex(this.ownerIndex, owner.uid, key));
+  }
+
+  private unindex(key: string, object: T): void {
+    const { namespace, labels, ownerReferences } = object.metadata;
+    if (namespace) {
+      removeFromIndex(this.namespaceIndex, namespace, key);
+    }
+    Object.entries(labels ?? {}).forEach(([k, v]) => removeFromIndex(this.labelIndex, `${k}=${v}`, key));
+    (ownerReferences ?? []).forEach(owner => removeFromIndex(this.ownerIndex, owner.uid, key));
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// List-then-watch loop for one resource kind, mirroring client-go's reflector
+export class Informer<K extends ResourceKind> {
+  readonly cache: ResourceCache<ResourceOfKind<K>> = new ResourceCache();
+  private listeners: Array<(change: ResourceChange<K>) => void> = [];
+  private syncWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private options: InformerOptions & typeof DEFAULT_OPTIONS;
+  private resourceVersion?: string;
+  private abortController: AbortController | null = null;
+  private synced = false;
+  private syncError: InformerSyncError | null = null;
+
+  constructor(
+    private readonly client: KubernetesClient,
+    readonly kind: K,
+    options: InformerOptions = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  subscribe(listener: (change: ResourceChange<K>) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  hasSynced(): boolean {
+    return this.synced;
+  }
+
+  get isRunning(): boolean {
+    return this.abortController !== null;
+  }
+
+  // Starts the loop in the background; resolves once the first list has landed in the cache
+  start(): Promise<void> {
+    if (!this.abortController) {
+      this.syncError = null;
+      this.abortController = new AbortController();
+      void this.run(this.abortController.signal);
+    }
+    return this.waitForSync();
+  }
+
+  stop(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.syncWaiters.forEach(waiter => waiter.reject(new Error(`Informer for ${this.kind} stopped before syncing`)));
+    this.syncWaiters = [];
+  }
+
+  waitForSync(): Promise<void> {
+    if (this.synced) {
+      return Promise.resolve();
+    }
+    if (this.syncError) {
+      return Promise.reject(this.syncError);
+    }
+    return new Promise((resolve, reject) => this.syncWaiters.push({ resolve, reject }));
+  }
+
+  private async run(signal: AbortSignal): Promise<void> {
+    let backoff = this.options.initialBackoffMs;
+    let failedLists = 0;
+    const waitToRetry = async () => {
+      await sleep(backoff + Math.random() * backoff * 0.2, signal);
+      backoff = Math.min(backoff * 2, this.options.maxBackoffMs);
+    };
+
+    while (!signal.aborted) {
+      try {
+        if (!this.resourceVersion) {
+          await this.relist();
+        }
+
+        let received = false;
+        for await (const event of this.client.watch(this.kind, {
+          namespace: this.options.namespace,
+          resourceVersion: this.resourceVersion,
+          timeoutSeconds: this.options.watchTimeoutSeconds,
+          signal,
+        })) {
+          this.apply(event);
+          received = true;
+          backoff = this.options.initialBackoffMs;
+        }
+        // The server ended the watch normally; resume from the last seen version.
+        // Even a quiet watch gets bookmarks, so one that ended with no events was cut short: don't spin on it.
+        if (!received) {
+          await waitToRetry();
+        }
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+
+        if (error instanceof KubernetesApiError && error.status === 410) {
+          // Our resourceVersion was compacted away; only a fresh list can recover
+          this.resourceVersion = undefined;
+          // Back off anyway, or a version that keeps expiring turns into back-to-back full lists
+          await waitToRetry();
+          continue;
+        }
+
+        // Nothing has been cached yet, so the failure came from the initial list
+        if (!this.synced) {
+          failedLists++;
+          const status = error instanceof KubernetesApiError ? error.status : undefined;
+          if ((status && NON_RETRYABLE_STATUSES.includes(status)) || failedLists >= this.options.maxInitialListAttempts) {
+            const reason = error instanceof Error ? error.message : String(error);
+            this.failSync(new InformerSyncError(
+              `Informer for ${this.kind} could not list ${this.kind} after ${failedLists} attempt(s): ${reason}`,
+              this.kind,
+              status,
+            ));
+            break;
+          }
+        }
+
+        console.warn(`Informer for ${this.kind} lost its connection, retrying in ${backoff}ms`, error);
+        await waitToRetry();
+      }
+    }
+  }
+
+  // Stops the loop and fails current and future sync waiters until the next start()
+  private failSync(error: InformerSyncError): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.syncError = error;
+    this.syncWaiters.forEach(waiter => waiter.reject(error));
+    this.syncWaiters = [];
+  }
+
+  private async relist(): Promise<void> {
+    const { items, resourceVersion } = await this.client.listWithVersion(this.kind, this.options.namespace);
+    this.resourceVersion = resourceVersion;
+
+    for (const change of this.cache.replace(items)) {
+      this.emit({ ...change, kind: this.kind });
+    }
+
+    if (!this.synced) {
+      this.synced = true;
+      this.syncWaiters.forEach(waiter => waiter.resolve());
+      this.syncWaiters = [];
+    }
+  }
+
+  private apply(event: WatchEvent<K>): void {
+    if (event.type === 'BOOKMARK') {
+      this.resourceVersion = event.resourceVersion;
+      return;
+    }
+
+    this.resourceVersion = event.object.metadata.resourceVersion ?? this.resourceVersion;
+
+    if (event.type === 'DELETED') {
+      const previous = this.cache.remove(event.object);
+      this.emit({ type: 'deleted', kind: this.kind, object: previous ?? event.object });
+      return;
+    }
+
+    const previous = this.cache.upsert(event.object);
+    this.emit({ type: previous ? 'updated' : 'added', kind: this.kind, object: event.object, previous });
+  }
+
+  private emit(change: ResourceChange<K>): void {
+    this.listeners.forEach(listener => listener(change));
+  }
+}
+
+// One informer per kind, sharing a client, with a combined change feed
+export class InformerSet {
+  private informers: Map<ResourceKind, Informer<ResourceKind>> = new Map();
+  private listeners: Array<(change: ResourceChange) => void> = [];
+
+  constructor(client: KubernetesClient, kinds: ResourceKind[], options: InformerOptions = {}) {
+    for (const kind of kinds) {
+      const informer = new Informer(client, kind, options);
+      informer.subscribe(change => this.listeners.forEach(listener => listener(change)));
+      this.informers.set(kind, informer);
+    }
+  }
+
+  get kinds(): ResourceKind[] {
+    return Array.from(this.informers.keys());
+  }
+
+  subscribe(listener: (change: ResourceChange) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Rejects with the first kind that fails to sync, leaving none of them running
+  async start(): Promise<void> {
+    try {
+      await Promise.all(Array.from(this.informers.values()).map(informer => informer.start()));
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  stop(): void {
+    this.informers.forEach(informer => informer.stop());
+  }
+
+  hasSynced(): boolean {
+    return Array.from(this.informers.values()).every(informer => informer.hasSynced());
+  }
+
+  cache<K extends ResourceKind>(kind: K): ResourceCache<ResourceOfKind<K>> | undefined {
+    return (this.informers.get(kind) as Informer<K> | undefined)?.cache;
+  }
+
+  // Current cache contents in the shape detectors expect; cluster-scoped kinds are never filtered
+  snapshot(namespace?: string): Partial<DetectableResources> {
+    const snapshot: Partial<Record<ResourceKind, unknown[]>> = {};
+
+    for (const [kind, informer] of this.informers) {
+      const objects = informer.cache.list();
+      snapshot[kind] = namespace
+        ? objects.filter(o => !o.metadata.namespace || o.metadata.namespace === namespace)
+        : objects;
+    }
+
+    return snapshot as Partial<DetectableResources>;
+  }
+}
@@ -0,0 +1,525 @@
+import type { Issue } from './issues';
+import type {
+  ResourceKind,
+  ResourceOfKind,
+  Pod,
+  Event,
+  ContainerStatus,
+} from './kubernetes-resources';
+
+// Resource kinds a detector can ask for, and the typed objects it receives for each
+export type DetectableResources = { [K in ResourceKind]: ResourceOfKind<K>[] };
+
+export type DetectableKind = ResourceKind;
+
+export interface IssueDetector<K extends DetectableKind = DetectableKind> {
+  id: string;
+  description: string;
+  kinds: readonly K[];
+  detect(resources: Pick<DetectableResources, K>): Issue[];
+}
+
+// Holds the detectors KubernetesAI runs; teams add their own through register()
+export class DetectorRegistry {
+  private detectors: Map<string, IssueDetector> = new Map();
+
+  register<K extends DetectableKind>(detector: IssueDetector<K>): void {
+    if (this.detectors.has(detector.id)) {
+      throw new Error(`Detector already registered: ${detector.id}`);
+    }
+    this.detectors.set(detector.id, detector);
+  }
+
+  unregister(id: string): boolean {
+    return this.detectors.delete(id);
+  }
+
+  get(id: string): IssueDetector | undefined {
+    return this.detectors.get(id);
+  }
+
+  list(): IssueDetector[] {
+    return Array.from(this.detectors.values());
+  }
+
+  // Union of kinds needed by the registered detectors, so callers list nothing more
+  requiredKinds(): DetectableKind[] {
+    const kinds = new Set<DetectableKind>();
+    for (const detector of this.detectors.values()) {
+      detector.kinds.forEach(kind => kinds.add(kind));
+    }
+    return Array.from(kinds);
+  }
+
+  // Detectors that inspect any of the given kinds, i.e. the ones a change to them can affect
+  detectorsFor(kinds: DetectableKind[]): IssueDetector[] {
+    return this.list().filter(detector => detector.kinds.some(kind => kinds.includes(kind)));
+  }
+
+  runDetector(detector: IssueDetector, resources: Partial<DetectableResources>): Issue[] {
+    const input = {} as DetectableResources;
+    for (const kind of detector.kinds) {
+      (input as unknown as Record<DetectableKind, unknown[]>)[kind] = resources[kind] ?? [];
+    }
+
+    try {
+      return detector.detect(input);
+    } catch (error) {
+      // A broken custom detector must not take the built-in ones down with it
+      console.error(`Detector ${detector.id} failed`, error);
+      return [];
+    }
+  }
+
+  run(resources: Partial<DetectableResources>): Issue[] {
+    return mergeIssues(this.list().map(detector => this.runDetector(detector, resources)));
+  }
+}
+
+// Pod status and its events often describe the same failure; keep the first report of each id
+export function mergeIssues(issueLists: Issue[][]): Issue[] {
+  const issues = new Map<string, Issue>();
+  for (const issue of issueLists.flat()) {
+    if (!issues.has(issue.id)) {
+      issues.set(issue.id, issue);
+    }
+  }
+  return Array.from(issues.values());
+}
+
+export function issueId(kind: string, namespace: string, name: string, reason: string): string {
+  return [kind, namespace, name, reason].filter(Boolean).join('/').toLowerCase();
+}
+
+// The controller that owns a pod (usually a ReplicaSet, StatefulSet, DaemonSet or Job)
+export function controllerOf(pod: Pod): { kind: string; name: string } | undefined {
+  const owner = pod.metadata.ownerReferences?.find(ref => ref.controller) ?? pod.metadata.ownerReferences?.[0];
+  return owner ? { kind: owner.kind, name: owner.name } : undefined;
+}
+
+function podOwner(pods: Pod[], namespace: string, name: string): { kind: string; name: string } | undefined {
+  const pod = pods.find(p => p.metadata.namespace === namespace && p.metadata.name === name);
+  return pod ? controllerOf(pod) : undefined;
+}
+
+function findContainerStatuses(pod: Pod, match: (status: ContainerStatus) => boolean): ContainerStatus[] {
+  return (pod.status.containerStatuses ?? []).filter(match);
+}
+
+function warningEvents(events: Event[], reasons: string[], involvedKind = 'Pod'): Event[] {
+  return events.filter(e =>
+    e.type === 'Warning' && reasons.includes(e.reason) && e.involvedObject.kind === involvedKind
+  );
+}
+
+function doubleQuantity(quantity: string | undefined, fallback: string): string {
+  const match = quantity?.match(/^(\d+)(Ki|Mi|Gi)$/);
+  return match ? `${Number(match[1]) * 2}${match[2]}` : fallback;
+}
+
+export const crashLoopBackOffDetector: IssueDetector<'Pod' | 'Event'> = {
+  id: 'crash-loop-backoff',
+  description: 'Containers restarting repeatedly and held in CrashLoopBackOff',
+  kinds: ['Pod', 'Event'],
+  detect({ Pod: pods, Event: events }) {
+    const issues: Issue[] = [];
+
+    for (const pod of pods) {
+      const { name, namespace } = pod.metadata;
+      for (const status of findContainerStatuses(pod, s => s.state?.waiting?.reason === 'CrashLoopBackOff')) {
+        const exit = status.lastState?.terminated;
+        issues.push({
+          id: issueId('Pod', namespace, name, 'crash-loop'),
+          type: 'crash-loop',
+          severity: 'high',
+          title: 'Pod CrashLoopBackOff detected',
+          description: `Container ${status.name} in pod ${name} restarted ${status.restartCount} times` +
+            (exit ? `, last exit code ${exit.exitCode}${exit.reason ? ` (${exit.reason})` : ''}` : ''),
+          namespace,
+          resource: { kind: 'Pod', name },
+          owner: controllerOf(pod),
+          suggestedFix: {
+            action: 'check_logs',
+            command: `kubectl logs ${name} -n ${namespace} -c ${status.name} --previous`,
+          },
+          aiAnalysis: 'A container keeps exiting and the kubelet is backing off restarts. The previous container logs show why it exits.',
+        });
+      }
+    }
+
+    for (const event of warningEvents(events, ['BackOff'])) {
+      if (/pull/i.test(event.message)) {
+        continue;
+      }
+      const { name, namespace = '' } = event.involvedObject;
+      issues.push({
+        id: issueId('Pod', namespace, name, 'crash-loop'),
+        type: 'crash-loop',
+        severity: 'high',
+        title: 'Pod CrashLoopBackOff detected',
+        description: `${name}: ${event.message}`,
+        namespace,
+        resource: { kind: 'Pod', name },
+        owner: podOwner(pods, namespace, name),
+        suggestedFix: {
+          action: 'check_logs',
+          command: `kubectl logs ${name} -n ${namespace} --previous`,
+        },
+        aiAnalysis: 'A container keeps exiting and the kubelet is backing off restarts. The previous container logs show why it exits.',
+      });
+    }
+
+    return issues;
+  },
+};
+
+const IMAGE_PULL_REASONS = ['ErrImagePull', 'ImagePullBackOff', 'InvalidImageName', 'ErrImageNeverPull'];
+
+export const imagePullBackOffDetector: IssueDetector<'Pod' | 'Event'> = {
+  id: 'image-pull-backoff',
+  description: 'Images that cannot be pulled (ErrImagePull, ImagePullBackOff)',
+  kinds: ['Pod', 'Event'],
+  detect({ Pod: pods, Event: events }) {
+    const issues: Issue[] = [];
+    const aiAnalysis = 'The kubelet cannot pull the container image. The tag may not exist, the registry may be unreachable or an imagePullSecret may be missing.';
+
+    for (const pod of pods) {
+      const { name, namespace } = pod.metadata;
+      const failing = findContainerStatuses(pod, s => IMAGE_PULL_REASONS.includes(s.state?.waiting?.reason ?? ''));
+      for (const status of failing) {
+        const image = pod.spec.containers.find(c => c.name === status.name)?.image ?? 'unknown';
+        issues.push({
+          id: issueId('Pod', namespace, name, 'image-pull'),
+          type: 'image-pull',
+          severity: 'medium',
+          title: 'Image pull failing',
+          description: `Container ${status.name} in pod ${name} cannot pull ${image}: ${status.state?.waiting?.message || status.state?.waiting?.reason}`,
+          namespace,
+          resource: { kind: 'Pod', name },
+          owner: controllerOf(pod),
+          suggestedFix: {
+            action: 'verify_image_tag',
+            command: `kubectl describe pod ${name} -n ${namespace}`,
+          },
+          aiAnalysis,
+        });
+      }
+    }
+
+    for (const event of warningEvents(events, ['Failed', 'BackOff'])) {
+      if (!/ErrImagePull|ImagePullBackOff|pull/i.test(event.message)) {
+        continue;
+      }
+      const { name, namespace = '' } = event.involvedObject;
+      issues.push({
+        id: issueId('Pod', namespace, name, 'image-pull'),
+        type: 'image-pull',
+        severity: 'medium',
+        title: 'Image pull failing',
+        description: `${name}: ${event.message}`,
+        namespace,
+        resource: { kind: 'Pod', name },
+        owner: podOwner(pods, namespace, name),
+        suggestedFix: {
+          action: 'verify_image_tag',
+          command: `kubectl describe pod ${name} -n ${namespace}`,
+        },
+        aiAnalysis,
+      });
+    }
+
+    return issues;
+  },
+};
+
+export const oomKilledDetector: IssueDetector<'Pod' | 'Event'> = {
+  id: 'oom-killed',
+  description: 'Containers terminated for exceeding their memory limit',
+  kinds: ['Pod', 'Event'],
+  detect({ Pod: pods, Event: events }) {
+    const issues: Issue[] = [];
+    const aiAnalysis = 'The kernel killed a container for exceeding its memory limit. Raise the limit or reduce the working set of the application.';
+
+    for (const pod of pods) {
+      const { name, namespace } = pod.metadata;
+      const killed = findContainerStatuses(pod, s =>
+        s.state?.terminated?.reason === 'OOMKilled' || s.lastState?.terminated?.reason === 'OOMKilled'
+      );
+
+      for (const status of killed) {
+        const container = pod.spec.containers.find(c => c.name === status.name);
+        const memoryLimit = container?.resources?.limits?.memory;
+        const memoryRequest = container?.resources?.requests?.memory;
+        issues.push({
+          id: issueId('Pod', namespace, name, 'oom-killed'),
+          type: 'oom-killed',
+          severity: 'high',
+          title: 'Container OOMKilled',
+          description: `Container ${status.name} in pod ${name} was OOMKilled` +
+            (memoryLimit ? ` at its ${memoryLimit} memory limit` : ''),
+          namespace,
+          resource: { kind: 'Pod', name },
+          owner: controllerOf(pod),
+          suggestedFix: {
+            action: 'increase_resources',
+            yaml: `spec:
+  containers:
+  - name: ${status.name}
+    resources:
+      requests:
+        memory: "${memoryRequest ?? doubleQuantity(memoryLimit, '256Mi')}"
+      limits:
+        memory: "${doubleQuantity(memoryLimit, '512Mi')}"`,
+          },
+          aiAnalysis,
+        });
+      }
+    }
+
+    for (const event of warningEvents(events, ['OOMKilling'], 'Node')) {
+      // The node-level event names the victim process, not the pod; report it against the node
+      const { name } = event.involvedObject;
+      issues.push({
+        id: issueId('Node', '', name, 'oom-killing'),
+        type: 'oom-killing',
+        severity: 'medium',
+        title: 'OOM kills on node',
+        description: `${name}: ${event.message}`,
+        namespace: '',
+        resource: { kind: 'Node', name },
+        suggestedFix: {
+          action: 'check_node_resources',
+          command: `kubectl describe node ${name}`,
+        },
+        aiAnalysis,
+      });
+    }
+
+    return issues;
+  },
+};
+
+export const pendingUnschedulableDetector: IssueDetector<'Pod' | 'Event'> = {
+  id: 'pending-unschedulable',
+  description: 'Pods stuck in Pending because no node fits them',
+  kinds: ['Pod', 'Event'],
+  detect({ Pod: pods, Event: events }) {
+    const issues: Issue[] = [];
+    const aiAnalysis = 'The scheduler found no node that satisfies the pod requests, node selectors or tolerations. Free capacity, add nodes or relax the constraints.';
+
+    for (const pod of pods) {
+      const { name, namespace } = pod.metadata;
+      const unschedulable = pod.status.conditions?.find(
+        c => c.type === 'PodScheduled' && c.status === 'False'
+      );
+      if (pod.status.phase !== 'Pending' || !unschedulable) {
+        continue;
+      }
+
+      issues.push({
+        id: issueId('Pod', namespace, name, 'unschedulable'),
+        type: 'unschedulable',
+        severity: 'high',
+        title: 'Pod cannot be scheduled',
+        description: `Pod ${name} is Pending: ${unschedulable.message || unschedulable.reason || 'no node fits the pod'}`,
+        namespace,
+        resource: { kind: 'Pod', name },
+        owner: controllerOf(pod),
+        suggestedFix: {
+          action: 'check_node_resources',
+          command: 'kubectl describe nodes',
+        },
+        aiAnalysis,
+      });
+    }
+
+    for (const event of warningEvents(events, ['FailedScheduling'])) {
+      const { name, namespace = '' } = event.involvedObject;
+      issues.push({
+        id: issueId('Pod', namespace, name, 'unschedulable'),
+        type: 'unschedulable',
+        severity: 'high',
+        title: 'Pod cannot be scheduled',
+        description: `${name}: ${event.message}`,
+        namespace,
+        resource: { kind: 'Pod', name },
+        owner: podOwner(pods, namespace, name),
+        suggestedFix: {
+          action: 'check_node_resources',
+          command: 'kubectl describe nodes',
+        },
+        aiAnalysis,
+      });
+    }
+
+    return issues;
+  },
+};
+
+export const failingProbeDetector: IssueDetector<'Pod' | 'Event'> = {
+  id: 'failing-probes',
+  description: 'Liveness and readiness probes that keep failing',
+  kinds: ['Pod', 'Event'],
+  detect({ Pod: pods, Event: events }) {
+    const issues: Issue[] = [];
+    const aiAnalysis = 'A health probe is failing. Check that the probe path and port match the application and that initialDelaySeconds covers its startup time.';
+
+    // Events carry the probe output, so prefer them over the bare ready flag
+    for (const event of warningEvents(events, ['Unhealthy'])) {
+      const { name, namespace = '' } = event.involvedObject;
+      const probe = /liveness/i.test(event.message) ? 'liveness' : 'readiness';
+      issues.push({
+        id: issueId('Pod', namespace, name, `${probe}-probe`),
+        type: `${probe}-probe`,
+        severity: probe === 'liveness' ? 'high' : 'medium',
+        title: `${probe === 'liveness' ? 'Liveness' : 'Readiness'} probe failing`,
+        description: `${name}: ${event.message}`,
+        namespace,
+        resource: { kind: 'Pod', name },
+        owner: podOwner(pods, namespace, name),
+        suggestedFix: {
+          action: 'modify_config',
+          command: `kubectl describe pod ${name} -n ${namespace}`,
+        },
+        aiAnalysis,
+      });
+    }
+
+    for (const pod of pods) {
+      const { name, namespace } = pod.metadata;
+      if (pod.status.phase !== 'Running') {
+        continue;
+      }
+
+      const notReady = findContainerStatuses(pod, s => !s.ready && !!s.state?.running);
+      for (const status of notReady) {
+        const container = pod.spec.containers.find(c => c.name === status.name);
+        if (!container?.readinessProbe) {
+          continue;
+        }
+        issues.push({
+          id: issueId('Pod', namespace, name, 'readiness-probe'),
+          type: 'readiness-probe',
+          severity: 'medium',
+          title: 'Readiness probe failing',
+          description: `Container ${status.name} in pod ${name} is running but not ready`,
+          namespace,
+          resource: { kind: 'Pod', name },
+          owner: controllerOf(pod),
+          suggestedFix: {
+            action: 'modify_config',
+            command: `kubectl describe pod ${name} -n ${namespace}`,
+          },
+          aiAnalysis,
+        });
+      }
+    }
+
+    return issues;
+  },
+};
+
+export const deploymentAvailabilityDetector: IssueDetector<'Deployment'> = {
+  id: 'deployment-availability',
+  description: 'Deployments with fewer available replicas than desired',
+  kinds: ['Deployment'],
+  detect({ Deployment: deployments }) {
+    const issues: Issue[] = [];
+
+    for (const deployment of deployments) {
+      const { name, namespace } = deployment.metadata;
+      const desired = deployment.spec.replicas ?? 1;
+      const available = deployment.status?.availableReplicas ?? 0;
+
+      if (desired > 0 && available < desired) {
+        issues.push({
+          id: issueId('Deployment', namespace, name, 'replicas-unavailable'),
+          type: 'replicas-unavailable',
+          severity: available === 0 ? 'critical' : 'medium',
+          title: 'Deployment replicas unavailable',
+          description: `Deployment ${name} has ${available}/${desired} replicas available`,
+          namespace,
+          resource: { kind: 'Deployment', name },
+          suggestedFix: {
+            action: 'check_rollout',
+            command: `kubectl rollout status deployment/${name} -n ${namespace}`,
+          },
+          aiAnalysis: available === 0
+            ? 'No replica of this deployment is serving traffic. Inspect the pod issues listed for the same namespace.'
+            : 'The deployment is running degraded. Some replicas are not ready or are still rolling out.',
+        });
+      }
+    }
+
+    return issues;
+  },
+};
+
+export const nodeConditionDetector: IssueDetector<'Node'> = {
+  id: 'node-conditions',
+  description: 'Nodes that are NotReady or under memory, disk or PID pressure',
+  kinds: ['Node'],
+  detect({ Node: nodes }) {
+    const issues: Issue[] = [];
+
+    for (const node of nodes) {
+      const { name } = node.metadata;
+      const conditions = node.status?.conditions ?? [];
+      const ready = conditions.find(c => c.type === 'Ready');
+
+      if (ready && ready.status !== 'True') {
+        issues.push({
+          id: issueId('Node', '', name, 'node-not-ready'),
+          type: 'node-not-ready',
+          severity: 'critical',
+          title: 'Node NotReady',
+          description: `Node ${name} is not ready: ${ready.message || ready.reason || 'kubelet stopped reporting'}`,
+          namespace: '',
+          resource: { kind: 'Node', name },
+          suggestedFix: {
+            action: 'restart_kubelet',
+            command: 'systemctl restart kubelet',
+          },
+          aiAnalysis: 'The node stopped reporting a healthy status. Pods on it will be evicted once the toleration period expires.',
+        });
+      }
+
+      for (const pressure of conditions.filter(c => c.type.endsWith('Pressure') && c.status === 'True')) {
+        // MemoryPressure → node-memory-pressure
+        const type = `node-${pressure.type.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()}`;
+        issues.push({
+          id: issueId('Node', '', name, type),
+          type,
+          severity: 'medium',
+          title: `Node ${pressure.type}`,
+          description: `Node ${name} reports ${pressure.type}: ${pressure.message || pressure.reason || ''}`.trim(),
+          namespace: '',
+          resource: { kind: 'Node', name },
+          suggestedFix: {
+            action: 'check_node_resources',
+            command: `kubectl describe node ${name}`,
+          },
+          aiAnalysis: 'The kubelet is under resource pressure and may start evicting pods from this node.',
+        });
+      }
+    }
+
+    return issues;
+  },
+};
+
+export const builtinDetectors: IssueDetector[] = [
+  crashLoopBackOffDetector,
+  imagePullBackOffDetector,
+  oomKilledDetector,
+  pendingUnschedulableDetector,
+  failingProbeDetector,
+  deploymentAvailabilityDetector,
+  nodeConditionDetector,
+];
+
+export function createDefaultDetectorRegistry(): DetectorRegistry {
+  const registry = new DetectorRegistry();
+  builtinDetectors.forEach(detector => registry.register(detector));
+  return registry;
+}
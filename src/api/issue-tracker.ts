@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { IssueSchema, Issue } from './issues';
+
+// Issue lifecycle tracking: stable fingerprints, deduplication and status history
+export const IssueStatusSchema = z.enum(['open', 'acknowledged', 'remediating', 'resolved', 'reopened']);
+
+export const IssueTransitionSchema = z.object({
+  from: IssueStatusSchema.nullable(),
+  to: IssueStatusSchema,
+  at: z.string(),
+  note: z.string().optional(),
+});
+
+export const TrackedIssueSchema = IssueSchema.extend({
+  fingerprint: z.string(),
+  status: IssueStatusSchema,
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+  occurrences: z.number().int().min(1),
+  history: z.array(IssueTransitionSchema),
+});
+
+export type IssueStatus = z.infer<typeof IssueStatusSchema>;
+export type IssueTransition = z.infer<typeof IssueTransitionSchema>;
+export type TrackedIssue = z.infer<typeof TrackedIssueSchema>;
+
+// Which manual transitions are legal from each state; reopening is driven by detection
+const ALLOWED_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  open: ['acknowledged', 'remediating', 'resolved'],
+  acknowledged: ['remediating', 'resolved'],
+  remediating: ['resolved', 'acknowledged'],
+  resolved: ['reopened'],
+  reopened: ['acknowledged', 'remediating', 'resolved'],
+};
+
+// FNV-1a; stable across runs and environments, which is all a fingerprint needs
+function hash(input: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+// Same failure on the same workload → same fingerprint, whichever pod instance reported it
+export function fingerprintIssue(issue: Issue): string {
+  const target = issue.owner ?? issue.resource;
+  return `fp-${hash([target.kind, issue.namespace, target.name, issue.type].join('|'))}`;
+}
+
+const MAX_INSTANCE_IDS = 200;
+
+interface TrackerEntry {
+  issue: TrackedIssue;
+  // Detection ids (one per pod or object instance) already counted as occurrences
+  instanceIds: Set<string>;
+}
+
+export class IssueTracker {
+  private static instance: IssueTracker;
+  private entries: Map<string, TrackerEntry> = new Map();
+  private listeners: Array<(issues: TrackedIssue[]) => void> = [];
+
+  private constructor() {}
+
+  static getInstance(): IssueTracker {
+    if (!IssueTracker.instance) {
+      IssueTracker.instance = new IssueTracker();
+    }
+    return IssueTracker.instance;
+  }
+
+  // Merge one detection pass. With resolveMissing, tracked issues inside the pass's scope that
+  // were not reported again are resolved; scope is a namespace, cluster-scoped issues always count.
+  ingest(
+    issues: Issue[],
+    options: { now?: Date; scope?: string; resolveMissing?: boolean } = {}
+  ): TrackedIssue[] {
+    const now = (options.now ?? new Date()).toISOString();
+    const seen = new Set<string>();
+
+    for (const issue of issues) {
+      const fingerprint = fingerprintIssue(issue);
+      seen.add(fingerprint);
+      const entry = this.entries.get(fingerprint);
+
+      if (!entry) {
+        this.entries.set(fingerprint, {
+          issue: {
+            ...issue,
+            fingerprint,
+            status: 'open',
+            firstSeen: now,
+            lastSeen: now,
+            occurrences: 1,
+            history: [{ from: null, to: 'open', at: now }],
+          },
+          instanceIds: new Set([issue.id]),
+        });
+        continue;
+      }
+
+      const previous = entry.issue;
+      const newInstance = !entry.instanceIds.has(issue.id);
+      entry.instanceIds.add(issue.id);
+      if (entry.instanceIds.size > MAX_INSTANCE_IDS) {
+        // Sets iterate in insertion order, so this forgets the oldest instance
+        entry.instanceIds.delete(entry.instanceIds.values().next().value as string);
+      }
+
+      entry.issue = {
+        ...previous,
+        ...issue,
+        fingerprint,
+        status: previous.status,
+        firstSeen: previous.firstSeen,
+        lastSeen: now,
+        occurrences: previous.occurrences + (newInstance || previous.status === 'resolved' ? 1 : 0),
+        history: previous.history,
+      };
+
+      if (previous.status === 'resolved') {
+        this.record(entry, 'reopened', now, 'Detected again after resolution');
+      }
+    }
+
+    if (options.resolveMissing) {
+      for (const entry of this.entries.values()) {
+        const { issue } = entry;
+        const inScope = options.scope === undefined || issue.namespace === options.scope || issue.namespace === '';
+        if (inScope && !seen.has(issue.fingerprint) && issue.status !== 'resolved') {
+          this.record(entry, 'resolved', now, 'No longer detected');
+        }
+      }
+    }
+
+    this.notify();
+    return Array.from(seen).map(fp => this.entries.get(fp)!.issue);
+  }
+
+  transition(fingerprint: string, to: IssueStatus, note?: string): TrackedIssue {
+    const entry = this.entries.get(fingerprint);
+    if (!entry) {
+      throw new Error(`Issue not found: ${fingerprint}`);
+    }
+
+    const from = entry.issue.status;
+    if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+      throw new Error(`Invalid issue transition: ${from} → ${to}`);
+    }
+
+    this.record(entry, to, new Date().toISOString(), note);
+    this.notify();
+    return entry.issue;
+  }
+
+  get(fingerprint: string): TrackedIssue | undefined {
+    return this.entries.get(fingerprint)?.issue;
+  }
+
+  list(filter: { status?: IssueStatus | IssueStatus[]; namespace?: string } = {}): TrackedIssue[] {
+    const statuses = filter.status === undefined
+      ? undefined
+      : Array.isArray(filter.status) ? filter.status : [filter.status];
+
+    return Array.from(this.entries.values())
+      .map(entry => entry.issue)
+      .filter(issue => !statuses || statuses.includes(issue.status))
+      .filter(issue => filter.namespace === undefined || issue.namespace === filter.namespace)
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+
+  history(fingerprint: string): IssueTransition[] {
+    return [...(this.entries.get(fingerprint)?.issue.history ?? [])];
+  }
+
+  allowedTransitions(fingerprint: string): IssueStatus[] {
+    const issue = this.get(fingerprint);
+    return issue ? [...ALLOWED_TRANSITIONS[issue.status]] : [];
+  }
+
+  subscribe(listener: (issues: TrackedIssue[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.notify();
+  }
+
+  private record(entry: TrackerEntry, to: IssueStatus, at: string, note?: string): void {
+    const transition: IssueTransition = { from: entry.issue.status, to, at, note };
+    entry.issue = {
+      ...entry.issue,
+      status: to,
+      history: [...entry.issue.history, transition],
+    };
+  }
+
+  private notify(): void {
+    const issues = this.list();
+    this.listeners.forEach(listener => listener(issues));
+  }
+}
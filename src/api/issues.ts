@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+// Issue and fix records produced by detection and remediation
+export const IssueSchema = z.object({
+  id: z.string(),
+  // Detector-level classification, e.g. crash-loop or image-pull
+  type: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  title: z.string(),
+  description: z.string(),
+  namespace: z.string(),
+  resource: z.object({
+    kind: z.string(),
+    name: z.string(),
+  }),
+  // Controller of the resource, when known; pods come and go but their owner persists
+  owner: z.object({
+    kind: z.string(),
+    name: z.string(),
+  }).optional(),
+  // Helm release that manages the owner; direct patches get reverted by the next upgrade
+  helmRelease: z.string().optional(),
+  suggestedFix: z.object({
+    action: z.string(),
+    yaml: z.string().optional(),
+    command: z.string().optional(),
+  }).optional(),
+  aiAnalysis: z.string(),
+});
+
+export const FixSchema = z.object({
+  id: z.string(),
+  action: z.string(),
+  description: z.string(),
+  applied: z.boolean(),
+  result: z.string().optional(),
+});
+
+export type Issue = z.infer<typeof IssueSchema>;
+export type Fix = z.infer<typeof FixSchema>;
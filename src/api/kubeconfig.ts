@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { parse } from 'yaml';
+
+// Kubeconfig schema (the subset of clientcmd/v1 that AutoKube understands)
+export const KubeConfigSchema = z.object({
+  'current-context': z.string().optional(),
+  clusters: z.array(z.object({
+    name: z.string(),
+    cluster: z.object({
+      server: z.string(),
+      'certificate-authority-data': z.string().optional(),
+      'certificate-authority': z.string().optional(),
+      'insecure-skip-tls-verify': z.boolean().optional(),
+    }),
+  })).default([]),
+  users: z.array(z.object({
+    name: z.string(),
+    user: z.object({
+      token: z.string().optional(),
+      tokenFile: z.string().optional(),
+      'client-certificate-data': z.string().optional(),
+      'client-key-data': z.string().optional(),
+      'client-certificate': z.string().optional(),
+      'client-key': z.string().optional(),
+      username: z.string().optional(),
+      password: z.string().optional(),
+    }).default({}),
+  })).default([]),
+  contexts: z.array(z.object({
+    name: z.string(),
+    context: z.object({
+      cluster: z.string(),
+      user: z.string().optional(),
+      namespace: z.string().optional(),
+    }),
+  })).default([]),
+});
+
+export const ClusterAuthSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('token'), token: z.string() }),
+  z.object({
+    type: z.literal('client-certificate'),
+    certificateData: z.string(),
+    keyData: z.string(),
+  }),
+  z.object({ type: z.literal('basic'), username: z.string(), password: z.string() }),
+  z.object({ type: z.literal('none') }),
+]);
+
+export const ClusterConnectionSchema = z.object({
+  contextName: z.string(),
+  clusterName: z.string(),
+  server: z.string(),
+  namespace: z.string(),
+  auth: ClusterAuthSchema,
+  certificateAuthorityData: z.string().optional(),
+  insecureSkipTlsVerify: z.boolean(),
+});
+
+export type KubeConfig = z.infer<typeof KubeConfigSchema>;
+export type ClusterAuth = z.infer<typeof ClusterAuthSchema>;
+export type ClusterConnection = z.infer<typeof ClusterConnectionSchema>;
+
+export function parseKubeConfig(text: string): KubeConfig {
+  return KubeConfigSchema.parse(parse(text) ?? {});
+}
+
+// Resolve a context (current-context by default) into everything needed to talk to its API server
+export function resolveConnection(config: KubeConfig, contextName?: string): ClusterConnection {
+  const name = contextName ?? config['current-context'];
+  if (!name) {
+    throw new Error('Kubeconfig has no current-context and no context was requested');
+  }
+
+  const context = config.contexts.find(c => c.name === name);
+  if (!context) {
+    throw new Error(`Context not found in kubeconfig: ${name}`);
+  }
+
+  const cluster = config.clusters.find(c => c.name === context.context.cluster);
+  if (!cluster) {
+    throw new Error(`Cluster not found in kubeconfig: ${context.context.cluster}`);
+  }
+
+  if (cluster.cluster['certificate-authority'] && !cluster.cluster['certificate-authority-data']) {
+    throw new Error(`Cluster ${cluster.name} references a CA file; embed it with "kubectl config view --flatten"`);
+  }
+
+  const user = context.context.user
+    ? config.users.find(u => u.name === context.context.user)
+    : undefined;
+  if (context.context.user && !user) {
+    throw new Error(`User not found in kubeconfig: ${context.context.user}`);
+  }
+
+  return {
+    contextName: context.name,
+    clusterName: cluster.name,
+    server: cluster.cluster.server.replace(/\/+$/, ''),
+    namespace: context.context.namespace || 'default',
+    auth: resolveAuth(user?.name, user?.user),
+    certificateAuthorityData: cluster.cluster['certificate-authority-data'],
+    insecureSkipTlsVerify: cluster.cluster['insecure-skip-tls-verify'] ?? false,
+  };
+}
+
+export function loadKubeConfig(text: string, contextName?: string): ClusterConnection {
+  return resolveConnection(parseKubeConfig(text), contextName);
+}
+
+function resolveAuth(userName: string | undefined, user: KubeConfig['users'][number]['user'] | undefined): ClusterAuth {
+  if (!user) {
+    return { type: 'none' };
+  }
+
+  if (user.token) {
+    return { type: 'token', token: user.token };
+  }
+
+  if (user['client-certificate-data'] && user['client-key-data']) {
+    return {
+      type: 'client-certificate',
+      certificateData: user['client-certificate-data'],
+      keyData: user['client-key-data'],
+    };
+  }
+
+  // File references cannot be resolved here; kubectl can inline them for us
+  if (user.tokenFile || user['client-certificate'] || user['client-key']) {
+    throw new Error(`User ${userName} references credential files; embed them with "kubectl config view --flatten --raw"`);
+  }
+
+  if (user.username && user.password) {
+    return { type: 'basic', username: user.username, password: user.password };
+  }
+
+  return { type: 'none' };
+}
@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { ClusterConnection, loadKubeConfig } from './kubeconfig';
+import {
+  ResourceSchemas,
+  ResourceEndpoints,
+  ResourceKind,
+  ResourceOfKind,
+  Pod,
+  Event,
+  Deployment,
+  Node,
+} from './kubernetes-resources';
+
+// Shape shared by every list response from the API server
+const ListResponseSchema = z.object({
+  metadata: z.object({
+    resourceVersion: z.string().optional(),
+    // Set while more pages remain
+    continue: z.string().optional(),
+  }).optional(),
+  items: z.array(z.unknown()).default([]),
+});
+
+const WatchEventSchema = z.object({
+  type: z.enum(['ADDED', 'MODIFIED', 'DELETED', 'BOOKMARK', 'ERROR']),
+  object: z.unknown(),
+});
+
+const StatusSchema = z.object({
+  code: z.number().optional(),
+  reason: z.string().optional(),
+  message: z.string().optional(),
+});
+
+const BookmarkSchema = z.object({
+  metadata: z.object({ resourceVersion: z.string() }),
+});
+
+export type WatchEvent<K extends ResourceKind> =
+  | { type: 'ADDED' | 'MODIFIED' | 'DELETED'; object: ResourceOfKind<K> }
+  | { type: 'BOOKMARK'; resourceVersion: string };
+
+export interface KubernetesClientOptions {
+  // Browsers cannot present client certificates themselves, so callers that need
+  // client-cert auth (or a custom CA) pass a fetch bound to a suitable agent
+  fetch?: typeof fetch;
+  // Overrides the server from the kubeconfig, e.g. a kubectl proxy or a fixture server
+  baseUrl?: string;
+  // Objects per list request; larger lists are fetched in pages
+  pageSize?: number;
+}
+
+export class KubernetesApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly reason?: string,
+  ) {
+    super(message);
+    this.name = 'KubernetesApiError';
+  }
+}
+
+// Thin read-only client for the core resources AutoKube diagnoses
+export class KubernetesClient {
+  private readonly fetchImpl: typeof fetch;
+  private readonly baseUrl: string;
+  private readonly pageSize: number;
+
+  constructor(
+    public readonly connection: ClusterConnection,
+    options: KubernetesClientOptions = {},
+  ) {
+    // The certificate has to be presented at the TLS layer, which only a caller-supplied fetch can do
+    if (connection.auth.type === 'client-certificate' && !options.fetch) {
+      throw new Error(
+        `Context ${connection.contextName} uses client-certificate auth; pass a fetch bound to an agent ` +
+        'presenting the certificate, or go through a kubectl proxy with baseUrl'
+      );
+    }
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.baseUrl = (options.baseUrl ?? connection.server).replace(/\/+$/, '');
+    this.pageSize = options.pageSize ?? 500;
+  }
+
+  static fromKubeConfig(
+    kubeconfig: string,
+    contextName?: string,
+    options?: KubernetesClientOptions,
+  ): KubernetesClient {
+    return new KubernetesClient(loadKubeConfig(kubeconfig, contextName), options);
+  }
+
+  get defaultNamespace(): string {
+    return this.connection.namespace;
+  }
+
+  // Passing no namespace lists across all namespaces; cluster-scoped kinds ignore it
+  async list<K extends ResourceKind>(kind: K, namespace?: string): Promise<ResourceOfKind<K>[]> {
+    return (await this.listWithVersion(kind, namespace)).items;
+  }
+
+  // A single object by name; cluster-scoped kinds ignore the namespace
+  async read<K extends ResourceKind>(kind: K, name: string, namespace?: string): Promise<ResourceOfKind<K>> {
+    const path = `${resourcePath(kind, namespace)}/${encodeURIComponent(name)}`;
+    const parsed = this.parseObject(kind, await this.get(path));
+    if (!parsed.success) {
+      throw new Error(`Invalid ${kind} from ${path}: ${parsed.error.issues.map(issue => issue.message).join('; ')}`);
+    }
+    return parsed.data;
+  }
+
+  // Also returns the list resourceVersion, which is where a watch has to start from
+  async listWithVersion<K extends ResourceKind>(
+    kind: K,
+    namespace?: string,
+  ): Promise<{ items: ResourceOfKind<K>[]; resourceVersion?: string }> {
+    const path = resourcePath(kind, namespace);
+    const items: ResourceOfKind<K>[] = [];
+    let continueToken: string | undefined;
+    let resourceVersion: string | undefined;
+
+    // Every page belongs to the snapshot of the first; an expired token surfaces as a 410
+    do {
+      const params = new URLSearchParams({ limit: String(this.pageSize) });
+      if (continueToken) {
+        params.set('continue', continueToken);
+      }
+      const body = ListResponseSchema.parse(await this.get(`${path}?${params}`));
+
+      for (const raw of body.items) {
+        const parsed = this.parseObject(kind, raw);
+        if (parsed.success) {
+          items.push(parsed.data);
+        } else {
+          // One malformed object should not hide every other problem in the namespace
+          console.warn(`Skipping invalid ${kind} from ${path}`, parsed.error.issues);
+        }
+      }
+
+      continueToken = body.metadata?.continue || undefined;
+      resourceVersion = body.metadata?.resourceVersion;
+    } while (continueToken);
+
+    return { items, resourceVersion };
+  }
+
+  // Streams watch events until the server closes the connection or the signal aborts.
+  // An expired resourceVersion surfaces as a KubernetesApiError with status 410.
+  async *watch<K extends ResourceKind>(
+    kind: K,
+    options: { namespace?: string; resourceVersion?: string; signal?: AbortSignal; timeoutSeconds?: number } = {},
+  ): AsyncGenerator<WatchEvent<K>> {
+    const params = new URLSearchParams({ watch: '1', allowWatchBookmarks: 'true' });
+    if (options.resourceVersion) {
+      params.set('resourceVersion', options.resourceVersion);
+    }
+    if (options.timeoutSeconds) {
+      params.set('timeoutSeconds', String(options.timeoutSeconds));
+    }
+
+    const path = `${resourcePath(kind, options.namespace)}?${params}`;
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      headers: this.buildHeaders(),
+      signal: options.signal,
+    });
+    await this.assertOk(response);
+
+    if (!response.body) {
+      throw new KubernetesApiError(`Watch on ${kind} returned no body`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (line) {
+            const event = this.parseWatchEvent(kind, line);
+            if (event) {
+              yield event;
+            }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  listPods(namespace?: string): Promise<Pod[]> {
+    return this.list('Pod', namespace);
+  }
+
+  listEvents(namespace?: string): Promise<Event[]> {
+    return this.list('Event', namespace);
+  }
+
+  listDeployments(namespace?: string): Promise<Deployment[]> {
+    return this.list('Deployment', namespace);
+  }
+
+  listNodes(): Promise<Node[]> {
+    return this.list('Node');
+  }
+
+  private parseObject<K extends ResourceKind>(kind: K, raw: unknown) {
+    const schema: z.ZodType<ResourceOfKind<K>, z.ZodTypeDef, unknown> = ResourceSchemas[kind];
+    return schema.safeParse(raw);
+  }
+
+  private parseWatchEvent<K extends ResourceKind>(kind: K, line: string): WatchEvent<K> | null {
+    const event = WatchEventSchema.parse(JSON.parse(line));
+
+    if (event.type === 'ERROR') {
+      const status = StatusSchema.parse(event.object);
+      throw new KubernetesApiError(status.message || `Watch on ${kind} failed`, status.code ?? 500, status.reason);
+    }
+
+    if (event.type === 'BOOKMARK') {
+      const bookmark = BookmarkSchema.parse(event.object);
+      return { type: 'BOOKMARK', resourceVersion: bookmark.metadata.resourceVersion };
+    }
+
+    const parsed = this.parseObject(kind, event.object);
+    if (!parsed.success) {
+      console.warn(`Skipping invalid ${kind} in watch stream`, parsed.error.issues);
+      return null;
+    }
+
+    return { type: event.type, object: parsed.data };
+  }
+
+  private async get(path: string): Promise<unknown> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      headers: this.buildHeaders(),
+    });
+    await this.assertOk(response);
+    return response.json();
+  }
+
+  private async assertOk(response: Response): Promise<void> {
+    if (!response.ok) {
+      const status = await response.json().catch(() => ({}));
+      throw new KubernetesApiError(
+        status.message || `Kubernetes API error: ${response.status}`,
+        response.status,
+        status.reason,
+      );
+    }
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    const { auth } = this.connection;
+
+    if (auth.type === 'token') {
+      headers.Authorization = `Bearer ${auth.token}`;
+    } else if (auth.type === 'basic') {
+      headers.Authorization = `Basic ${btoa(`${auth.username}:${auth.password}`)}`;
+    }
+
+    return headers;
+  }
+}
+
+export function resourcePath(kind: ResourceKind, namespace?: string): string {
+  const { prefix, plural, namespaced } = ResourceEndpoints[kind];
+  return namespaced && namespace
+    ? `${prefix}/namespaces/${encodeURIComponent(namespace)}/${plural}`
+    : `${prefix}/${plural}`;
+}
@@ -0,0 +1,704 @@
+import { z } from 'zod';
+
+// Typed Kubernetes resource model shared by the client, detectors and every engine.
+// Fields follow the upstream API; anything AutoKube does not reason about is left out
+// (zod strips it) or kept as an opaque record.
+
+const StringMap = z.record(z.string());
+
+// Quantities arrive as strings ("500m", "2Gi") but the API also accepts bare numbers
+const QuantityMap = z.record(z.union([z.string(), z.number()]).transform(String));
+
+// Common building blocks
+export const OwnerReferenceSchema = z.object({
+  apiVersion: z.string(),
+  kind: z.string(),
+  name: z.string(),
+  uid: z.string(),
+  controller: z.boolean().optional(),
+  blockOwnerDeletion: z.boolean().optional(),
+});
+
+export const ObjectMetaSchema = z.object({
+  name: z.string(),
+  namespace: z.string().optional(),
+  uid: z.string().optional(),
+  resourceVersion: z.string().optional(),
+  generation: z.number().optional(),
+  creationTimestamp: z.string().nullish(),
+  deletionTimestamp: z.string().nullish(),
+  labels: StringMap.optional(),
+  annotations: StringMap.optional(),
+  ownerReferences: z.array(OwnerReferenceSchema).optional(),
+});
+
+export const NamespacedObjectMetaSchema = ObjectMetaSchema.extend({
+  namespace: z.string(),
+});
+
+export const ObjectReferenceSchema = z.object({
+  kind: z.string(),
+  name: z.string(),
+  namespace: z.string().optional(),
+  uid: z.string().optional(),
+  apiVersion: z.string().optional(),
+  fieldPath: z.string().optional(),
+});
+
+export const LabelSelectorSchema = z.object({
+  matchLabels: StringMap.optional(),
+  matchExpressions: z.array(z.object({
+    key: z.string(),
+    operator: z.string(),
+    values: z.array(z.string()).optional(),
+  })).optional(),
+});
+
+export const ConditionSchema = z.object({
+  type: z.string(),
+  status: z.string(),
+  reason: z.string().optional(),
+  message: z.string().optional(),
+  lastTransitionTime: z.string().nullish(),
+  lastProbeTime: z.string().nullish(),
+  lastHeartbeatTime: z.string().nullish(),
+});
+
+// Containers
+export const ResourceRequirementsSchema = z.object({
+  requests: QuantityMap.optional(),
+  limits: QuantityMap.optional(),
+});
+
+const PortOrName = z.union([z.number(), z.string()]);
+
+export const ProbeSchema = z.object({
+  httpGet: z.object({
+    path: z.string().optional(),
+    port: PortOrName,
+    scheme: z.string().optional(),
+    host: z.string().optional(),
+  }).optional(),
+  tcpSocket: z.object({ port: PortOrName, host: z.string().optional() }).optional(),
+  exec: z.object({ command: z.array(z.string()).optional() }).optional(),
+  grpc: z.object({ port: z.number(), service: z.string().optional() }).optional(),
+  initialDelaySeconds: z.number().optional(),
+  periodSeconds: z.number().optional(),
+  timeoutSeconds: z.number().optional(),
+  successThreshold: z.number().optional(),
+  failureThreshold: z.number().optional(),
+});
+
+export const SecurityContextSchema = z.object({
+  privileged: z.boolean().optional(),
+  runAsNonRoot: z.boolean().optional(),
+  runAsUser: z.number().optional(),
+  runAsGroup: z.number().optional(),
+  readOnlyRootFilesystem: z.boolean().optional(),
+  allowPrivilegeEscalation: z.boolean().optional(),
+  capabilities: z.object({
+    add: z.array(z.string()).optional(),
+    drop: z.array(z.string()).optional(),
+  }).optional(),
+});
+
+export const ContainerSchema = z.object({
+  name: z.string(),
+  image: z.string(),
+  imagePullPolicy: z.string().optional(),
+  command: z.array(z.string()).optional(),
+  args: z.array(z.string()).optional(),
+  ports: z.array(z.object({
+    name: z.string().optional(),
+    containerPort: z.number(),
+    protocol: z.string().optional(),
+  })).optional(),
+  env: z.array(z.object({
+    name: z.string(),
+    value: z.string().optional(),
+    valueFrom: z.record(z.unknown()).optional(),
+  })).optional(),
+  envFrom: z.array(z.record(z.unknown())).optional(),
+  resources: ResourceRequirementsSchema.optional(),
+  livenessProbe: ProbeSchema.optional(),
+  readinessProbe: ProbeSchema.optional(),
+  startupProbe: ProbeSchema.optional(),
+  volumeMounts: z.array(z.object({
+    name: z.string(),
+    mountPath: z.string(),
+    readOnly: z.boolean().optional(),
+    subPath: z.string().optional(),
+  })).optional(),
+  securityContext: SecurityContextSchema.optional(),
+});
+
+export const VolumeSchema = z.object({
+  name: z.string(),
+  persistentVolumeClaim: z.object({
+    claimName: z.string(),
+    readOnly: z.boolean().optional(),
+  }).optional(),
+  configMap: z.object({ name: z.string().optional(), optional: z.boolean().optional() }).optional(),
+  secret: z.object({ secretName: z.string().optional(), optional: z.boolean().optional() }).optional(),
+  emptyDir: z.record(z.unknown()).optional(),
+  hostPath: z.object({ path: z.string(), type: z.string().optional() }).optional(),
+  projected: z.record(z.unknown()).optional(),
+});
+
+export const PodSpecSchema = z.object({
+  containers: z.array(ContainerSchema),
+  initContainers: z.array(ContainerSchema).optional(),
+  volumes: z.array(VolumeSchema).optional(),
+  nodeName: z.string().optional(),
+  nodeSelector: StringMap.optional(),
+  serviceAccountName: z.string().optional(),
+  restartPolicy: z.string().optional(),
+  priorityClassName: z.string().optional(),
+  hostNetwork: z.boolean().optional(),
+  hostPID: z.boolean().optional(),
+  hostIPC: z.boolean().optional(),
+  securityContext: SecurityContextSchema.extend({
+    fsGroup: z.number().optional(),
+  }).optional(),
+  tolerations: z.array(z.object({
+    key: z.string().optional(),
+    operator: z.string().optional(),
+    value: z.string().optional(),
+    effect: z.string().optional(),
+    tolerationSeconds: z.number().optional(),
+  })).optional(),
+  affinity: z.record(z.unknown()).optional(),
+  imagePullSecrets: z.array(z.object({ name: z.string() })).optional(),
+});
+
+export const PodTemplateSpecSchema = z.object({
+  metadata: ObjectMetaSchema.partial({ name: true }).optional(),
+  spec: PodSpecSchema,
+});
+
+export const ContainerStateSchema = z.object({
+  waiting: z.object({
+    reason: z.string().optional(),
+    message: z.string().optional(),
+  }).optional(),
+  running: z.object({
+    startedAt: z.string().nullish(),
+  }).optional(),
+  terminated: z.object({
+    exitCode: z.number(),
+    signal: z.number().optional(),
+    reason: z.string().optional(),
+    message: z.string().optional(),
+    startedAt: z.string().nullish(),
+    finishedAt: z.string().nullish(),
+  }).optional(),
+});
+
+export const ContainerStatusSchema = z.object({
+  name: z.string(),
+  ready: z.boolean(),
+  started: z.boolean().optional(),
+  restartCount: z.number(),
+  image: z.string().optional(),
+  imageID: z.string().optional(),
+  containerID: z.string().optional(),
+  state: ContainerStateSchema.optional(),
+  lastState: ContainerStateSchema.optional(),
+});
+
+// Workloads
+export const PodSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: PodSpecSchema,
+  status: z.object({
+    phase: z.string().default('Unknown'),
+    reason: z.string().optional(),
+    message: z.string().optional(),
+    hostIP: z.string().optional(),
+    podIP: z.string().optional(),
+    startTime: z.string().nullish(),
+    qosClass: z.string().optional(),
+    conditions: z.array(ConditionSchema).optional(),
+    containerStatuses: z.array(ContainerStatusSchema).optional(),
+    initContainerStatuses: z.array(ContainerStatusSchema).optional(),
+  }).default({}),
+});
+
+export const DeploymentSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    replicas: z.number().optional(),
+    selector: LabelSelectorSchema,
+    template: PodTemplateSpecSchema,
+    strategy: z.object({
+      type: z.string().optional(),
+      rollingUpdate: z.object({
+        maxUnavailable: PortOrName.optional(),
+        maxSurge: PortOrName.optional(),
+      }).optional(),
+    }).optional(),
+    paused: z.boolean().optional(),
+  }),
+  status: z.object({
+    observedGeneration: z.number().optional(),
+    replicas: z.number().optional(),
+    updatedReplicas: z.number().optional(),
+    readyReplicas: z.number().optional(),
+    availableReplicas: z.number().optional(),
+    unavailableReplicas: z.number().optional(),
+    conditions: z.array(ConditionSchema).optional(),
+  }).optional(),
+});
+
+export const ReplicaSetSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    replicas: z.number().optional(),
+    selector: LabelSelectorSchema,
+    template: PodTemplateSpecSchema.optional(),
+  }),
+  status: z.object({
+    replicas: z.number().optional(),
+    readyReplicas: z.number().optional(),
+    availableReplicas: z.number().optional(),
+    conditions: z.array(ConditionSchema).optional(),
+  }).optional(),
+});
+
+export const StatefulSetSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    replicas: z.number().optional(),
+    serviceName: z.string().optional(),
+    selector: LabelSelectorSchema,
+    template: PodTemplateSpecSchema,
+    volumeClaimTemplates: z.array(z.object({
+      metadata: ObjectMetaSchema,
+      spec: z.record(z.unknown()),
+    })).optional(),
+    podManagementPolicy: z.string().optional(),
+  }),
+  status: z.object({
+    replicas: z.number().optional(),
+    readyReplicas: z.number().optional(),
+    currentReplicas: z.number().optional(),
+    updatedReplicas: z.number().optional(),
+    availableReplicas: z.number().optional(),
+    conditions: z.array(ConditionSchema).optional(),
+  }).optional(),
+});
+
+export const DaemonSetSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    selector: LabelSelectorSchema,
+    template: PodTemplateSpecSchema,
+  }),
+  status: z.object({
+    desiredNumberScheduled: z.number(),
+    currentNumberScheduled: z.number(),
+    numberReady: z.number(),
+    numberAvailable: z.number().optional(),
+    numberUnavailable: z.number().optional(),
+    numberMisscheduled: z.number(),
+    updatedNumberScheduled: z.number().optional(),
+  }).optional(),
+});
+
+export const JobSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    parallelism: z.number().optional(),
+    completions: z.number().optional(),
+    backoffLimit: z.number().optional(),
+    activeDeadlineSeconds: z.number().optional(),
+    selector: LabelSelectorSchema.optional(),
+    template: PodTemplateSpecSchema,
+  }),
+  status: z.object({
+    active: z.number().optional(),
+    succeeded: z.number().optional(),
+    failed: z.number().optional(),
+    startTime: z.string().nullish(),
+    completionTime: z.string().nullish(),
+    conditions: z.array(ConditionSchema).optional(),
+  }).optional(),
+});
+
+export const CronJobSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    schedule: z.string(),
+    suspend: z.boolean().optional(),
+    concurrencyPolicy: z.string().optional(),
+    jobTemplate: z.object({
+      metadata: ObjectMetaSchema.partial({ name: true }).optional(),
+      spec: JobSchema.shape.spec,
+    }),
+  }),
+  status: z.object({
+    active: z.array(ObjectReferenceSchema).optional(),
+    lastScheduleTime: z.string().nullish(),
+    lastSuccessfulTime: z.string().nullish(),
+  }).optional(),
+});
+
+// Cluster infrastructure
+export const NodeSchema = z.object({
+  metadata: ObjectMetaSchema,
+  spec: z.object({
+    podCIDR: z.string().optional(),
+    providerID: z.string().optional(),
+    unschedulable: z.boolean().optional(),
+    taints: z.array(z.object({
+      key: z.string(),
+      value: z.string().optional(),
+      effect: z.string(),
+    })).optional(),
+  }).optional(),
+  status: z.object({
+    capacity: QuantityMap.optional(),
+    allocatable: QuantityMap.optional(),
+    conditions: z.array(ConditionSchema).optional(),
+    addresses: z.array(z.object({ type: z.string(), address: z.string() })).optional(),
+    nodeInfo: z.object({
+      kubeletVersion: z.string().optional(),
+      containerRuntimeVersion: z.string().optional(),
+      osImage: z.string().optional(),
+      kernelVersion: z.string().optional(),
+      architecture: z.string().optional(),
+    }).optional(),
+  }).optional(),
+});
+
+export const NamespaceSchema = z.object({
+  metadata: ObjectMetaSchema,
+  status: z.object({ phase: z.string().optional() }).optional(),
+});
+
+export const EventSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  involvedObject: ObjectReferenceSchema,
+  reason: z.string(),
+  message: z.string(),
+  type: z.string(),
+  count: z.number().optional(),
+  source: z.object({
+    component: z.string().optional(),
+    host: z.string().optional(),
+  }).optional(),
+  // Events written through events.k8s.io leave the legacy timestamps null
+  firstTimestamp: z.string().nullish(),
+  lastTimestamp: z.string().nullish(),
+  eventTime: z.string().nullish(),
+});
+
+// Storage
+export const PersistentVolumeClaimSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    accessModes: z.array(z.string()).optional(),
+    storageClassName: z.string().nullish(),
+    volumeName: z.string().optional(),
+    volumeMode: z.string().optional(),
+    resources: ResourceRequirementsSchema.optional(),
+  }),
+  status: z.object({
+    phase: z.string().optional(),
+    capacity: QuantityMap.optional(),
+    conditions: z.array(ConditionSchema).optional(),
+  }).optional(),
+});
+
+export const PersistentVolumeSchema = z.object({
+  metadata: ObjectMetaSchema,
+  spec: z.object({
+    capacity: QuantityMap.optional(),
+    accessModes: z.array(z.string()).optional(),
+    persistentVolumeReclaimPolicy: z.string().optional(),
+    storageClassName: z.string().optional(),
+    claimRef: ObjectReferenceSchema.optional(),
+    nodeAffinity: z.record(z.unknown()).optional(),
+  }),
+  status: z.object({
+    phase: z.string().optional(),
+    reason: z.string().optional(),
+    message: z.string().optional(),
+  }).optional(),
+});
+
+// Networking
+export const ServiceSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    type: z.string().optional(),
+    selector: StringMap.optional(),
+    clusterIP: z.string().optional(),
+    externalName: z.string().optional(),
+    ports: z.array(z.object({
+      name: z.string().optional(),
+      protocol: z.string().optional(),
+      port: z.number(),
+      targetPort: PortOrName.optional(),
+      nodePort: z.number().optional(),
+    })).optional(),
+  }),
+  status: z.object({
+    loadBalancer: z.object({
+      ingress: z.array(z.object({
+        ip: z.string().optional(),
+        hostname: z.string().optional(),
+      })).optional(),
+    }).optional(),
+  }).optional(),
+});
+
+const EndpointAddressSchema = z.object({
+  ip: z.string(),
+  hostname: z.string().optional(),
+  nodeName: z.string().optional(),
+  targetRef: ObjectReferenceSchema.optional(),
+});
+
+export const EndpointsSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  subsets: z.array(z.object({
+    addresses: z.array(EndpointAddressSchema).optional(),
+    notReadyAddresses: z.array(EndpointAddressSchema).optional(),
+    ports: z.array(z.object({
+      name: z.string().optional(),
+      port: z.number(),
+      protocol: z.string().optional(),
+    })).optional(),
+  })).optional(),
+});
+
+const IngressBackendSchema = z.object({
+  service: z.object({
+    name: z.string(),
+    port: z.object({
+      number: z.number().optional(),
+      name: z.string().optional(),
+    }).optional(),
+  }).optional(),
+  resource: ObjectReferenceSchema.optional(),
+});
+
+export const IngressSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    ingressClassName: z.string().optional(),
+    defaultBackend: IngressBackendSchema.optional(),
+    tls: z.array(z.object({
+      hosts: z.array(z.string()).optional(),
+      secretName: z.string().optional(),
+    })).optional(),
+    rules: z.array(z.object({
+      host: z.string().optional(),
+      http: z.object({
+        paths: z.array(z.object({
+          path: z.string().optional(),
+          pathType: z.string().optional(),
+          backend: IngressBackendSchema,
+        })),
+      }).optional(),
+    })).optional(),
+  }),
+  status: z.object({
+    loadBalancer: z.record(z.unknown()).optional(),
+  }).optional(),
+});
+
+const NetworkPolicyPeerSchema = z.object({
+  podSelector: LabelSelectorSchema.optional(),
+  namespaceSelector: LabelSelectorSchema.optional(),
+  ipBlock: z.object({
+    cidr: z.string(),
+    except: z.array(z.string()).optional(),
+  }).optional(),
+});
+
+const NetworkPolicyPortSchema = z.object({
+  protocol: z.string().optional(),
+  port: PortOrName.optional(),
+  endPort: z.number().optional(),
+});
+
+export const NetworkPolicySchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    podSelector: LabelSelectorSchema,
+    policyTypes: z.array(z.enum(['Ingress', 'Egress'])).optional(),
+    ingress: z.array(z.object({
+      from: z.array(NetworkPolicyPeerSchema).optional(),
+      ports: z.array(NetworkPolicyPortSchema).optional(),
+    })).optional(),
+    egress: z.array(z.object({
+      to: z.array(NetworkPolicyPeerSchema).optional(),
+      ports: z.array(NetworkPolicyPortSchema).optional(),
+    })).optional(),
+  }),
+});
+
+// Autoscaling and quotas
+const MetricTargetSchema = z.object({
+  type: z.string(),
+  averageUtilization: z.number().optional(),
+  averageValue: z.union([z.string(), z.number()]).optional(),
+  value: z.union([z.string(), z.number()]).optional(),
+});
+
+export const HorizontalPodAutoscalerSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    scaleTargetRef: ObjectReferenceSchema.omit({ namespace: true }),
+    minReplicas: z.number().optional(),
+    maxReplicas: z.number(),
+    metrics: z.array(z.object({
+      type: z.string(),
+      resource: z.object({
+        name: z.string(),
+        target: MetricTargetSchema,
+      }).optional(),
+    })).optional(),
+  }),
+  status: z.object({
+    currentReplicas: z.number().optional(),
+    desiredReplicas: z.number().optional(),
+    lastScaleTime: z.string().nullish(),
+    conditions: z.array(ConditionSchema).optional(),
+  }).optional(),
+});
+
+export const ResourceQuotaSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    hard: QuantityMap.optional(),
+    scopes: z.array(z.string()).optional(),
+  }).optional(),
+  status: z.object({
+    hard: QuantityMap.optional(),
+    used: QuantityMap.optional(),
+  }).optional(),
+});
+
+// Disruption budgets
+export const PodDisruptionBudgetSchema = z.object({
+  metadata: NamespacedObjectMetaSchema,
+  spec: z.object({
+    // Counts or percentages; only one of the two is set
+    minAvailable: PortOrName.optional(),
+    maxUnavailable: PortOrName.optional(),
+    selector: LabelSelectorSchema.optional(),
+  }),
+  status: z.object({
+    currentHealthy: z.number().optional(),
+    desiredHealthy: z.number().optional(),
+    disruptionsAllowed: z.number().optional(),
+    expectedPods: z.number().optional(),
+  }).optional(),
+});
+
+export type OwnerReference = z.infer<typeof OwnerReferenceSchema>;
+export type ObjectMeta = z.infer<typeof ObjectMetaSchema>;
+export type ObjectReference = z.infer<typeof ObjectReferenceSchema>;
+export type LabelSelector = z.infer<typeof LabelSelectorSchema>;
+export type Condition = z.infer<typeof ConditionSchema>;
+export type ResourceRequirements = z.infer<typeof ResourceRequirementsSchema>;
+export type Probe = z.infer<typeof ProbeSchema>;
+export type SecurityContext = z.infer<typeof SecurityContextSchema>;
+export type Container = z.infer<typeof ContainerSchema>;
+export type Volume = z.infer<typeof VolumeSchema>;
+export type PodSpec = z.infer<typeof PodSpecSchema>;
+export type PodTemplateSpec = z.infer<typeof PodTemplateSpecSchema>;
+export type ContainerState = z.infer<typeof ContainerStateSchema>;
+export type ContainerStatus = z.infer<typeof ContainerStatusSchema>;
+export type Pod = z.infer<typeof PodSchema>;
+export type Deployment = z.infer<typeof DeploymentSchema>;
+export type ReplicaSet = z.infer<typeof ReplicaSetSchema>;
+export type StatefulSet = z.infer<typeof StatefulSetSchema>;
+export type DaemonSet = z.infer<typeof DaemonSetSchema>;
+export type Job = z.infer<typeof JobSchema>;
+export type CronJob = z.infer<typeof CronJobSchema>;
+export type Node = z.infer<typeof NodeSchema>;
+export type Namespace = z.infer<typeof NamespaceSchema>;
+export type Event = z.infer<typeof EventSchema>;
+export type PersistentVolumeClaim = z.infer<typeof PersistentVolumeClaimSchema>;
+export type PersistentVolume = z.infer<typeof PersistentVolumeSchema>;
+export type Service = z.infer<typeof ServiceSchema>;
+export type Endpoints = z.infer<typeof EndpointsSchema>;
+export type Ingress = z.infer<typeof IngressSchema>;
+export type NetworkPolicy = z.infer<typeof NetworkPolicySchema>;
+export type HorizontalPodAutoscaler = z.infer<typeof HorizontalPodAutoscalerSchema>;
+export type ResourceQuota = z.infer<typeof ResourceQuotaSchema>;
+export type PodDisruptionBudget = z.infer<typeof PodDisruptionBudgetSchema>;
+
+// Kind → schema lookup used by anything that loads mixed resource lists
+export const ResourceSchemas = {
+  Pod: PodSchema,
+  Deployment: DeploymentSchema,
+  ReplicaSet: ReplicaSetSchema,
+  StatefulSet: StatefulSetSchema,
+  DaemonSet: DaemonSetSchema,
+  Job: JobSchema,
+  CronJob: CronJobSchema,
+  Node: NodeSchema,
+  Namespace: NamespaceSchema,
+  Event: EventSchema,
+  PersistentVolumeClaim: PersistentVolumeClaimSchema,
+  PersistentVolume: PersistentVolumeSchema,
+  Service: ServiceSchema,
+  Endpoints: EndpointsSchema,
+  Ingress: IngressSchema,
+  NetworkPolicy: NetworkPolicySchema,
+  HorizontalPodAutoscaler: HorizontalPodAutoscalerSchema,
+  ResourceQuota: ResourceQuotaSchema,
+  PodDisruptionBudget: PodDisruptionBudgetSchema,
+} as const;
+
+export type ResourceKind = keyof typeof ResourceSchemas;
+
+export type ResourceOfKind<K extends ResourceKind> = z.infer<(typeof ResourceSchemas)[K]>;
+
+// Where each kind lives in the REST API, and whether it is namespaced
+export const ResourceEndpoints: Record<ResourceKind, { prefix: string; plural: string; namespaced: boolean }> = {
+  Pod: { prefix: '/api/v1', plural: 'pods', namespaced: true },
+  Deployment: { prefix: '/apis/apps/v1', plural: 'deployments', namespaced: true },
+  ReplicaSet: { prefix: '/apis/apps/v1', plural: 'replicasets', namespaced: true },
+  StatefulSet: { prefix: '/apis/apps/v1', plural: 'statefulsets', namespaced: true },
+  DaemonSet: { prefix: '/apis/apps/v1', plural: 'daemonsets', namespaced: true },
+  Job: { prefix: '/apis/batch/v1', plural: 'jobs', namespaced: true },
+  CronJob: { prefix: '/apis/batch/v1', plural: 'cronjobs', namespaced: true },
+  Node: { prefix: '/api/v1', plural: 'nodes', namespaced: false },
+  Namespace: { prefix: '/api/v1', plural: 'namespaces', namespaced: false },
+  Event: { prefix: '/api/v1', plural: 'events', namespaced: true },
+  PersistentVolumeClaim: { prefix: '/api/v1', plural: 'persistentvolumeclaims', namespaced: true },
+  PersistentVolume: { prefix: '/api/v1', plural: 'persistentvolumes', namespaced: false },
+  Service: { prefix: '/api/v1', plural: 'services', namespaced: true },
+  Endpoints: { prefix: '/api/v1', plural: 'endpoints', namespaced: true },
+  Ingress: { prefix: '/apis/networking.k8s.io/v1', plural: 'ingresses', namespaced: true },
+  NetworkPolicy: { prefix: '/apis/networking.k8s.io/v1', plural: 'networkpolicies', namespaced: true },
+  HorizontalPodAutoscaler: { prefix: '/apis/autoscaling/v2', plural: 'horizontalpodautoscalers', namespaced: true },
+  ResourceQuota: { prefix: '/api/v1', plural: 'resourcequotas', namespaced: true },
+  PodDisruptionBudget: { prefix: '/apis/policy/v1', plural: 'poddisruptionbudgets', namespaced: true },
+};
+
+export function isResourceKind(kind: string): kind is ResourceKind {
+  return kind in ResourceSchemas;
+}
+
+const BINARY_SUFFIXES: Record<string, number> = { Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, Pi: 2 ** 50, Ei: 2 ** 60 };
+const DECIMAL_SUFFIXES: Record<string, number> = { n: 1e-9, u: 1e-6, m: 1e-3, '': 1, k: 1e3, M: 1e6, G: 1e9, T: 1e12, P: 1e15, E: 1e18 };
+
+// "500m" → 0.5, "2Gi" → 2147483648, "1e3" → 1000; undefined if it is not a valid quantity
+export function parseQuantity(quantity: string | number): number | undefined {
+  const match = String(quantity).trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+))(?:([eE][+-]?\d+)|(Ki|Mi|Gi|Ti|Pi|Ei|[numkMGTPE])?)$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, number, exponent, suffix = ''] = match;
+  if (exponent) {
+    return Number(number + exponent);
+  }
+  return Number(number) * (BINARY_SUFFIXES[suffix] ?? DECIMAL_SUFFIXES[suffix]);
+}
@@ -1,84 +1,50 @@
-import { z } from 'zod';
-
-// Kubernetes resource schemas
-export const PodSchema = z.object({
-  metadata: z.object({
-    name: z.string(),
-    namespace: z.string(),
-    labels: z.record(z.string()).optional(),
-  }),
-  spec: z.object({
-    containers: z.array(z.object({
-      name: z.string(),
-      image: z.string(),
-      resources: z.object({
-        requests: z.record(z.string()).optional(),
-        limits: z.record(z.string()).optional(),
-      }).optional(),
-    })),
-  }),
-  status: z.object({
-    phase: z.string(),
-    conditions: z.array(z.object({
-      type: z.string(),
-      status: z.string(),
-      reason: z.string().optional(),
-      message: z.string().optional(),
-    })).optional(),
-  }),
-});
-
-export const EventSchema = z.object({
-  metadata: z.object({
-    name: z.string(),
-    namespace: z.string(),
-  }),
-  involvedObject: z.object({
-    kind: z.string(),
-    name: z.string(),
-    namespace: z.string(),
-  }),
-  reason: z.string(),
-  message: z.string(),
-  type: z.string(),
-  firstTimestamp: z.string(),
-  lastTimestamp: z.string(),
-});
-
-export const IssueSchema = z.object({
-  id: z.string(),
-  severity: z.enum(['low', 'medium', 'high', 'critical']),
-  title: z.string(),
-  description: z.string(),
-  namespace: z.string(),
-  resource: z.object({
-    kind: z.string(),
-    name: z.string(),
-  }),
-  suggestedFix: z.object({
-    action: z.string(),
-    yaml: z.string().optional(),
-    command: z.string().optional(),
-  }).optional(),
-  aiAnalysis: z.string(),
-});
-
-export const FixSchema = z.object({
-  id: z.string(),
-  action: z.string(),
-  description: z.string(),
-  applied: z.boolean(),
-  result: z.string().optional(),
-});
-
-export type Pod = z.infer<typeof PodSchema>;
-export type Event = z.infer<typeof EventSchema>;
-export type Issue = z.infer<typeof IssueSchema>;
-export type Fix = z.infer<typeof FixSchema>;
+import { KubernetesApiError } from './kubernetes-client';
+import type { KubernetesClient } from './kubernetes-client';
+import {
+  DetectorRegistry,
+  DetectableKind,
+  DetectableResources,
+  IssueDetector,
+  createDefaultDetectorRegistry,
+  mergeIssues,
+} from './issue-detectors';
+import { InformerSet, InformerOptions } from './informer';
+import { IssueTracker, TrackedIssue, IssueStatus } from './issue-tracker';
+import { HealthReport, HealthScoreOptions, findingFromIssue, scoreClusterHealth } from './health-score';
+import { ClusterSnapshot, SnapshotAnalysis, analyzeSnapshot } from './cluster-snapshot';
+import { ResourceGraph, GRAPH_KINDS, rollUpIssues } from './resource-graph';
+import { AIConfidenceScorer } from './ai-confidence-scoring';
+import type { Issue, Fix } from './issues';
+import type { PodDisruptionBudget } from './kubernetes-resources';
+
+// Kubernetes resource schemas live in kubernetes-resources; re-exported for existing callers
+export {
+  PodSchema,
+  EventSchema,
+  DeploymentSchema,
+  NodeSchema,
+} from './kubernetes-resources';
+export type { Pod, Event, Deployment, Node } from './kubernetes-resources';
+
+// Issue records live in issues.ts so detectors and the tracker can share them without a cycle
+export { IssueSchema, FixSchema } from './issues';
+export type { Issue, Fix } from './issues';
 
 // AI-powered issue detection
 export class KubernetesAI {
   private static instance: KubernetesAI;
+  private client: KubernetesClient | null = null;
+  private detectors: DetectorRegistry = createDefaultDetectorRegistry();
+  private informers: InformerSet | null = null;
+  private cachedIssues: Map<string, Issue[]> = new Map();
+  private pendingKinds: Set<DetectableKind> = new Set();
+  private redetectTimer: ReturnType<typeof setTimeout> | null = null;
+  private issueListeners: Array<(issues: Issue[]) => void> = [];
+  private tracker: IssueTracker = IssueTracker.getInstance();
+  private graph: ResourceGraph = new ResourceGraph();
+  private resources: Partial<DetectableResources> = {};
+  // How the connected cluster is labelled in recorded fix outcomes
+  private environment = 'unknown';
   
   private constructor() {}
   
@@ -88,63 +54,218 @@ export class KubernetesAI {
     }
     return KubernetesAI.instance;
   }
+
+  useClient(client: KubernetesClient | null, options: { environment?: string } = {}): void {
+    this.stopWatching();
+    this.client = client;
+    this.environment = options.environment ?? 'unknown';
+  }
+  
+  registerDetector<K extends DetectableKind>(detector: IssueDetector<K>): void {
+    if (this.informers && detector.kinds.some(kind => !this.informers?.kinds.includes(kind))) {
+      throw new Error(`Detector ${detector.id} needs kinds that are not being watched; restart watching after registering it`);
+    }
+    this.detectors.register(detector);
+    if (this.informers) {
+      this.queueRedetect(detector.kinds);
+    }
+  }
+
+  unregisterDetector(id: string): boolean {
+    const removed = this.detectors.unregister(id);
+    if (removed && this.cachedIssues.delete(id)) {
+      this.notifyIssueListeners();
+    }
+    return removed;
+  }
+
+  listDetectors(): IssueDetector[] {
+    return this.detectors.list();
+  }
   
   async detectIssues(namespace: string): Promise<Issue[]> {
-    // Simulate AI-powered issue detection
-    const mockIssues: Issue[] = [
-      {
-        id: 'issue-001',
-        severity: 'high',
-        title: 'Pod CrashLoopBackOff detected',
-        description: 'Pod web-service-abc123 is in CrashLoopBackOff state',
-        namespace,
-        resource: {
-          kind: 'Pod',
-          name: 'web-service-abc123',
-        },
-        suggestedFix: {
-          action: 'restart_pod',
-          yaml: `apiVersion: v1
-kind: Pod
-metadata:
-  name: web-service-abc123
-  namespace: ${namespace}
-spec:
-  containers:
-  - name: web-service
-    image: nginx:1.21
-    resources:
-      requests:
-        memory: "256Mi"
-        cpu: "250m"
-      limits:
-        memory: "512Mi"
-        cpu: "500m"`,
-        },
-        aiAnalysis: 'AI detected that the pod is failing due to insufficient memory allocation. Recommended to increase memory limits.',
-      },
-      {
-        id: 'issue-002',
-        severity: 'medium',
-        title: 'High CPU usage detected',
-        description: 'Deployment payment-service is using 95% CPU',
-        namespace,
-        resource: {
-          kind: 'Deployment',
-          name: 'payment-service',
-        },
-        suggestedFix: {
-          action: 'scale_deployment',
-          command: `kubectl scale deployment payment-service --replicas=3 -n ${namespace}`,
-        },
-        aiAnalysis: 'AI analysis shows sustained high CPU usage. Scaling up the deployment will distribute the load.',
-      },
-    ];
-    
-    return mockIssues;
+    // While informers are running the cache is authoritative; no need to hit the API server
+    if (this.informers?.hasSynced()) {
+      return this.getCachedIssues(namespace);
+    }
+
+    // Without a cluster connection, report what other sources (log analysis, the backend) have tracked
+    if (!this.client) {
+      return this.tracker.list({ status: ['open', 'acknowledged', 'remediating', 'reopened'], namespace });
+    }
+
+    const resources = await this.listResources(this.client, this.requiredKinds(), namespace);
+    this.resources = resources;
+    this.graph = ResourceGraph.fromResources(resources);
+    const issues = rollUpIssues(this.detectors.run(resources), this.graph);
+    this.tracker.ingest(issues, { scope: namespace, resolveMissing: true });
+    return issues;
+  }
+
+  // Deduplicated issues with lifecycle state, as accumulated across detection passes
+  getTrackedIssues(filter: { status?: IssueStatus | IssueStatus[]; namespace?: string } = {}): TrackedIssue[] {
+    return this.tracker.list(filter);
+  }
+
+  transitionIssue(fingerprint: string, status: IssueStatus, note?: string): TrackedIssue {
+    return this.tracker.transition(fingerprint, status, note);
+  }
+
+  // Offline counterpart of detectIssues for support bundles; the tracker is left untouched
+  analyzeSnapshot(snapshot: ClusterSnapshot, options: HealthScoreOptions & { namespace?: string } = {}): Promise<SnapshotAnalysis> {
+    return analyzeSnapshot(snapshot, this.detectors, options);
+  }
+
+  // Ownership, Helm and Service relationships from the most recent detection pass
+  getResourceGraph(): ResourceGraph {
+    return this.graph;
+  }
+
+  // Objects listed by the most recent detection pass, for estimating what a fix would disturb
+  getClusterResources(): Partial<DetectableResources> {
+    return this.resources;
+  }
+
+  // Detectors' kinds plus the workload kinds needed to attribute issues to their owners
+  private requiredKinds(): DetectableKind[] {
+    return Array.from(new Set([...this.detectors.requiredKinds(), ...GRAPH_KINDS]));
+  }
+
+  // Listed only when a fix's blast radius is estimated, so detection never depends on policy/v1 RBAC.
+  // Undefined when there is no cluster or the budgets may not be listed: the estimate treats them as unknown.
+  async listDisruptionBudgets(namespace: string): Promise<PodDisruptionBudget[] | undefined> {
+    if (!this.client) {
+      return undefined;
+    }
+    try {
+      return await this.client.list('PodDisruptionBudget', namespace);
+    } catch (error) {
+      if (error instanceof KubernetesApiError && error.status === 403) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // Labels approval policies match on. Undefined when there is no cluster or the namespace may not be read.
+  async namespaceLabels(namespace: string): Promise<Record<string, string> | undefined> {
+    if (!this.client) {
+      return undefined;
+    }
+    try {
+      return (await this.client.read('Namespace', namespace)).metadata.labels ?? {};
+    } catch (error) {
+      if (error instanceof KubernetesApiError && (error.status === 403 || error.status === 404)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async listResources(
+    client: KubernetesClient,
+    kinds: DetectableKind[],
+    namespace: string
+  ): Promise<Partial<DetectableResources>> {
+    const lists = await Promise.all(kinds.map(kind => client.list(kind, namespace)));
+    return Object.fromEntries(kinds.map((kind, i) => [kind, lists[i]]));
   }
   
+  // Keep issues current from watch events instead of re-listing on every call
+  async startWatching(options: InformerOptions = {}): Promise<void> {
+    if (!this.client) {
+      throw new Error('No Kubernetes client configured; call useClient() first');
+    }
+
+    this.stopWatching();
+    const informers = new InformerSet(this.client, this.requiredKinds(), options);
+    informers.subscribe(change => this.queueRedetect([change.kind]));
+    this.informers = informers;
+
+    try {
+      await informers.start();
+    } catch (error) {
+      // e.g. RBAC missing for one kind; detectIssues goes back to listing on demand
+      this.stopWatching();
+      throw error;
+    }
+    this.queueRedetect(informers.kinds);
+  }
+
+  stopWatching(): void {
+    this.informers?.stop();
+    this.informers = null;
+    this.cachedIssues.clear();
+    this.graph = new ResourceGraph();
+    this.resources = {};
+    this.pendingKinds.clear();
+    if (this.redetectTimer) {
+      clearTimeout(this.redetectTimer);
+      this.redetectTimer = null;
+    }
+  }
+
+  isWatching(): boolean {
+    return this.informers !== null;
+  }
+
+  subscribeToIssues(listener: (issues: Issue[]) => void): () => void {
+    this.issueListeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.issueListeners = this.issueListeners.filter(l => l !== listener);
+    };
+  }
+
+  getCachedIssues(namespace?: string): Issue[] {
+    const issues = rollUpIssues(mergeIssues(Array.from(this.cachedIssues.values())), this.graph);
+    // Cluster-scoped issues (nodes) carry an empty namespace and apply everywhere
+    return namespace
+      ? issues.filter(issue => issue.namespace === namespace || issue.namespace === '')
+      : issues;
+  }
+
+  // Changes arrive in bursts (a rollout touches many pods); batch them before re-running detectors
+  private queueRedetect(kinds: readonly DetectableKind[]): void {
+    kinds.forEach(kind => this.pendingKinds.add(kind));
+    if (!this.redetectTimer) {
+      this.redetectTimer = setTimeout(() => this.flushRedetect(), 250);
+    }
+  }
+
+  private flushRedetect(): void {
+    this.redetectTimer = null;
+    const informers = this.informers;
+    if (!informers?.hasSynced()) {
+      return;
+    }
+
+    const kinds = Array.from(this.pendingKinds);
+    this.pendingKinds.clear();
+
+    const snapshot = informers.snapshot();
+    this.resources = snapshot;
+    this.graph = ResourceGraph.fromResources(snapshot);
+    for (const detector of this.detectors.detectorsFor(kinds)) {
+      this.cachedIssues.set(detector.id, this.detectors.runDetector(detector, snapshot));
+    }
+
+    this.tracker.ingest(this.getCachedIssues(), { resolveMissing: true });
+    this.notifyIssueListeners();
+  }
+
+  private notifyIssueListeners(): void {
+    const issues = this.getCachedIssues();
+    this.issueListeners.forEach(listener => listener(issues));
+  }
+
   async applyFix(issue: Issue, autoApply: boolean = false): Promise<Fix> {
+    const tracked = this.tracker.list().find(t => t.id === issue.id);
+    if (autoApply && tracked && this.tracker.allowedTransitions(tracked.fingerprint).includes('remediating')) {
+      this.tracker.transition(tracked.fingerprint, 'remediating', `Applying ${issue.suggestedFix?.action || 'manual_intervention'}`);
+    }
+
     // Simulate applying a fix
     const fix: Fix = {
       id: `fix-${issue.id}`,
@@ -153,31 +274,44 @@ spec:
       applied: autoApply,
       result: autoApply ? 'Fix applied successfully' : 'Fix prepared, manual approval required',
     };
+
+    // Detection passes resolve the issue once it is gone, which is what verifies the fix;
+    // without a connected cluster nothing would ever be detected, so nothing is recorded
+    if (autoApply && tracked && this.client) {
+      const scorer = AIConfidenceScorer.getInstance();
+      const scope = this.outcomeScope(issue.namespace);
+      const namespaceLabels = await this.namespaceLabels(issue.namespace)
+        .catch(error => { console.error(`Could not read namespace ${issue.namespace}`, error); return undefined; });
+      const evaluation = scorer.evaluateFix(issue.type, issue.severity, { ...issue.suggestedFix, action: fix.action, description: fix.description }, { ...scope, namespaceLabels });
+      void scorer.verifyAppliedFix(
+        { issueType: issue.type, action: fix.action, ...scope, predictedConfidence: evaluation.confidence.finalConfidence, approval: 'auto' },
+        { isRecovered: () => this.tracker.get(tracked.fingerprint)?.status === 'resolved' }
+      ).catch(error => console.error(`Could not record the outcome of ${fix.id}`, error));
+    }
     
     return fix;
   }
+
+  // Where fix outcomes for this cluster are recorded
+  outcomeScope(namespace?: string): { cluster: string; environment: string; namespace?: string } {
+    return { cluster: this.client?.connection.clusterName ?? 'local', environment: this.environment, namespace: namespace || undefined };
+  }
   
-  async analyzeClusterHealth(namespace?: string): Promise<{
+  async analyzeClusterHealth(namespace?: string, options: HealthScoreOptions = {}): Promise<{
     score: number;
     issues: Issue[];
     recommendations: string[];
+    breakdown: HealthReport;
   }> {
     const issues = await this.detectIssues(namespace || 'default');
-    const criticalIssues = issues.filter(i => i.severity === 'critical').length;
-    const highIssues = issues.filter(i => i.severity === 'high').length;
-    
-    const score = Math.max(0, 100 - (criticalIssues * 30) - (highIssues * 15));
-    
-    const recommendations = [
-      'Consider implementing resource quotas to prevent resource exhaustion',
-      'Set up monitoring alerts for critical pod failures',
-      'Review and optimize container resource requests and limits',
-    ];
+    const breakdown = scoreClusterHealth(issues.map(findingFromIssue), options);
     
     return {
-      score,
+      score: breakdown.score,
       issues,
-      recommendations,
+      recommendations: breakdown.recommendations,
+      breakdown,
     };
   }
-}
\ No newline at end of file
+}
+
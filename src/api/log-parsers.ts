@@ -0,0 +1,323 @@
+import type { KubernetesError } from './kubernetes-error-analyzer';
+
+// Turns raw log lines into KubernetesError records. Supports klog headers, logfmt, JSON
+// structured logs (zap, logrus, klog JSON) and the CRI / Docker json-file runtime wrappers.
+
+export type LogFormat = 'cri' | 'docker-json' | 'json' | 'klog' | 'logfmt' | 'plain';
+
+export interface LogContext {
+  pod?: string;
+  namespace?: string;
+  container?: string;
+  component?: string;
+  node?: string;
+}
+
+export interface LogParserOptions {
+  // Pin the format instead of detecting it from the first recognizable line
+  format?: LogFormat;
+  context?: LogContext;
+  // klog headers carry no year
+  year?: number;
+}
+
+type Level = KubernetesError['level'];
+
+// Runtime wrappers first: their payload is itself one of the other formats
+const DETECTION_ORDER: LogFormat[] = ['cri', 'docker-json', 'json', 'klog', 'logfmt'];
+
+const KLOG_HEADER = /^([IWEF])(\d{2})(\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d+)?)\s+\d+ ([^:\]\s]+):(\d+)\] ?(.*)$/;
+const CRI_LINE = /^(\d{4}-\d{2}-\d{2}T\S+) (stdout|stderr) ([FP]) ?(.*)$/;
+const LOGFMT_PAIR = /([\w.-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+const KLOG_LEVELS: Record<string, Level> = { I: 'INFO', W: 'WARN', E: 'ERROR', F: 'ERROR' };
+
+export function normalizeLevel(level: unknown): Level | undefined {
+  if (typeof level === 'number') {
+    // logrus/bunyan numeric levels: higher is more severe, 50+ is error
+    return level >= 50 ? 'ERROR' : level >= 40 ? 'WARN' : 'INFO';
+  }
+  if (typeof level !== 'string') {
+    return undefined;
+  }
+  const value = level.toLowerCase();
+  if (/^(err|error|fatal|panic|dpanic|crit|critical|alert|emerg|e|f)$/.test(value)) return 'ERROR';
+  if (/^(warn|warning|w)$/.test(value)) return 'WARN';
+  if (/^(info|debug|trace|notice|i|d)$/.test(value)) return 'INFO';
+  return undefined;
+}
+
+// Unstructured lines get a level from their wording
+function guessLevel(message: string, stream?: string): Level {
+  if (/\b(error|fatal|panic|exception|failed|failure)\b/i.test(message)) return 'ERROR';
+  if (/\bwarn(ing)?\b/i.test(message)) return 'WARN';
+  return stream === 'stderr' ? 'WARN' : 'INFO';
+}
+
+// Pod references as kubelet, scheduler and controllers print them
+export function extractPodRef(message: string): { pod?: string; namespace?: string } {
+  const structured = message.match(/\bpods?="?([a-z0-9.-]+)\/([a-z0-9.-]+)"?/);
+  if (structured) {
+    return { namespace: structured[1], pod: structured[2] };
+  }
+  const kubelet = message.match(/\bpod=([a-z0-9.-]+)_([a-z0-9-]+)\(/);
+  if (kubelet) {
+    return { pod: kubelet[1], namespace: kubelet[2] };
+  }
+  const prose = message.match(/\bpod (?:"|')?([a-z0-9-]+)\/([a-z0-9.-]+)/);
+  if (prose) {
+    return { namespace: prose[1], pod: prose[2] };
+  }
+  const namespace = message.match(/\bnamespace="?([a-z0-9-]+)"?/)?.[1];
+  return namespace ? { namespace } : {};
+}
+
+function toIso(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    // zap writes epoch seconds with a fraction; some loggers use milliseconds
+    const date = new Date(value > 1e12 ? value : value * 1000);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  if (typeof value === 'string' && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  return undefined;
+}
+
+function str(value: unknown): string | undefined {
+  if (typeof value === 'string') return value || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+// Builds a record from whatever fields a structured logger chose to use
+function fromFields(fields: Record<string, unknown>, raw: string, context: LogContext): KubernetesError {
+  const message = str(fields.msg) ?? str(fields.message) ?? str(fields.log) ?? raw;
+  const error = str(fields.error) ?? str(fields.err);
+  const podField = fields.pod;
+  const podRef = podField && typeof podField === 'object'
+    ? { pod: str((podField as Record<string, unknown>).name), namespace: str((podField as Record<string, unknown>).namespace) }
+    : typeof podField === 'string' && podField.includes('/')
+      ? { namespace: podField.split('/')[0], pod: podField.split('/')[1] }
+      : { pod: str(podField) };
+  const fromMessage = extractPodRef(message);
+
+  return {
+    timestamp: toIso(fields.ts ?? fields.time ?? fields.timestamp ?? fields['@timestamp']) ?? '',
+    level: normalizeLevel(fields.level ?? fields.lvl ?? fields.severity) ?? (error ? 'ERROR' : guessLevel(message)),
+    component: str(fields.logger) ?? str(fields.component) ?? str(fields.caller) ?? context.component ?? 'unknown',
+    message: error && !message.includes(error) ? `${message}: ${error}` : message,
+    errorCode: str(fields.code) ?? str(fields.errorCode) ?? str(fields.error_code),
+    pod: podRef.pod ?? str(fields.pod_name) ?? fromMessage.pod ?? context.pod,
+    namespace: podRef.namespace ?? str(fields.namespace) ?? fromMessage.namespace ?? context.namespace,
+    container: str(fields.container) ?? context.container,
+    node: str(fields.node) ?? str(fields.nodeName) ?? str(fields.node_name) ?? context.node,
+    raw,
+  };
+}
+
+function parseJsonObject(line: string): Record<string, unknown> | null {
+  if (!line.startsWith('{')) {
+    return null;
+  }
+  try {
+    const value = JSON.parse(line);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseKlogLine(line: string, context: LogContext = {}, year = new Date().getUTCFullYear()): KubernetesError | null {
+  const match = line.match(KLOG_HEADER);
+  if (!match) {
+    return null;
+  }
+  const [, severity, month, day, time, file, , message] = match;
+  const fromMessage = extractPodRef(message);
+
+  return {
+    timestamp: toIso(`${year}-${month}-${day}T${time}Z`) ?? '',
+    level: KLOG_LEVELS[severity],
+    component: context.component ?? file.replace(/\.go$/, ''),
+    message,
+    pod: fromMessage.pod ?? context.pod,
+    namespace: fromMessage.namespace ?? context.namespace,
+    container: context.container,
+    node: context.node,
+    raw: line,
+  };
+}
+
+export function parseJsonLine(line: string, context: LogContext = {}): KubernetesError | null {
+  const fields = parseJsonObject(line);
+  return fields && (fields.msg !== undefined || fields.message !== undefined || fields.level !== undefined)
+    ? fromFields(fields, line, context)
+    : null;
+}
+
+export function parseLogfmtLine(line: string, context: LogContext = {}): KubernetesError | null {
+  const fields: Record<string, unknown> = {};
+  let pairs = 0;
+  for (const [, key, value] of line.matchAll(LOGFMT_PAIR)) {
+    fields[key] = value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+    pairs++;
+  }
+  // Prose with a stray key=value is not logfmt; require the keys every logfmt logger writes
+  if (pairs < 2 || (fields.msg === undefined && fields.level === undefined && fields.lvl === undefined)) {
+    return null;
+  }
+  return fromFields(fields, line, context);
+}
+
+export function parsePlainLine(line: string, context: LogContext = {}): KubernetesError {
+  const fromMessage = extractPodRef(line);
+  return {
+    timestamp: '',
+    level: guessLevel(line),
+    component: context.component ?? 'unknown',
+    message: line,
+    pod: fromMessage.pod ?? context.pod,
+    namespace: fromMessage.namespace ?? context.namespace,
+    container: context.container,
+    node: context.node,
+    raw: line,
+  };
+}
+
+export function detectLogFormat(line: string): LogFormat {
+  for (const format of DETECTION_ORDER) {
+    if (matchesFormat(format, line)) {
+      return format;
+    }
+  }
+  return 'plain';
+}
+
+function matchesFormat(format: LogFormat, line: string): boolean {
+  switch (format) {
+    case 'cri':
+      return CRI_LINE.test(line);
+    case 'docker-json': {
+      const fields = parseJsonObject(line);
+      return !!fields && typeof fields.log === 'string' && typeof fields.stream === 'string';
+    }
+    case 'json':
+      return parseJsonLine(line) !== null;
+    case 'klog':
+      return KLOG_HEADER.test(line);
+    case 'logfmt':
+      return parseLogfmtLine(line) !== null;
+    default:
+      return true;
+  }
+}
+
+// Stateful parser for one log stream. The format locks on the first line that matches a known
+// one; CRI partial lines ("P") are held back until their final fragment arrives.
+export class LogParser {
+  private format: LogFormat | undefined;
+  private inner: LogParser | null = null;
+  private partial: { timestamp: string; stream: string; text: string } | null = null;
+  private readonly context: LogContext;
+  private readonly year?: number;
+
+  constructor(options: LogParserOptions = {}) {
+    this.format = options.format;
+    this.context = options.context ?? {};
+    this.year = options.year;
+  }
+
+  get detectedFormat(): LogFormat | undefined {
+    return this.format;
+  }
+
+  push(line: string): KubernetesError[] {
+    const trimmed = line.replace(/\r$/, '');
+    if (!trimmed.trim()) {
+      return [];
+    }
+
+    if (!this.format) {
+      const detected = detectLogFormat(trimmed);
+      if (detected === 'plain') {
+        return [parsePlainLine(trimmed, this.context)];
+      }
+      this.format = detected;
+    }
+
+    const record = this.parse(this.format, trimmed);
+    return record ? [record] : [];
+  }
+
+  // Emits anything still buffered, e.g. a partial CRI line at the end of a file
+  flush(): KubernetesError[] {
+    if (!this.partial) {
+      return this.inner?.flush() ?? [];
+    }
+    const { timestamp, stream, text } = this.partial;
+    this.partial = null;
+    return [this.runtimeRecord(timestamp, stream, text)];
+  }
+
+  private parse(format: LogFormat, line: string): KubernetesError | null {
+    switch (format) {
+      case 'cri': {
+        const match = line.match(CRI_LINE);
+        if (!match) {
+          return parsePlainLine(line, this.context);
+        }
+        const [, timestamp, stream, tag, text] = match;
+        if (tag === 'P') {
+          this.partial = this.partial
+            ? { ...this.partial, text: this.partial.text + text }
+            : { timestamp, stream, text };
+          return null;
+        }
+        const full = this.partial ? this.partial.text + text : text;
+        const start = this.partial?.timestamp ?? timestamp;
+        this.partial = null;
+        return this.runtimeRecord(start, stream, full);
+      }
+      case 'docker-json': {
+        const fields = parseJsonObject(line);
+        if (!fields || typeof fields.log !== 'string') {
+          return parsePlainLine(line, this.context);
+        }
+        return this.runtimeRecord(str(fields.time) ?? '', str(fields.stream) ?? 'stdout', fields.log.replace(/\n$/, ''));
+      }
+      case 'json':
+        return parseJsonLine(line, this.context) ?? parsePlainLine(line, this.context);
+      case 'klog':
+        return parseKlogLine(line, this.context, this.year) ?? parsePlainLine(line, this.context);
+      case 'logfmt':
+        return parseLogfmtLine(line, this.context) ?? parsePlainLine(line, this.context);
+      default:
+        return parsePlainLine(line, this.context);
+    }
+  }
+
+  // The runtime wrapper supplies time and stream; the application payload supplies the rest
+  private runtimeRecord(timestamp: string, stream: string, payload: string): KubernetesError {
+    if (!this.inner) {
+      this.inner = new LogParser({ context: this.context, year: this.year });
+    }
+    const record = this.inner.push(payload)[0] ?? parsePlainLine(payload, this.context);
+    const level = record.level === 'INFO' && stream === 'stderr' && this.inner.detectedFormat === undefined
+      ? guessLevel(payload, stream)
+      : record.level;
+
+    return {
+      ...record,
+      timestamp: record.timestamp || toIso(timestamp) || timestamp,
+      level,
+    };
+  }
+}
+
+export function parseLogLines(lines: string[] | string, options: LogParserOptions = {}): KubernetesError[] {
+  const parser = new LogParser(options);
+  const input = typeof lines === 'string' ? lines.split('\n') : lines;
+  return [...input.flatMap(line => parser.push(line)), ...parser.flush()];
+}
@@ -0,0 +1,247 @@
+import type { ErrorAnalysis, KubernetesError } from './kubernetes-error-analyzer';
+import { LogParser, LogParserOptions } from './log-parsers';
+import { AggregatedEvent, StackTraceAggregator, classifyStackTrace } from './stack-traces';
+import { HealthFinding, HealthReport, HealthScoreOptions, scoreClusterHealth } from './health-score';
+
+// Incremental counterpart of batchAnalyze for `kubectl logs -f` and files too large to hold in
+// memory. Only sliding-window counters and the latest analysis per error stream are kept.
+
+export interface StreamAnalyzerOptions extends LogParserOptions {
+  // Width of the sliding window the rates are computed over
+  windowMs?: number;
+  // Counters are kept per bucket, so memory per stream is windowMs / bucketMs
+  bucketMs?: number;
+  // Errors per minute for one type on one pod that count as a burst
+  rateThreshold?: number;
+  // Used when a record carries no timestamp, and to tell when a stack trace has gone quiet
+  now?: () => number;
+  // A stack trace with no new line for this long is analyzed without waiting for the line after it
+  traceIdleMs?: number;
+  // Upper bound on how long a trace that keeps growing is held back
+  traceMaxAgeMs?: number;
+  health?: HealthScoreOptions;
+}
+
+export interface ErrorRate {
+  errorType: string;
+  pod?: string;
+  namespace?: string;
+  count: number;
+  ratePerMinute: number;
+  lastSeen: number;
+  analysis: ErrorAnalysis;
+}
+
+export interface StreamEmission extends ErrorRate {
+  reason: 'first-seen' | 'rate-threshold';
+}
+
+interface RateWindow {
+  pod?: string;
+  namespace?: string;
+  buckets: Array<{ start: number; count: number }>;
+  aboveThreshold: boolean;
+  lastSeen: number;
+  analysis: ErrorAnalysis;
+}
+
+type EntryAnalyzer = { analyzeLogEntry(entry: KubernetesError): ErrorAnalysis | null };
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_BUCKET_MS = 10 * 1000;
+const DEFAULT_RATE_THRESHOLD = 10;
+const DEFAULT_TRACE_IDLE_MS = 2000;
+const DEFAULT_TRACE_MAX_AGE_MS = 30 * 1000;
+
+export class StreamingLogAnalyzer {
+  private parser: LogParser;
+  private traces: StackTraceAggregator;
+  private windows: Map<string, RateWindow> = new Map();
+  private seenTypes: Set<string> = new Set();
+  private clock = 0;
+  private currentBucket = -1;
+  private listeners: Array<(emission: StreamEmission) => void> = [];
+  private readonly windowMs: number;
+  private readonly bucketMs: number;
+  private readonly rateThreshold: number;
+  private readonly now: () => number;
+  private readonly traceIdleMs: number;
+  private readonly healthOptions: HealthScoreOptions;
+
+  constructor(private analyzer: EntryAnalyzer, options: StreamAnalyzerOptions = {}) {
+    this.parser = new LogParser(options);
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.bucketMs = Math.min(options.bucketMs ?? DEFAULT_BUCKET_MS, this.windowMs);
+    this.rateThreshold = options.rateThreshold ?? DEFAULT_RATE_THRESHOLD;
+    this.now = options.now ?? Date.now;
+    this.traceIdleMs = options.traceIdleMs ?? DEFAULT_TRACE_IDLE_MS;
+    this.traces = new StackTraceAggregator({
+      idleMs: this.traceIdleMs,
+      maxAgeMs: options.traceMaxAgeMs ?? DEFAULT_TRACE_MAX_AGE_MS,
+      now: this.now,
+    });
+    this.healthOptions = options.health ?? {};
+  }
+
+  // Raw lines go through the parser; already-parsed records skip it
+  push(line: string | KubernetesError): StreamEmission[] {
+    const records = typeof line === 'string' ? this.parser.push(line) : [line];
+    return records.flatMap(record => this.traces.push(record)).flatMap(event => this.process(event));
+  }
+
+  // End of input: releases a partial CRI line or a trace still waiting for its next line
+  flush(): StreamEmission[] {
+    const events = this.parser.flush().flatMap(record => this.traces.push(record));
+    return [...events, ...this.traces.flush()].flatMap(event => this.process(event));
+  }
+
+  // Releases stack traces that stopped receiving lines; for callers driving push() themselves
+  flushIdle(): StreamEmission[] {
+    return this.traces.flushStale().flatMap(event => this.process(event));
+  }
+
+  async *analyze(lines: AsyncIterable<string | KubernetesError>): AsyncGenerator<StreamEmission> {
+    const iterator = lines[Symbol.asyncIterator]();
+    let next = iterator.next();
+
+    while (true) {
+      // While a trace is pending, wake up when input goes quiet instead of holding it for the next line
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const result = this.traces.pending > 0
+        ? await Promise.race([next, new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), this.traceIdleMs); })])
+        : await next;
+      clearTimeout(timer);
+
+      if (result === null) {
+        yield* this.flushIdle();
+        continue;
+      }
+      if (result.done) {
+        break;
+      }
+      yield* this.push(result.value);
+      next = iterator.next();
+    }
+    yield* this.flush();
+  }
+
+  // Current rates, busiest first; streams whose window has drained are dropped
+  rates(): ErrorRate[] {
+    this.prune();
+    return Array.from(this.windows.entries())
+      .map(([, window]) => this.rateOf(window))
+      .sort((a, b) => b.ratePerMinute - a.ratePerMinute);
+  }
+
+  // Each active stream costs points in proportion to its rate, so a burst that stops stops hurting
+  healthReport(): HealthReport {
+    const findings: HealthFinding[] = this.rates().map(rate => ({
+      id: `${rate.errorType}|${rate.namespace ?? ''}/${rate.pod ?? ''}`,
+      type: rate.errorType,
+      severity: rate.analysis.severity,
+      title: `${rate.analysis.rootCause} (${rate.ratePerMinute}/min)`,
+      namespace: rate.namespace,
+      weight: Math.max(0.25, Math.min(1, rate.ratePerMinute / this.rateThreshold)),
+    }));
+    return scoreClusterHealth(findings, this.healthOptions);
+  }
+
+  subscribe(listener: (emission: StreamEmission) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private process({ record, trace }: AggregatedEvent): StreamEmission[] {
+    const analysis = trace ? classifyStackTrace(trace, record) : this.analyzer.analyzeLogEntry(record);
+    const timestamp = Date.parse(record.timestamp);
+    this.clock = Math.max(this.clock, Number.isFinite(timestamp) ? timestamp : this.now());
+    if (!analysis) {
+      return [];
+    }
+
+    const start = this.clock - (this.clock % this.bucketMs);
+    // Buckets only expire when the clock enters a new one, so most lines skip the sweep
+    if (start !== this.currentBucket) {
+      this.currentBucket = start;
+      this.prune();
+    }
+
+    const key = `${analysis.errorType}|${record.namespace ?? ''}/${record.pod ?? ''}`;
+    const window = this.windows.get(key)
+      ?? { pod: record.pod, namespace: record.namespace, buckets: [], aboveThreshold: false, lastSeen: 0, analysis };
+    this.windows.set(key, window);
+
+    const last = window.buckets[window.buckets.length - 1];
+    if (last && last.start === start) {
+      last.count++;
+    } else {
+      window.buckets.push({ start, count: 1 });
+    }
+    window.lastSeen = this.clock;
+    window.analysis = analysis;
+
+    const emissions: StreamEmission[] = [];
+    const rate = this.rateOf(window);
+    if (!this.seenTypes.has(analysis.errorType)) {
+      this.seenTypes.add(analysis.errorType);
+      emissions.push({ ...rate, reason: 'first-seen' });
+    }
+    if (!window.aboveThreshold && rate.ratePerMinute >= this.rateThreshold) {
+      window.aboveThreshold = true;
+      emissions.push({ ...rate, reason: 'rate-threshold' });
+    }
+
+    emissions.forEach(emission => this.listeners.forEach(listener => listener(emission)));
+    return emissions;
+  }
+
+  private prune(): void {
+    const cutoff = this.clock - this.windowMs;
+    for (const [key, window] of this.windows) {
+      while (window.buckets.length > 0 && window.buckets[0].start + this.bucketMs <= cutoff) {
+        window.buckets.shift();
+      }
+      if (window.buckets.length === 0) {
+        this.windows.delete(key);
+        continue;
+      }
+      // Re-arm at half the threshold so a rate hovering around it does not emit on every line
+      if (window.aboveThreshold && this.rateOf(window).ratePerMinute < this.rateThreshold / 2) {
+        window.aboveThreshold = false;
+      }
+    }
+  }
+
+  private rateOf(window: RateWindow): ErrorRate {
+    const count = window.buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+    return {
+      errorType: window.analysis.errorType,
+      pod: window.pod,
+      namespace: window.namespace,
+      count,
+      ratePerMinute: Math.round((count / (this.windowMs / 60000)) * 100) / 100,
+      lastSeen: window.lastSeen,
+      analysis: window.analysis,
+    };
+  }
+}
+
+// Re-splits arbitrary chunks (a fetch body, a file read in blocks) into lines
+export async function* readLines(chunks: AsyncIterable<string | Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of chunks) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines;
+  }
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
@@ -0,0 +1,278 @@
+import type { KubernetesError } from './kubernetes-error-analyzer';
+import type { ErrorRule } from './error-rules';
+
+// Drain-style log template mining (He et al., ICWS 2017) over lines no rule recognized.
+// Lines are bucketed by token count and their leading tokens, then merged into the most
+// similar template in the bucket; tokens that differ become the <*> wildcard.
+
+export const WILDCARD = '<*>';
+
+export interface LogTemplate {
+  id: string;
+  template: string;
+  tokens: string[];
+  count: number;
+  // A few distinct raw lines, oldest first
+  examples: string[];
+  firstSeen: string;
+  lastSeen: string;
+  level: KubernetesError['level'];
+  components: string[];
+}
+
+export interface TemplateMinerOptions {
+  // Leading tokens used to route a line; Drain's depth minus the root and length levels
+  prefixTokens?: number;
+  // Share of non-wildcard tokens that must match for a line to join a template
+  similarity?: number;
+  // Children per tree node before further prefixes fall into the wildcard branch
+  maxChildren?: number;
+  // Least recently seen templates are dropped past this
+  maxTemplates?: number;
+  maxExamples?: number;
+  // Timestamped lines remembered so that reading the same log again does not count them twice
+  maxSeenLines?: number;
+  now?: () => number;
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  clusters: LogTemplate[];
+}
+
+// Variable fields masked before tokenizing, so they never split a template
+const MASKS: RegExp[] = [
+  /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+  /\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g,
+  /\b0x[0-9a-f]+\b/gi,
+  /\b[0-9a-f]{16,}\b/gi,
+  /\b\d+(?:\.\d+)?(?:ms|s|m|h|Mi|Gi|Ki|%)?\b/g,
+];
+
+const LEVEL_RANK: Record<KubernetesError['level'], number> = { INFO: 0, WARN: 1, ERROR: 2 };
+
+export function tokenize(message: string): string[] {
+  const masked = MASKS.reduce((text, mask) => text.replace(mask, WILDCARD), message);
+  return masked.split(/\s+/).filter(Boolean);
+}
+
+function hasDigits(token: string): boolean {
+  return /\d/.test(token);
+}
+
+export class TemplateMiner {
+  private root: TreeNode = { children: new Map(), clusters: [] };
+  private byId: Map<string, LogTemplate> = new Map();
+  private nextId = 1;
+  private listeners: Array<(templates: LogTemplate[]) => void> = [];
+  // Insertion-ordered, so the oldest line is the first to be forgotten
+  private seenLines: Set<string> = new Set();
+  private readonly prefixTokens: number;
+  private readonly similarity: number;
+  private readonly maxChildren: number;
+  private readonly maxTemplates: number;
+  private readonly maxExamples: number;
+  private readonly maxSeenLines: number;
+  private readonly now: () => number;
+
+  constructor(options: TemplateMinerOptions = {}) {
+    this.prefixTokens = options.prefixTokens ?? 2;
+    this.similarity = options.similarity ?? 0.5;
+    this.maxChildren = options.maxChildren ?? 100;
+    this.maxTemplates = options.maxTemplates ?? 1000;
+    this.maxExamples = options.maxExamples ?? 3;
+    this.maxSeenLines = options.maxSeenLines ?? 10000;
+    this.now = options.now ?? Date.now;
+  }
+
+  // Returns null for lines with nothing to mine and for lines already counted
+  add(record: KubernetesError): LogTemplate | null {
+    const tokens = tokenize(record.message);
+    if (tokens.length === 0 || this.alreadySeen(record)) {
+      return null;
+    }
+
+    const leaf = this.leafFor(tokens);
+    const seen = record.timestamp || new Date(this.now()).toISOString();
+    let cluster = this.closest(leaf.clusters, tokens);
+
+    if (cluster) {
+      cluster.tokens = cluster.tokens.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+      cluster.template = cluster.tokens.join(' ');
+      cluster.count++;
+      cluster.lastSeen = seen > cluster.lastSeen ? seen : cluster.lastSeen;
+      if (LEVEL_RANK[record.level] > LEVEL_RANK[cluster.level]) {
+        cluster.level = record.level;
+      }
+    } else {
+      cluster = {
+        id: `tpl-${this.nextId++}`,
+        template: tokens.join(' '),
+        tokens,
+        count: 1,
+        examples: [],
+        firstSeen: seen,
+        lastSeen: seen,
+        level: record.level,
+        components: [],
+      };
+      leaf.clusters.push(cluster);
+      this.byId.set(cluster.id, cluster);
+      this.evict();
+    }
+
+    const example = record.raw ?? record.message;
+    if (cluster.examples.length < this.maxExamples && !cluster.examples.includes(example)) {
+      cluster.examples.push(example);
+    }
+    if (!cluster.components.includes(record.component) && cluster.components.length < 10) {
+      cluster.components.push(record.component);
+    }
+
+    this.notify();
+    return cluster;
+  }
+
+  get(id: string): LogTemplate | undefined {
+    return this.byId.get(id);
+  }
+
+  // Newest first: the "what's new" ordering
+  templates(options: { since?: string; minCount?: number } = {}): LogTemplate[] {
+    return Array.from(this.byId.values())
+      .filter(t => (!options.since || t.firstSeen >= options.since) && t.count >= (options.minCount ?? 1))
+      .sort((a, b) => b.firstSeen.localeCompare(a.firstSeen) || b.count - a.count);
+  }
+
+  remove(id: string): boolean {
+    const cluster = this.byId.get(id);
+    if (!cluster) {
+      return false;
+    }
+    this.byId.delete(id);
+    const leaf = this.leafFor(cluster.tokens, false);
+    leaf.clusters = leaf.clusters.filter(c => c !== cluster);
+    this.notify();
+    return true;
+  }
+
+  subscribe(listener: (templates: LogTemplate[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Without a timestamp a replayed line cannot be told from a genuine repeat, so it always counts
+  private alreadySeen(record: KubernetesError): boolean {
+    if (!record.timestamp) {
+      return false;
+    }
+    const key = [record.namespace ?? '', record.pod ?? '', record.container ?? '', record.timestamp, record.message].join('|');
+    if (this.seenLines.has(key)) {
+      return true;
+    }
+    this.seenLines.add(key);
+    if (this.seenLines.size > this.maxSeenLines) {
+      this.seenLines.delete(this.seenLines.values().next().value!);
+    }
+    return false;
+  }
+
+  private notify(): void {
+    // Sorting every template per line is only worth it when someone is watching
+    if (this.listeners.length > 0) {
+      const templates = this.templates();
+      this.listeners.forEach(listener => listener(templates));
+    }
+  }
+
+  // Walks (and with create, grows) the length → prefix token path to a leaf
+  private leafFor(tokens: string[], create = true): TreeNode {
+    let node = this.child(this.root, String(tokens.length), create);
+    for (const token of tokens.slice(0, this.prefixTokens)) {
+      // Numbers and masked fields would fan the tree out without meaning anything
+      const key = hasDigits(token) || token === WILDCARD ? WILDCARD : token;
+      node = this.child(node, key, create);
+    }
+    return node;
+  }
+
+  private child(node: TreeNode, key: string, create: boolean): TreeNode {
+    const existing = node.children.get(key);
+    if (existing) {
+      return existing;
+    }
+    const target = node.children.size < this.maxChildren || key === WILDCARD ? key : WILDCARD;
+    let child = node.children.get(target);
+    if (!child) {
+      child = { children: new Map(), clusters: [] };
+      if (create) {
+        node.children.set(target, child);
+      }
+    }
+    return child;
+  }
+
+  private closest(clusters: LogTemplate[], tokens: string[]): LogTemplate | null {
+    let best: LogTemplate | null = null;
+    let bestScore = -1;
+    let bestWildcards = 0;
+    for (const cluster of clusters) {
+      let same = 0;
+      let wildcards = 0;
+      cluster.tokens.forEach((token, i) => {
+        if (token === WILDCARD) {
+          wildcards++;
+        } else if (token === tokens[i]) {
+          same++;
+        }
+      });
+      const score = same / tokens.length;
+      // Ties go to the more specific template
+      if (score > bestScore || (score === bestScore && wildcards < bestWildcards)) {
+        best = cluster;
+        bestScore = score;
+        bestWildcards = wildcards;
+      }
+    }
+    return best && bestScore >= this.similarity ? best : null;
+  }
+
+  private evict(): void {
+    if (this.byId.size <= this.maxTemplates) {
+      return;
+    }
+    const stalest = Array.from(this.byId.values()).sort((a, b) => a.lastSeen.localeCompare(b.lastSeen))[0];
+    this.remove(stalest.id);
+  }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A rule that matches what the template matched; wildcards accept any single token
+export function templateToRule(template: LogTemplate, overrides: Partial<ErrorRule> = {}): ErrorRule {
+  const pattern = template.tokens
+    .map(token => token.split(WILDCARD).map(escapeRegex).join('\\S+'))
+    .join('\\s+');
+
+  return {
+    id: `mined/${template.id}`,
+    pattern,
+    flags: '',
+    errorType: `mined_${template.id.replace(/-/g, '_')}`,
+    severity: template.level === 'ERROR' ? 'medium' : 'low',
+    rootCause: template.template,
+    diagnosis: `Recurring log pattern first seen ${template.firstSeen} (${template.count} occurrences in ${template.components.join(', ')})`,
+    autoRemediation: false,
+    fixes: [],
+    prevention: '',
+    priority: 0,
+    enabled: true,
+    ...overrides,
+  };
+}
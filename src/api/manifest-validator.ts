@@ -0,0 +1,287 @@
+import { parseAllDocuments } from 'yaml';
+import { LabelSelector, PodDisruptionBudget, PodDisruptionBudgetSchema, parseQuantity } from './kubernetes-resources';
+import { TEMPLATE_PATHS } from './resource-graph';
+
+// Best-practice checks for the YAML a fix proposes. A document with apiVersion and kind is a
+// complete manifest and missing settings count against it; anything else is a patch, where
+// only the fields it sets are checked, since the rest comes from the live object.
+
+export type ViolationSeverity = 'error' | 'warning';
+
+export interface ManifestViolation {
+  rule: string;
+  severity: ViolationSeverity;
+  message: string;
+  // JSON path inside the YAML document, e.g. $.spec.template.spec.containers[0].image
+  path: string;
+  // 0-based index of the document in a multi-document fix; absent for checks on the fix itself
+  document?: number;
+  recommendation: string;
+}
+
+export interface ManifestValidation {
+  // 100 minus the penalty of every violation, floored at 0
+  score: number;
+  violations: ManifestViolation[];
+  documents: number;
+}
+
+export interface ManifestValidationOptions {
+  // Budgets already in the cluster, so a workload they cover is not flagged
+  podDisruptionBudgets?: PodDisruptionBudget[];
+}
+
+interface BestPracticeRule {
+  severity: ViolationSeverity;
+  penalty: number;
+  recommendation: string;
+}
+
+export const BEST_PRACTICE_RULES: Record<string, BestPracticeRule> = {
+  'invalid-yaml': { severity: 'error', penalty: 40, recommendation: 'Fix the YAML syntax so the manifest can be applied' },
+  'resources-missing': { severity: 'warning', penalty: 10, recommendation: 'Add CPU and memory requests and limits to prevent resource exhaustion' },
+  'invalid-quantity': { severity: 'error', penalty: 15, recommendation: 'Use Kubernetes quantities such as 250m, 512Mi or 2Gi' },
+  'limit-below-request': { severity: 'error', penalty: 15, recommendation: 'Set every limit at or above its request; the API server rejects the pod otherwise' },
+  'image-latest-tag': { severity: 'warning', penalty: 8, recommendation: 'Pin the image to a version tag or digest so rollouts are reproducible' },
+  'probes-missing': { severity: 'warning', penalty: 8, recommendation: 'Add readiness and liveness probes for better reliability' },
+  'privileged-container': { severity: 'error', penalty: 20, recommendation: 'Drop privileged mode and grant only the capabilities the container needs' },
+  'host-path-volume': { severity: 'error', penalty: 15, recommendation: 'Replace hostPath with a PersistentVolumeClaim, ConfigMap or emptyDir' },
+  'host-namespace': { severity: 'error', penalty: 15, recommendation: 'Run in the pod network, PID and IPC namespaces instead of the host\'s' },
+  'run-as-root': { severity: 'warning', penalty: 5, recommendation: 'Set securityContext.runAsNonRoot: true and a non-zero runAsUser' },
+  'pdb-missing': { severity: 'warning', penalty: 5, recommendation: 'Add a PodDisruptionBudget so drains and upgrades keep enough replicas running' },
+  'force-command': { severity: 'warning', penalty: 15, recommendation: 'Consider safer alternatives to --force operations' },
+};
+
+// Kinds that run pods; a bare "spec" patch is treated as a pod spec
+const POD_SPEC_PATHS: Record<string, string[]> = {
+  Pod: ['spec'],
+  ...Object.fromEntries(Object.entries(TEMPLATE_PATHS).map(([kind, path]) => [kind, [...path, 'spec']])),
+};
+
+// Run to completion, so probes and disruption budgets do not apply
+const BATCH_KINDS = ['Job', 'CronJob'];
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function at(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), value);
+}
+
+function jsonPath(path: Array<string | number>): string {
+  return '$' + path.map(part => (typeof part === 'number' ? `[${part}]` : `.${part}`)).join('');
+}
+
+export function violation(rule: string, message: string, path: string, document?: number): ManifestViolation {
+  const { severity, recommendation } = BEST_PRACTICE_RULES[rule];
+  return { rule, severity, message, path, document, recommendation };
+}
+
+export function selectorMatches(selector: LabelSelector | undefined, labels: Record<string, string>): boolean {
+  if (!selector || (!selector.matchLabels && !selector.matchExpressions)) {
+    return false;
+  }
+  const labelsMatch = Object.entries(selector.matchLabels ?? {}).every(([key, value]) => labels[key] === value);
+  return labelsMatch && (selector.matchExpressions ?? []).every(({ key, operator, values = [] }) => {
+    switch (operator) {
+      case 'In':
+        return key in labels && values.includes(labels[key]);
+      case 'NotIn':
+        return !(key in labels) || !values.includes(labels[key]);
+      case 'Exists':
+        return key in labels;
+      case 'DoesNotExist':
+        return !(key in labels);
+      default:
+        return false;
+    }
+  });
+}
+
+// Where this document keeps its pod spec, or null if it has none
+export function podSpecPath(doc: Record<string, unknown>): string[] | null {
+  const kind = typeof doc.kind === 'string' ? doc.kind : undefined;
+  if (kind) {
+    return POD_SPEC_PATHS[kind] ?? null;
+  }
+  if (isObject(at(doc, ['spec', 'template', 'spec']))) {
+    return ['spec', 'template', 'spec'];
+  }
+  return Array.isArray(at(doc, ['spec', 'containers'])) ? ['spec'] : null;
+}
+
+function checkImage(image: unknown, path: Array<string | number>, document: number): ManifestViolation[] {
+  if (typeof image !== 'string' || image.includes('@')) {
+    return [];
+  }
+  // A colon after the last slash is a tag; one before it belongs to a registry port
+  const name = image.slice(image.lastIndexOf('/') + 1);
+  const tag = name.includes(':') ? name.slice(name.indexOf(':') + 1) : undefined;
+  if (tag === undefined || tag === 'latest') {
+    return [violation('image-latest-tag', `Image ${image} ${tag ? 'uses the latest tag' : 'has no tag, so it resolves to latest'}`, jsonPath(path), document)];
+  }
+  return [];
+}
+
+function checkResources(container: Json, name: unknown, path: Array<string | number>, complete: boolean, document: number): ManifestViolation[] {
+  const violations: ManifestViolation[] = [];
+  const resources = container.resources;
+  if (!isObject(resources)) {
+    if (complete) {
+      violations.push(violation('resources-missing', `Container ${name} sets no resource requests or limits`, jsonPath(path), document));
+    }
+    return violations;
+  }
+
+  const requests = isObject(resources.requests) ? resources.requests : {};
+  const limits = isObject(resources.limits) ? resources.limits : {};
+  const parsed: Record<'requests' | 'limits', Record<string, number>> = { requests: {}, limits: {} };
+  for (const [field, values] of [['requests', requests], ['limits', limits]] as const) {
+    for (const [resource, quantity] of Object.entries(values)) {
+      const value = typeof quantity === 'string' || typeof quantity === 'number' ? parseQuantity(quantity) : undefined;
+      if (value === undefined) {
+        violations.push(violation('invalid-quantity', `${field}.${resource} is not a valid quantity: ${String(quantity)}`, jsonPath([...path, 'resources', field, resource]), document));
+      } else {
+        parsed[field][resource] = value;
+      }
+    }
+  }
+
+  for (const [resource, limit] of Object.entries(parsed.limits)) {
+    const request = parsed.requests[resource];
+    if (request !== undefined && limit < request) {
+      violations.push(violation('limit-below-request', `${resource} limit ${String(limits[resource])} is below its request ${String(requests[resource])}`, jsonPath([...path, 'resources', 'limits', resource]), document));
+    }
+  }
+
+  if (complete && (!('memory' in limits) || !('cpu' in requests) || !('memory' in requests))) {
+    const missing = [
+      !('cpu' in requests) && 'cpu request',
+      !('memory' in requests) && 'memory request',
+      !('memory' in limits) && 'memory limit',
+    ].filter(Boolean).join(', ');
+    violations.push(violation('resources-missing', `Container ${name} is missing a ${missing}`, jsonPath([...path, 'resources']), document));
+  }
+  return violations;
+}
+
+function checkPodSpec(spec: Json, specPath: string[], kind: string | undefined, complete: boolean, document: number): ManifestViolation[] {
+  const violations: ManifestViolation[] = [];
+
+  for (const field of ['hostNetwork', 'hostPID', 'hostIPC']) {
+    if (spec[field] === true) {
+      violations.push(violation('host-namespace', `Pod uses ${field}`, jsonPath([...specPath, field]), document));
+    }
+  }
+
+  (Array.isArray(spec.volumes) ? spec.volumes : []).forEach((volume, i) => {
+    if (isObject(volume) && volume.hostPath !== undefined) {
+      const hostPath = at(volume, ['hostPath', 'path']);
+      violations.push(violation('host-path-volume', `Volume ${volume.name ?? i} mounts host path ${hostPath ?? ''}`.trim(), jsonPath([...specPath, 'volumes', i, 'hostPath']), document));
+    }
+  });
+
+  const podNonRoot = at(spec, ['securityContext', 'runAsNonRoot']);
+  const podUser = at(spec, ['securityContext', 'runAsUser']);
+  for (const field of ['initContainers', 'containers']) {
+    const containers = spec[field];
+    if (!Array.isArray(containers)) {
+      continue;
+    }
+    containers.forEach((container, i) => {
+      if (!isObject(container)) {
+        return;
+      }
+      const path = [...specPath, field, i];
+      const name = container.name ?? i;
+      violations.push(...checkImage(container.image, [...path, 'image'], document));
+      violations.push(...checkResources(container, name, path, complete, document));
+
+      if (at(container, ['securityContext', 'privileged']) === true) {
+        violations.push(violation('privileged-container', `Container ${name} runs privileged`, jsonPath([...path, 'securityContext', 'privileged']), document));
+      }
+
+      // Container settings override the pod's
+      const nonRoot = at(container, ['securityContext', 'runAsNonRoot']) ?? podNonRoot;
+      const user = at(container, ['securityContext', 'runAsUser']) ?? podUser;
+      if (user === 0 || nonRoot === false) {
+        const where = user === 0 ? 'runAsUser' : 'runAsNonRoot';
+        const own = at(container, ['securityContext', where]) !== undefined;
+        violations.push(violation('run-as-root', `Container ${name} explicitly runs as root`, jsonPath(own ? [...path, 'securityContext', where] : [...specPath, 'securityContext', where]), document));
+      } else if (complete && nonRoot !== true) {
+        violations.push(violation('run-as-root', `Container ${name} does not set runAsNonRoot`, jsonPath([...path, 'securityContext']), document));
+      }
+
+      if (complete && field === 'containers' && !BATCH_KINDS.includes(kind ?? '') && (!container.readinessProbe || !container.livenessProbe)) {
+        const missing = [!container.readinessProbe && 'readiness', !container.livenessProbe && 'liveness'].filter(Boolean).join(' and ');
+        violations.push(violation('probes-missing', `Container ${name} has no ${missing} probe`, jsonPath(path), document));
+      }
+    });
+  }
+  return violations;
+}
+
+// Multi-replica workloads should come with a budget, in the same fix or already in the cluster
+function checkDisruptionBudgets(docs: Json[], options: ManifestValidationOptions): ManifestViolation[] {
+  const budgets = [
+    ...(options.podDisruptionBudgets ?? []),
+    ...docs
+      .filter(doc => doc.kind === 'PodDisruptionBudget')
+      .flatMap(doc => {
+        const parsed = PodDisruptionBudgetSchema.safeParse({ ...doc, metadata: { namespace: 'default', ...(isObject(doc.metadata) ? doc.metadata : {}) } });
+        return parsed.success ? [parsed.data] : [];
+      }),
+  ];
+
+  const violations: ManifestViolation[] = [];
+  docs.forEach((doc, document) => {
+    const replicas = at(doc, ['spec', 'replicas']);
+    if (!['Deployment', 'StatefulSet'].includes(String(doc.kind)) || typeof replicas !== 'number' || replicas < 2) {
+      return;
+    }
+    const name = at(doc, ['metadata', 'name']);
+    const namespace = String(at(doc, ['metadata', 'namespace']) ?? 'default');
+    const labels = at(doc, ['spec', 'template', 'metadata', 'labels']);
+    const covered = budgets.some(budget =>
+      (budget.metadata.namespace ?? 'default') === namespace
+      && selectorMatches(budget.spec.selector, isObject(labels) ? labels as Record<string, string> : {}));
+    if (!covered) {
+      violations.push(violation('pdb-missing', `${doc.kind}${name ? ` ${name}` : ''} runs ${replicas} replicas without a PodDisruptionBudget`, jsonPath(['spec', 'replicas']), document));
+    }
+  });
+  return violations;
+}
+
+export function validateManifest(yaml: string, options: ManifestValidationOptions = {}): ManifestValidation {
+  const docs: Json[] = [];
+  const violations: ManifestViolation[] = [];
+
+  parseAllDocuments(yaml).forEach((parsed, document) => {
+    if (parsed.errors.length > 0) {
+      violations.push(violation('invalid-yaml', parsed.errors[0].message.split('\n')[0].replace(/:$/, ''), '$', document));
+      docs.push({});
+      return;
+    }
+    const doc = parsed.toJS();
+    docs.push(isObject(doc) ? doc : {});
+  });
+
+  docs.forEach((doc, document) => {
+    const complete = typeof doc.apiVersion === 'string' && typeof doc.kind === 'string';
+    const specPath = podSpecPath(doc);
+    const spec = specPath ? at(doc, specPath) : undefined;
+    if (specPath && isObject(spec)) {
+      violations.push(...checkPodSpec(spec, specPath, doc.kind as string | undefined, complete, document));
+    }
+  });
+  violations.push(...checkDisruptionBudgets(docs, options));
+
+  return {
+    score: Math.max(0, 100 - violations.reduce((sum, v) => sum + BEST_PRACTICE_RULES[v.rule].penalty, 0)),
+    violations,
+    documents: docs.length,
+  };
+}
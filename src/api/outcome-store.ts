@@ -0,0 +1,237 @@
+import { z } from 'zod';
+
+// Every applied fix and how it went. AIConfidenceScorer derives its success rates from here,
+// so they survive reloads and can be split by cluster and environment.
+
+export const FixOutcomeSchema = z.object({
+  issueType: z.string(),
+  action: z.string(),
+  cluster: z.string(),
+  // As the cluster is labelled (production, staging, ...), not guessed from its name
+  environment: z.string(),
+  namespace: z.string().optional(),
+  timestamp: z.string(),
+  success: z.boolean(),
+  // From applying the fix until the issue stopped being detected; absent if it never recovered
+  timeToRecoverSeconds: z.number().nonnegative().optional(),
+  // The confidence (0-100) the fix was given before it was applied, for calibration
+  predictedConfidence: z.number().min(0).max(100).optional(),
+  // Cleared to run by the approval policy alone, or by a person
+  approval: z.enum(['auto', 'manual']).optional(),
+});
+
+export type FixOutcome = z.infer<typeof FixOutcomeSchema>;
+
+export interface OutcomeFilter {
+  issueType?: string;
+  action?: string;
+  cluster?: string;
+  environment?: string;
+  namespace?: string;
+  // ISO timestamps, inclusive
+  since?: string;
+  until?: string;
+}
+
+export interface OutcomeSummary {
+  attempts: number;
+  successes: number;
+  successRate: number;
+  medianTimeToRecoverSeconds?: number;
+}
+
+export interface OutcomeStore {
+  record(outcome: FixOutcome): Promise<void>;
+  // Oldest first
+  query(filter?: OutcomeFilter): Promise<FixOutcome[]>;
+}
+
+export function matchesOutcome(outcome: FixOutcome, filter: OutcomeFilter = {}): boolean {
+  return (filter.issueType === undefined || outcome.issueType === filter.issueType)
+    && (filter.action === undefined || outcome.action === filter.action)
+    && (filter.cluster === undefined || outcome.cluster === filter.cluster)
+    && (filter.environment === undefined || outcome.environment === filter.environment)
+    && (filter.namespace === undefined || outcome.namespace === filter.namespace)
+    && (filter.since === undefined || outcome.timestamp >= filter.since)
+    && (filter.until === undefined || outcome.timestamp <= filter.until);
+}
+
+export function summarizeOutcomes(outcomes: FixOutcome[]): OutcomeSummary {
+  const successes = outcomes.filter(o => o.success).length;
+  const recoveries = outcomes
+    .map(o => o.timeToRecoverSeconds)
+    .filter((t): t is number => t !== undefined)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(recoveries.length / 2);
+
+  return {
+    attempts: outcomes.length,
+    successes,
+    successRate: outcomes.length > 0 ? successes / outcomes.length : 0,
+    medianTimeToRecoverSeconds: recoveries.length === 0
+      ? undefined
+      : recoveries.length % 2 === 1 ? recoveries[middle] : (recoveries[middle - 1] + recoveries[middle]) / 2,
+  };
+}
+
+function byTime(a: FixOutcome, b: FixOutcome): number {
+  return a.timestamp.localeCompare(b.timestamp);
+}
+
+// Nothing persisted; the default until a real store is configured
+export class MemoryOutcomeStore implements OutcomeStore {
+  private outcomes: FixOutcome[] = [];
+
+  async record(outcome: FixOutcome): Promise<void> {
+    this.outcomes.push(FixOutcomeSchema.parse(outcome));
+  }
+
+  async query(filter: OutcomeFilter = {}): Promise<FixOutcome[]> {
+    return this.outcomes.filter(o => matchesOutcome(o, filter)).sort(byTime);
+  }
+}
+
+// Somewhere append-only text lives: a file on disk, a localStorage key, ...; null when it does not exist yet
+export interface TextFile {
+  read(): Promise<string | null>;
+  append(text: string): Promise<void>;
+}
+
+// JSON Lines, one outcome per line. Appending never rewrites earlier history, and a line torn
+// by a crash mid-write is skipped instead of losing the whole file.
+export class FileOutcomeStore implements OutcomeStore {
+  constructor(private readonly file: TextFile) {}
+
+  async record(outcome: FixOutcome): Promise<void> {
+    await this.file.append(`${JSON.stringify(FixOutcomeSchema.parse(outcome))}\n`);
+  }
+
+  async query(filter: OutcomeFilter = {}): Promise<FixOutcome[]> {
+    const text = await this.file.read();
+    const outcomes: FixOutcome[] = [];
+    for (const line of (text ?? '').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const parsed = FixOutcomeSchema.safeParse(JSON.parse(line));
+        if (parsed.success && matchesOutcome(parsed.data, filter)) {
+          outcomes.push(parsed.data);
+        }
+      } catch {
+        // Torn or hand-edited line
+      }
+    }
+    return outcomes.sort(byTime);
+  }
+}
+
+export function localStorageFile(key: string, storage: Storage = window.localStorage): TextFile {
+  return {
+    async read() {
+      return storage.getItem(key);
+    },
+    async append(text: string) {
+      storage.setItem(key, (storage.getItem(key) ?? '') + text);
+    },
+  };
+}
+
+// The subset of a SQLite driver the store needs; the promise-based `sqlite` package fits as is
+export interface SqliteDatabase {
+  exec(sql: string): Promise<unknown>;
+  run(sql: string, params?: unknown[]): Promise<unknown>;
+  all<T = unknown>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+interface OutcomeRow {
+  issue_type: string;
+  action: string;
+  cluster: string;
+  environment: string;
+  namespace: string | null;
+  timestamp: string;
+  success: number;
+  time_to_recover_seconds: number | null;
+  predicted_confidence: number | null;
+  approval: 'auto' | 'manual' | null;
+}
+
+const FILTER_COLUMNS: Array<[keyof OutcomeFilter, string]> = [
+  ['issueType', 'issue_type = ?'],
+  ['action', 'action = ?'],
+  ['cluster', 'cluster = ?'],
+  ['environment', 'environment = ?'],
+  ['namespace', 'namespace = ?'],
+  ['since', 'timestamp >= ?'],
+  ['until', 'timestamp <= ?'],
+];
+
+export class SqliteOutcomeStore implements OutcomeStore {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private readonly db: SqliteDatabase, private readonly table = 'fix_outcomes') {
+    if (!/^[A-Za-z_]\w*$/.test(table)) {
+      throw new Error(`Invalid outcome table name: ${table}`);
+    }
+  }
+
+  async record(outcome: FixOutcome): Promise<void> {
+    const parsed = FixOutcomeSchema.parse(outcome);
+    await this.init();
+    await this.db.run(
+      `INSERT INTO ${this.table} (issue_type, action, cluster, environment, namespace, timestamp, success, time_to_recover_seconds, predicted_confidence, approval) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [parsed.issueType, parsed.action, parsed.cluster, parsed.environment, parsed.namespace ?? null, parsed.timestamp, parsed.success ? 1 : 0, parsed.timeToRecoverSeconds ?? null, parsed.predictedConfidence ?? null, parsed.approval ?? null],
+    );
+  }
+
+  async query(filter: OutcomeFilter = {}): Promise<FixOutcome[]> {
+    await this.init();
+    const clauses = FILTER_COLUMNS.filter(([key]) => filter[key] !== undefined);
+    const where = clauses.length > 0 ? ` WHERE ${clauses.map(([, clause]) => clause).join(' AND ')}` : '';
+    const rows = await this.db.all<OutcomeRow>(
+      `SELECT * FROM ${this.table}${where} ORDER BY timestamp`,
+      clauses.map(([key]) => filter[key]),
+    );
+
+    return rows.map(row => ({
+      issueType: row.issue_type,
+      action: row.action,
+      cluster: row.cluster,
+      environment: row.environment,
+      namespace: row.namespace ?? undefined,
+      timestamp: row.timestamp,
+      success: row.success === 1,
+      timeToRecoverSeconds: row.time_to_recover_seconds ?? undefined,
+      predictedConfidence: row.predicted_confidence ?? undefined,
+      approval: row.approval ?? undefined,
+    }));
+  }
+
+  // Creates the table on first use, once even when calls race
+  private init(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = this.db.exec(`
+        CREATE TABLE IF NOT EXISTS ${this.table} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          issue_type TEXT NOT NULL,
+          action TEXT NOT NULL,
+          cluster TEXT NOT NULL,
+          environment TEXT NOT NULL,
+          namespace TEXT,
+          timestamp TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          time_to_recover_seconds REAL,
+          predicted_confidence REAL,
+          approval TEXT
+        );
+        CREATE INDEX IF NOT EXISTS ${this.table}_scope ON ${this.table} (issue_type, cluster, environment);
+      `).catch(error => {
+        // Let the next call try again rather than failing every call from now on
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { SeriesQuery, TimeSeriesStore, Sample } from './time-series';
+import { TrendFit, TrendMethod, fitTrend, timeToExhaustion, trendDirection } from './trend-forecast';
 
 // Predictive Failure Analysis Schema
 export const FailurePredictionSchema = z.object({
@@ -6,6 +8,11 @@ export const FailurePredictionSchema = z.object({
   timestamp: z.string(),
   riskScore: z.number().min(0).max(100),
   timeToFailure: z.string(), // e.g., "2h 30m", "45m", "immediate"
+  // Band around timeToFailure from the trend fit, when the failure is a metric reaching its limit
+  timeToFailureRange: z.object({
+    earliest: z.string(),
+    latest: z.string(),
+  }).optional(),
   failureType: z.string(),
   affectedResources: z.array(z.object({
     kind: z.string(),
@@ -48,12 +55,35 @@ export const LiveMonitoringSchema = z.object({
 
 export type FailurePrediction = z.infer<typeof FailurePredictionSchema>;
 export type LiveMonitoring = z.infer<typeof LiveMonitoringSchema>;
+export type MetricName = keyof LiveMonitoring['metrics'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How far back trends look: long enough to see through noise, short enough to catch a new leak
+const TREND_WINDOWS_MS: Record<MetricName, number> = {
+  cpuUsage: HOUR_MS / 2,
+  memoryUsage: 2 * HOUR_MS,
+  diskUsage: 24 * HOUR_MS,
+  networkLatency: HOUR_MS / 2,
+  errorRate: HOUR_MS / 2,
+};
+
+// Drift slower than this per hour is treated as stable
+const STABLE_SLOPES: Record<MetricName, number> = {
+  cpuUsage: 1,
+  memoryUsage: 0.5,
+  diskUsage: 0.05,
+  networkLatency: 10,
+  errorRate: 0.1,
+};
 
 // AI-Powered Predictive Failure Analysis Engine
 export class PredictiveFailureAnalyzer {
   private static instance: PredictiveFailureAnalyzer;
   private historicalFailures: Map<string, Array<{ timestamp: Date; pattern: string }>> = new Map();
   private activeMonitoring: Map<string, LiveMonitoring> = new Map();
+  private metricStore: TimeSeriesStore = new TimeSeriesStore();
+  private trendMethod: TrendMethod = 'least-squares';
   
   private constructor() {
     this.initializeHistoricalData();
@@ -87,30 +117,40 @@ export class PredictiveFailureAnalyzer {
   }
 
   private startLiveMonitoring() {
-    // Simulate live monitoring data for multiple clusters
+    // Known clusters start with no history; samples arrive through updateMonitoringData
     const clusters = ['production', 'staging', 'development'];
     
-    clusters.forEach(clusterId => {
-      const monitoring: LiveMonitoring = {
-        clusterId,
-        namespace: 'default',
-        metrics: {
-          cpuUsage: Math.random() * 100,
-          memoryUsage: Math.random() * 100,
-          diskUsage: Math.random() * 100,
-          networkLatency: Math.random() * 1000,
-          errorRate: Math.random() * 10,
-        },
-        trends: {
-          cpuTrend: Math.random() > 0.5 ? 'increasing' : 'stable',
-          memoryTrend: Math.random() > 0.7 ? 'increasing' : 'stable',
-          errorTrend: Math.random() > 0.8 ? 'increasing' : 'stable',
-        },
-        anomalies: [],
-      };
-      
-      this.activeMonitoring.set(clusterId, monitoring);
-    });
+    clusters.forEach(clusterId => this.startMonitoring(clusterId));
+  }
+
+  // Registers a cluster to predict for; one already monitored keeps its history
+  startMonitoring(clusterId: string, namespace: string = 'default'): void {
+    const current = this.activeMonitoring.get(clusterId);
+    if (current) {
+      current.namespace = namespace;
+    } else {
+      this.activeMonitoring.set(clusterId, this.emptyMonitoring(clusterId, namespace));
+    }
+  }
+
+  private emptyMonitoring(clusterId: string, namespace: string = 'default'): LiveMonitoring {
+    return {
+      clusterId,
+      namespace,
+      metrics: {
+        cpuUsage: 0,
+        memoryUsage: 0,
+        diskUsage: 0,
+        networkLatency: 0,
+        errorRate: 0,
+      },
+      trends: {
+        cpuTrend: 'stable',
+        memoryTrend: 'stable',
+        errorTrend: 'stable',
+      },
+      anomalies: [],
+    };
   }
 
   // Enhanced failure prediction using historical data and ML patterns
@@ -157,13 +197,13 @@ export class PredictiveFailureAnalyzer {
 
   private generateMemoryExhaustionPrediction(monitoring: LiveMonitoring): FailurePrediction {
     const riskScore = Math.min(100, monitoring.metrics.memoryUsage + 10);
-    const timeToFailure = this.calculateTimeToFailure(monitoring.metrics.memoryUsage, 100, 'memory');
+    const fit = this.fitMetric(monitoring.clusterId, 'memoryUsage');
     
     return {
       predictionId: `mem-${Date.now()}`,
       timestamp: new Date().toISOString(),
       riskScore,
-      timeToFailure,
+      ...this.calculateTimeToFailure(fit, 100),
       failureType: 'memory_exhaustion',
       affectedResources: [
         { kind: 'Pod', name: 'high-memory-app', namespace: monitoring.namespace },
@@ -191,7 +231,7 @@ export class PredictiveFailureAnalyzer {
         },
       ],
       historicalPatterns: [
-        'Memory usage increased 15% over last 2 hours',
+        this.describeTrend('Memory usage', fit),
         'Similar pattern observed 3 times in past month',
         'Previous incidents resolved by horizontal scaling',
       ],
@@ -201,13 +241,13 @@ export class PredictiveFailureAnalyzer {
 
   private generateCpuSaturationPrediction(monitoring: LiveMonitoring): FailurePrediction {
     const riskScore = Math.min(100, monitoring.metrics.cpuUsage + 5);
-    const timeToFailure = this.calculateTimeToFailure(monitoring.metrics.cpuUsage, 100, 'cpu');
+    const fit = this.fitMetric(monitoring.clusterId, 'cpuUsage');
     
     return {
       predictionId: `cpu-${Date.now()}`,
       timestamp: new Date().toISOString(),
       riskScore,
-      timeToFailure,
+      ...this.calculateTimeToFailure(fit, 100),
       failureType: 'cpu_saturation',
       affectedResources: [
         { kind: 'Deployment', name: 'cpu-intensive-app', namespace: monitoring.namespace },
@@ -229,7 +269,7 @@ export class PredictiveFailureAnalyzer {
         },
       ],
       historicalPatterns: [
-        'CPU usage sustained above 80% for 30+ minutes',
+        this.describeTrend('CPU usage', fit),
         'HPA not configured for this deployment',
         'Similar workloads benefit from auto-scaling',
       ],
@@ -239,13 +279,13 @@ export class PredictiveFailureAnalyzer {
 
   private generateDiskExhaustionPrediction(monitoring: LiveMonitoring): FailurePrediction {
     const riskScore = Math.min(100, monitoring.metrics.diskUsage + 15);
-    const timeToFailure = this.calculateTimeToFailure(monitoring.metrics.diskUsage, 95, 'disk');
+    const fit = this.fitMetric(monitoring.clusterId, 'diskUsage');
     
     return {
       predictionId: `disk-${Date.now()}`,
       timestamp: new Date().toISOString(),
       riskScore,
-      timeToFailure,
+      ...this.calculateTimeToFailure(fit, 95),
       failureType: 'disk_exhaustion',
       affectedResources: [
         { kind: 'PersistentVolumeClaim', name: 'data-storage', namespace: monitoring.namespace },
@@ -267,7 +307,7 @@ export class PredictiveFailureAnalyzer {
         },
       ],
       historicalPatterns: [
-        'Disk usage growing at 2% per day',
+        this.describeTrend('Disk usage', fit),
         'Log rotation not properly configured',
         'Previous cleanup freed 18% disk space',
       ],
@@ -349,29 +389,50 @@ export class PredictiveFailureAnalyzer {
     };
   }
 
-  private calculateTimeToFailure(currentValue: number, threshold: number, type: string): string {
-    const remaining = threshold - currentValue;
-    
-    // Simulate different growth rates based on resource type
-    const growthRates: Record<string, number> = {
-      memory: 2.5, // % per hour
-      cpu: 1.8,    // % per hour
-      disk: 0.5,   // % per hour
+  // Extrapolated from the fitted slope; no estimate without enough history heading toward the limit
+  private calculateTimeToFailure(
+    fit: TrendFit | undefined,
+    limit: number
+  ): Pick<FailurePrediction, 'timeToFailure' | 'timeToFailureRange'> {
+    const exhaustion = fit && timeToExhaustion(fit, limit);
+    if (!exhaustion) {
+      return { timeToFailure: 'not projected' };
+    }
+    if (exhaustion.expectedHours === 0) {
+      return { timeToFailure: 'immediate' };
+    }
+    const { earliestHours, latestHours } = exhaustion;
+    return {
+      timeToFailure: this.formatDuration(exhaustion.expectedHours),
+      timeToFailureRange: earliestHours === undefined || latestHours === undefined ? undefined : {
+        earliest: this.formatDuration(earliestHours),
+        latest: Number.isFinite(latestHours) ? this.formatDuration(latestHours) : 'never',
+      },
     };
-    
-    const rate = growthRates[type] || 1;
-    const hoursToFailure = remaining / rate;
-    
-    if (hoursToFailure < 1) {
-      return `${Math.round(hoursToFailure * 60)}m`;
-    } else if (hoursToFailure < 24) {
-      const hours = Math.floor(hoursToFailure);
-      const minutes = Math.round((hoursToFailure - hours) * 60);
-      return `${hours}h ${minutes}m`;
+  }
+
+  private describeTrend(label: string, fit: TrendFit | undefined, unit = '%'): string {
+    if (!fit) {
+      return `${label}: not enough history for a trend yet`;
+    }
+    const direction = fit.slope >= 0 ? 'rising' : 'falling';
+    // Slow growth reads better per day
+    const rate = Math.abs(fit.slope) >= 1
+      ? `${Math.abs(fit.slope).toFixed(1)}${unit} per hour`
+      : `${(Math.abs(fit.slope) * 24).toFixed(1)}${unit} per day`;
+    return `${label} ${direction} ${rate} over the last ${this.formatDuration(fit.spanMs / HOUR_MS)} (${fit.samples} samples)`;
+  }
+
+  private formatDuration(totalHours: number): string {
+    // Round once up front so 1h 59.7m reads 2h 0m, not 1h 60m
+    const totalMinutes = Math.round(totalHours * 60);
+    if (totalMinutes < 60) {
+      return `${totalMinutes}m`;
+    } else if (totalMinutes < 24 * 60) {
+      return `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`;
     } else {
-      const days = Math.floor(hoursToFailure / 24);
-      const hours = Math.round(hoursToFailure % 24);
-      return `${days}d ${hours}h`;
+      const hours = Math.round(totalHours);
+      return `${Math.floor(hours / 24)}d ${hours % 24}h`;
     }
   }
 
@@ -507,22 +568,76 @@ groups:
     };
   }
 
-  // Update monitoring data (simulated real-time updates)
-  updateMonitoringData(clusterId: string, metrics: Partial<LiveMonitoring['metrics']>): void {
-    const current = this.activeMonitoring.get(clusterId);
-    if (current) {
-      current.metrics = { ...current.metrics, ...metrics };
-      current.trends = this.calculateTrends(current.metrics);
-      this.activeMonitoring.set(clusterId, current);
+  // Record samples for a cluster; unknown clusters start being monitored.
+  // Samples older than a series' newest are dropped, so replays cannot rewrite history.
+  updateMonitoringData(
+    clusterId: string,
+    metrics: Partial<LiveMonitoring['metrics']>,
+    timestamp: number = Date.now()
+  ): void {
+    const current = this.activeMonitoring.get(clusterId) ?? this.emptyMonitoring(clusterId);
+    const names = Object.keys(current.metrics) as MetricName[];
+
+    names.forEach(metric => {
+      const value = metrics[metric];
+      if (value !== undefined) {
+        this.metricStore.append(this.seriesKey(clusterId, metric), value, timestamp);
+      }
+    });
+
+    current.metrics = Object.fromEntries(names.map(metric =>
+      [metric, this.metricStore.latest(this.seriesKey(clusterId, metric))?.value ?? current.metrics[metric]]
+    )) as LiveMonitoring['metrics'];
+    current.trends = this.calculateTrends(clusterId);
+    this.activeMonitoring.set(clusterId, current);
+  }
+
+  // Bulk load of one metric's past samples, oldest first, e.g. from a range query
+  recordMetricHistory(clusterId: string, metric: MetricName, samples: Sample[]): void {
+    if (!this.activeMonitoring.has(clusterId)) {
+      this.startMonitoring(clusterId);
+    }
+    const key = this.seriesKey(clusterId, metric);
+    samples.forEach(sample => this.metricStore.append(key, sample.value, sample.timestamp));
+
+    const current = this.activeMonitoring.get(clusterId)!;
+    current.metrics[metric] = this.metricStore.latest(key)?.value ?? current.metrics[metric];
+    current.trends = this.calculateTrends(clusterId);
+  }
+
+  getMetricHistory(clusterId: string, metric: MetricName, query: SeriesQuery = {}): Sample[] {
+    return this.metricStore.query(this.seriesKey(clusterId, metric), query);
+  }
+
+  // Holt's smoothing follows a change in slope sooner; least squares is steadier on noisy series
+  setTrendMethod(method: TrendMethod): void {
+    this.trendMethod = method;
+    this.activeMonitoring.forEach(monitoring => {
+      monitoring.trends = this.calculateTrends(monitoring.clusterId);
+    });
+  }
+
+  private seriesKey(clusterId: string, metric: MetricName): string {
+    return `${clusterId}/${metric}`;
+  }
+
+  // Fitted over the metric's trend window, ending at its newest sample
+  private fitMetric(clusterId: string, metric: MetricName): TrendFit | undefined {
+    const key = this.seriesKey(clusterId, metric);
+    const latest = this.metricStore.latest(key);
+    if (!latest) {
+      return undefined;
     }
+    return fitTrend(this.metricStore.query(key, { since: latest.timestamp - TREND_WINDOWS_MS[metric] }), this.trendMethod);
   }
 
-  private calculateTrends(metrics: LiveMonitoring['metrics']): LiveMonitoring['trends'] {
-    // Simplified trend calculation (in real implementation, this would use historical data)
+  private calculateTrends(clusterId: string): LiveMonitoring['trends'] {
+    const direction = (metric: MetricName) =>
+      trendDirection(this.fitMetric(clusterId, metric), { minSlope: STABLE_SLOPES[metric] });
     return {
-      cpuTrend: metrics.cpuUsage > 70 ? 'increasing' : 'stable',
-      memoryTrend: metrics.memoryUsage > 80 ? 'increasing' : 'stable',
-      errorTrend: metrics.errorRate > 2 ? 'increasing' : 'stable',
+      cpuTrend: direction('cpuUsage'),
+      memoryTrend: direction('memoryUsage'),
+      errorTrend: direction('errorRate'),
     };
   }
 
@@ -0,0 +1,327 @@
+import { z } from 'zod';
+import type { Sample } from './time-series';
+import { LiveMonitoring, MetricName, PredictiveFailureAnalyzer } from './predictive-failure-analysis';
+
+// Prometheus HTTP API responses: https://prometheus.io/docs/prometheus/latest/querying/api/
+// Sample values are strings so that NaN and ±Inf survive JSON.
+const SampleValueSchema = z.tuple([z.number(), z.string()]);
+
+const ResultSchema = z.discriminatedUnion('resultType', [
+  z.object({
+    resultType: z.literal('vector'),
+    result: z.array(z.object({ metric: z.record(z.string()), value: SampleValueSchema })),
+  }),
+  z.object({
+    resultType: z.literal('matrix'),
+    result: z.array(z.object({ metric: z.record(z.string()), values: z.array(SampleValueSchema) })),
+  }),
+  z.object({ resultType: z.literal('scalar'), result: SampleValueSchema }),
+  z.object({ resultType: z.literal('string'), result: SampleValueSchema }),
+]);
+
+const ResponseSchema = z.object({
+  status: z.enum(['success', 'error']),
+  data: ResultSchema.optional(),
+  errorType: z.string().optional(),
+  error: z.string().optional(),
+  warnings: z.array(z.string()).optional(),
+});
+
+export type PrometheusAuth =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string };
+
+export interface PrometheusClientOptions {
+  auth?: PrometheusAuth;
+  // For proxies, client certificates or a stub server replaying canned responses
+  fetch?: typeof fetch;
+  // Server-side evaluation timeout
+  timeoutSeconds?: number;
+}
+
+export interface InstantSample {
+  labels: Record<string, string>;
+  timestamp: number;
+  value: number;
+}
+
+export interface RangeSeries {
+  labels: Record<string, string>;
+  samples: Sample[];
+}
+
+export interface RangeQuery {
+  // Epoch milliseconds
+  start: number;
+  end: number;
+  stepSeconds: number;
+}
+
+export class PrometheusApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorType?: string,
+  ) {
+    super(message);
+    this.name = 'PrometheusApiError';
+  }
+}
+
+// "NaN", "+Inf" and "-Inf" are how Prometheus spells the non-finite values
+function parseSampleValue(value: string): number {
+  if (value === '+Inf') {
+    return Infinity;
+  }
+  if (value === '-Inf') {
+    return -Infinity;
+  }
+  return Number(value);
+}
+
+function toSample([seconds, value]: [number, string]): Sample {
+  return { timestamp: seconds * 1000, value: parseSampleValue(value) };
+}
+
+// Read-only PromQL client for the instant and range query endpoints
+export class PrometheusClient {
+  private readonly fetchImpl: typeof fetch;
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string, private readonly options: PrometheusClientOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  // Scalars come back as a single unlabelled sample
+  async query(promql: string, time?: number): Promise<InstantSample[]> {
+    const params = new URLSearchParams({ query: promql });
+    if (time !== undefined) {
+      params.set('time', String(time / 1000));
+    }
+
+    const data = await this.get('/api/v1/query', params);
+    if (data.resultType === 'vector') {
+      return data.result.map(({ metric, value }) => ({ labels: metric, ...toSample(value) }));
+    }
+    if (data.resultType === 'scalar') {
+      return [{ labels: {}, ...toSample(data.result) }];
+    }
+    throw new PrometheusApiError(`Query returned a ${data.resultType}, expected a vector or scalar: ${promql}`, 200, 'bad_data');
+  }
+
+  async queryRange(promql: string, { start, end, stepSeconds }: RangeQuery): Promise<RangeSeries[]> {
+    const params = new URLSearchParams({
+      query: promql,
+      start: String(start / 1000),
+      end: String(end / 1000),
+      step: String(stepSeconds),
+    });
+
+    const data = await this.get('/api/v1/query_range', params);
+    if (data.resultType !== 'matrix') {
+      throw new PrometheusApiError(`Range query returned a ${data.resultType}, expected a matrix: ${promql}`, 200, 'bad_data');
+    }
+    return data.result.map(({ metric, values }) => ({ labels: metric, samples: values.map(toSample) }));
+  }
+
+  private async get(path: string, params: URLSearchParams): Promise<z.infer<typeof ResultSchema>> {
+    if (this.options.timeoutSeconds) {
+      params.set('timeout', `${this.options.timeoutSeconds}s`);
+    }
+
+    const response = await this.fetchImpl(`${this.baseUrl}${path}?${params}`, {
+      headers: this.buildHeaders(),
+    });
+    // Query errors still carry the JSON envelope, with a 400 or 422 status
+    const body = ResponseSchema.safeParse(await response.json().catch(() => undefined));
+
+    if (!body.success) {
+      throw new PrometheusApiError(`Prometheus API error: ${response.status}, unexpected response body`, response.status);
+    }
+    if (!response.ok || body.data.status === 'error' || !body.data.data) {
+      throw new PrometheusApiError(
+        body.data.error || `Prometheus API error: ${response.status}`,
+        response.status,
+        body.data.errorType,
+      );
+    }
+    body.data.warnings?.forEach(warning => console.warn(`Prometheus warning for ${params.get('query')}: ${warning}`));
+    return body.data.data;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    const auth = this.options.auth ?? { type: 'none' };
+
+    if (auth.type === 'bearer') {
+      headers.Authorization = `Bearer ${auth.token}`;
+    } else if (auth.type === 'basic') {
+      headers.Authorization = `Basic ${btoa(`${auth.username}:${auth.password}`)}`;
+    }
+
+    return headers;
+  }
+}
+
+// PromQL per monitored metric, in the units LiveMonitoring expects (percent, milliseconds).
+// {{selector}} expands to the target's label matchers; {{cluster}} and {{namespace}} to its raw values.
+export type MetricQueryTemplates = Record<MetricName, string>;
+
+// Assumes cAdvisor, kube-state-metrics, kubelet volume stats and a conventional HTTP histogram
+export const DEFAULT_QUERY_TEMPLATES: MetricQueryTemplates = {
+  cpuUsage: '100 * sum(rate(container_cpu_usage_seconds_total{{{selector}}, container!=""}[5m])) / sum(kube_pod_container_resource_limits{{{selector}}, resource="cpu"})',
+  memoryUsage: '100 * sum(container_memory_working_set_bytes{{{selector}}, container!=""}) / sum(kube_pod_container_resource_limits{{{selector}}, resource="memory"})',
+  diskUsage: '100 * max(kubelet_volume_stats_used_bytes{{{selector}}} / kubelet_volume_stats_capacity_bytes{{{selector}}})',
+  networkLatency: '1000 * histogram_quantile(0.99, sum by (le) (rate(http_request_duration_seconds_bucket{{{selector}}}[5m])))',
+  errorRate: '100 * sum(rate(http_requests_total{{{selector}}, code=~"5.."}[5m])) / sum(rate(http_requests_total{{{selector}}}[5m]))',
+};
+
+export interface MonitoringTarget {
+  // Key in PredictiveFailureAnalyzer
+  clusterId: string;
+  namespace?: string;
+  // Value of the cluster label in Prometheus; defaults to clusterId
+  cluster?: string;
+}
+
+export interface PrometheusMonitorOptions {
+  templates?: Partial<MetricQueryTemplates>;
+  // Label that tells clusters apart when one Prometheus (or Thanos) serves several; '' to leave it out
+  clusterLabel?: string;
+  intervalMs?: number;
+  // History loaded with range queries on start, so trends are available from the first poll
+  backfillMs?: number;
+  backfillStepSeconds?: number;
+}
+
+const DEFAULT_MONITOR_OPTIONS = {
+  clusterLabel: 'cluster',
+  intervalMs: 30 * 1000,
+  backfillMs: 2 * 60 * 60 * 1000,
+  backfillStepSeconds: 60,
+};
+
+// Label values go inside double quotes, where backslashes and quotes need escaping
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+export function renderQuery(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown placeholder {{${name}}} in query template: ${template}`);
+    }
+    return variables[name];
+  });
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Polls Prometheus for each target and feeds the samples to the failure analyzer
+export class PrometheusMonitor {
+  private options: PrometheusMonitorOptions & typeof DEFAULT_MONITOR_OPTIONS;
+  private templates: MetricQueryTemplates;
+  private abortController: AbortController | null = null;
+
+  constructor(
+    private readonly client: PrometheusClient,
+    readonly targets: MonitoringTarget[],
+    options: PrometheusMonitorOptions = {},
+    private readonly analyzer: PredictiveFailureAnalyzer = PredictiveFailureAnalyzer.getInstance(),
+  ) {
+    this.options = { ...DEFAULT_MONITOR_OPTIONS, ...options };
+    this.templates = { ...DEFAULT_QUERY_TEMPLATES, ...options.templates };
+  }
+
+  get isRunning(): boolean {
+    return this.abortController !== null;
+  }
+
+  // Backfills, polls once, then keeps polling in the background; resolves after the first poll
+  async start(): Promise<void> {
+    if (this.abortController) {
+      return;
+    }
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    this.targets.forEach(target => this.analyzer.startMonitoring(target.clusterId, target.namespace));
+    if (this.options.backfillMs > 0) {
+      await this.backfill();
+    }
+    await this.poll();
+    void this.run(abortController.signal);
+  }
+
+  stop(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  queriesFor(target: MonitoringTarget): MetricQueryTemplates {
+    const namespace = target.namespace ?? 'default';
+    const cluster = target.cluster ?? target.clusterId;
+    const matchers = [`namespace="${escapeLabelValue(namespace)}"`];
+    if (this.options.clusterLabel) {
+      matchers.unshift(`${this.options.clusterLabel}="${escapeLabelValue(cluster)}"`);
+    }
+    const variables = { selector: matchers.join(', '), cluster, namespace };
+
+    return Object.fromEntries(
+      (Object.keys(this.templates) as MetricName[]).map(metric => [metric, renderQuery(this.templates[metric], variables)])
+    ) as MetricQueryTemplates;
+  }
+
+  // One instant query per metric and target. A failing query leaves that metric out of this round.
+  async poll(time: number = Date.now()): Promise<void> {
+    await Promise.all(this.targets.map(async target => {
+      const queries = Object.entries(this.queriesFor(target)) as Array<[MetricName, string]>;
+      const values = await Promise.all(queries.map(async ([metric, promql]): Promise<Partial<LiveMonitoring['metrics']>> => {
+        try {
+          const [sample] = await this.client.query(promql, time);
+          return sample && Number.isFinite(sample.value) ? { [metric]: sample.value } : {};
+        } catch (error) {
+          console.warn(`Prometheus query for ${target.clusterId} ${metric} failed`, error);
+          return {};
+        }
+      }));
+      this.analyzer.updateMonitoringData(target.clusterId, Object.assign({}, ...values), time);
+    }));
+  }
+
+  async backfill(end: number = Date.now()): Promise<void> {
+    const range = { start: end - this.options.backfillMs, end, stepSeconds: this.options.backfillStepSeconds };
+
+    await Promise.all(this.targets.flatMap(target =>
+      (Object.entries(this.queriesFor(target)) as Array<[MetricName, string]>).map(async ([metric, promql]) => {
+        try {
+          const [series] = await this.client.queryRange(promql, range);
+          if (series) {
+            this.analyzer.recordMetricHistory(target.clusterId, metric, series.samples);
+          }
+        } catch (error) {
+          console.warn(`Prometheus backfill for ${target.clusterId} ${metric} failed`, error);
+        }
+      })
+    ));
+  }
+
+  private async run(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      await sleep(this.options.intervalMs, signal);
+      if (!signal.aborted) {
+        await this.poll();
+      }
+    }
+  }
+}
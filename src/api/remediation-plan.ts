@@ -0,0 +1,371 @@
+import type { ErrorAnalysis } from './kubernetes-error-analyzer';
+import { renderTemplate } from './error-rules';
+import type { ResourceGraph } from './resource-graph';
+
+// Remediation plans as a DAG: fixes for one analysis run in priority order, whole error types
+// wait for the ones they depend on, identical actions run once, and every step says how to
+// check that it worked and how to undo it.
+
+export interface RemediationProbe {
+  description: string;
+  command?: string;
+}
+
+export interface RemediationStep {
+  // The action name, suffixed when the same action runs against different targets
+  id: string;
+  // Position in a valid execution order, starting at 1
+  step: number;
+  action: string;
+  description: string;
+  command?: string;
+  yaml?: string;
+  severity: ErrorAnalysis['severity'];
+  // Error types this step remediates; several when identical actions were merged
+  errorTypes: string[];
+  dependsOn: string[];
+  preconditions: string[];
+  verification: RemediationProbe;
+  // Missing for read-only steps and for ones that cannot be undone
+  rollback?: RemediationProbe;
+  estimatedSeconds: number;
+  estimatedTime: string;
+  // Offset from the start of the plan when every dependency finishes as early as possible
+  earliestStart: number;
+}
+
+export interface RemediationPlan {
+  plan: RemediationStep[];
+  totalSteps: number;
+  // Along the critical path: steps without a dependency between them can run in parallel
+  totalSeconds: number;
+  estimatedDuration: string;
+  criticalPath: string[];
+}
+
+export interface RemediationPlanOptions {
+  // Extra "fix these error types first" edges, added to REMEDIATION_DEPENDENCIES
+  dependencies?: Record<string, string[]>;
+  // Resolves {{workload}} in rollback commands to the pod's owning workload
+  graph?: ResourceGraph;
+}
+
+// Nothing that goes through kubectl can work while the API server is down; pods rejected by
+// a quota never reach the scheduler, so scheduling is only worth judging once quota is fixed
+export const REMEDIATION_DEPENDENCIES: Record<string, string[]> = {
+  pod_crash_loop: ['api_server_connection_failure'],
+  metrics_server_failure: ['api_server_connection_failure'],
+  node_scheduling_failure: ['api_server_connection_failure', 'resource_quota_exceeded'],
+  ip_exhaustion: ['api_server_connection_failure'],
+  image_pull_error: ['api_server_connection_failure'],
+  resource_quota_exceeded: ['api_server_connection_failure'],
+};
+
+const ESTIMATED_SECONDS: Record<string, number> = {
+  restart_kubelet: 30,
+  restart_metrics_server: 45,
+  increase_resources: 15,
+  scale_cluster: 300,
+  expand_cidr: 120,
+  increase_quota: 10,
+  cleanup_pods: 30,
+  verify_image_tag: 20,
+  update_image_tag: 15,
+};
+
+const DEFAULT_SECONDS = 60;
+
+const SEVERITY_ORDER = { critical: 4, high: 3, medium: 2, low: 1 };
+
+// Templates are filled from the analysis variables, like the fixes themselves
+const VERIFICATIONS: Record<string, RemediationProbe> = {
+  restart_kubelet: {
+    description: 'kubelet is active and the API server reports ready',
+    command: 'systemctl is-active kubelet && kubectl get --raw /readyz',
+  },
+  increase_resources: {
+    description: 'The container stops restarting',
+    command: 'kubectl get pod {{pod}} -n {{namespace|default}} -o jsonpath=\'{.status.containerStatuses[*].restartCount}\'',
+  },
+  restart_metrics_server: {
+    description: 'metrics-server rollout completes',
+    command: 'kubectl rollout status deployment metrics-server -n kube-system --timeout=120s',
+  },
+  verify_metrics_server: {
+    description: 'Resource metrics are served again',
+    command: 'kubectl top nodes',
+  },
+  scale_cluster: {
+    description: 'No pods are left Pending',
+    command: 'kubectl get pods -A --field-selector=status.phase=Pending',
+  },
+  expand_cidr: {
+    description: 'Pod sandboxes are created without IP allocation errors',
+    command: 'kubectl get events -A --field-selector reason=FailedCreatePodSandBox',
+  },
+  update_image_tag: {
+    description: 'The image pulls and no pull failures are reported',
+    command: 'kubectl get events -n {{namespace|default}} --field-selector reason=Failed',
+  },
+  increase_quota: {
+    description: 'The quota has headroom for new pods',
+    command: 'kubectl describe resourcequota {{quota}} -n {{namespace|default}}',
+  },
+  cleanup_pods: {
+    description: 'No Failed pods remain',
+    command: 'kubectl get pods -n {{namespace|default}} --field-selector=status.phase=Failed',
+  },
+};
+
+// {{workload}} only resolves through the resource graph; without it the command is left out
+const ROLLBACKS: Record<string, RemediationProbe> = {
+  increase_resources: {
+    description: 'Roll the owning workload back to its previous revision',
+    command: 'kubectl rollout undo {{workload}} -n {{namespace|default}}',
+  },
+  restart_metrics_server: {
+    description: 'Roll metrics-server back to its previous revision',
+    command: 'kubectl rollout undo deployment metrics-server -n kube-system',
+  },
+  update_image_tag: {
+    description: 'Roll the owning workload back to the previous image',
+    command: 'kubectl rollout undo {{workload}} -n {{namespace|default}}',
+  },
+  increase_quota: {
+    description: 'Re-apply the quota saved before the change',
+    command: 'kubectl apply -f quota-backup.yaml',
+  },
+};
+
+const PRECONDITIONS: Record<string, string[]> = {
+  restart_kubelet: ['Shell access to the affected node'],
+  increase_quota: ['Saved the current quota: kubectl get resourcequota {{quota}} -n {{namespace|default}} -o yaml > quota-backup.yaml'],
+  cleanup_pods: ['Logs of the Failed pods have been collected; deleted pods cannot be restored'],
+  expand_cidr: ['A maintenance window: the pod CIDR cannot be shrunk again without recreating nodes'],
+};
+
+// Kinds that `kubectl rollout undo` accepts
+const ROLLOUT_KINDS = ['Deployment', 'StatefulSet', 'DaemonSet'];
+
+// kind/name of the workload owning the analysis' pod, when the graph knows it
+function owningWorkload(variables: Record<string, string>, graph: ResourceGraph | undefined): string | undefined {
+  if (!graph || !variables.pod) {
+    return undefined;
+  }
+  const owner = graph.rootOwner({ kind: 'Pod', name: variables.pod, namespace: variables.namespace || 'default' });
+  return ROLLOUT_KINDS.includes(owner.kind) ? `${owner.kind.toLowerCase()}/${owner.name}` : undefined;
+}
+
+// Diagnostics change nothing, so there is nothing to roll back
+function isReadOnly(action: string): boolean {
+  return /^(check|verify|inspect)_/.test(action);
+}
+
+export function formatDuration(totalSeconds: number): string {
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+}
+
+export function buildRemediationPlan(analyses: ErrorAnalysis[], options: RemediationPlanOptions = {}): RemediationPlan {
+  const steps = new Map<string, RemediationStep>();
+  const idsByKey = new Map<string, string>();
+  // Per error type, the steps that finish its chain; dependents wait for these
+  const chainEnds = new Map<string, Set<string>>();
+  const chainStarts = new Map<string, Set<string>>();
+
+  const sorted = analyses
+    .filter(a => a.autoRemediationAvailable)
+    .sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+
+  for (const analysis of sorted) {
+    const variables = analysis.variables ?? {};
+    const render = (text: string) => renderTemplate(text, variables);
+    const workload = owningWorkload(variables, options.graph);
+    const renderRollback = (text: string) => {
+      if (text.includes('{{workload}}') && !workload) {
+        return undefined;
+      }
+      return renderTemplate(text, { ...variables, ...(workload ? { workload } : {}) });
+    };
+    const fixes = [...analysis.suggestedFixes].sort((a, b) => a.priority - b.priority);
+    let previous: string[] = [];
+    let previousPriority: number | undefined;
+    let current: string[] = [];
+
+    for (const fix of fixes) {
+      // Fixes with equal priority are alternatives to run side by side, not a sequence
+      if (previousPriority !== undefined && fix.priority !== previousPriority) {
+        previous = current;
+        current = [];
+      }
+      previousPriority = fix.priority;
+
+      // Variables are already rendered into the command, so identical keys are identical actions
+      const key = `${fix.action}|${fix.command ?? ''}|${fix.yaml ?? ''}`;
+      let step = steps.get(idsByKey.get(key) ?? '');
+      if (!step) {
+        const sameAction = Array.from(steps.values()).filter(s => s.action === fix.action).length;
+        const id = sameAction > 0 ? `${fix.action}-${sameAction + 1}` : fix.action;
+        idsByKey.set(key, id);
+        const seconds = ESTIMATED_SECONDS[fix.action] ?? DEFAULT_SECONDS;
+        const verification = VERIFICATIONS[fix.action];
+        const rollback = ROLLBACKS[fix.action];
+        step = {
+          id,
+          step: 0,
+          action: fix.action,
+          description: fix.description,
+          command: fix.command,
+          yaml: fix.yaml,
+          severity: analysis.severity,
+          errorTypes: [],
+          dependsOn: [],
+          preconditions: (PRECONDITIONS[fix.action] ?? []).map(render),
+          verification: verification
+            ? { description: verification.description, command: verification.command && render(verification.command) }
+            : { description: fix.command ? 'The command exits successfully' : 'The change is applied without errors' },
+          rollback: isReadOnly(fix.action) || !rollback
+            ? undefined
+            : { description: rollback.description, command: rollback.command && renderRollback(rollback.command) },
+          estimatedSeconds: seconds,
+          estimatedTime: formatDuration(seconds),
+          earliestStart: 0,
+        };
+        steps.set(id, step);
+      }
+
+      if (!step.errorTypes.includes(analysis.errorType)) {
+        step.errorTypes.push(analysis.errorType);
+      }
+      previous.forEach(dependency => addDependency(steps, step!, dependency));
+      current.push(step.id);
+
+      if (previous.length === 0) {
+        addTo(chainStarts, analysis.errorType, step.id);
+      }
+    }
+    current.forEach(id => addTo(chainEnds, analysis.errorType, id));
+  }
+
+  // Whole error types wait for the types they depend on to be remediated and verified
+  for (const [errorType, starts] of chainStarts) {
+    const prerequisites = new Set([...REMEDIATION_DEPENDENCIES[errorType] ?? [], ...options.dependencies?.[errorType] ?? []]);
+    for (const prerequisite of prerequisites) {
+      const ends = chainEnds.get(prerequisite);
+      if (!ends) {
+        continue;
+      }
+      for (const start of starts) {
+        const step = steps.get(start)!;
+        ends.forEach(end => addDependency(steps, step, end));
+        const precondition = `${prerequisite.replace(/_/g, ' ')} remediated and verified`;
+        if (!step.preconditions.includes(precondition)) {
+          step.preconditions.push(precondition);
+        }
+      }
+    }
+  }
+
+  const plan = topologicalOrder(steps);
+  const { totalSeconds, criticalPath } = schedule(plan);
+
+  return {
+    plan,
+    totalSteps: plan.length,
+    totalSeconds,
+    estimatedDuration: formatDuration(totalSeconds),
+    criticalPath,
+  };
+}
+
+function addTo(map: Map<string, Set<string>>, key: string, value: string): void {
+  const values = map.get(key) ?? new Set<string>();
+  values.add(value);
+  map.set(key, values);
+}
+
+// Merged steps can come from rules that order the same actions differently; an edge that
+// would close a cycle is dropped so the plan always stays executable
+function addDependency(steps: Map<string, RemediationStep>, step: RemediationStep, dependency: string): void {
+  if (dependency === step.id || step.dependsOn.includes(dependency) || reaches(steps, dependency, step.id)) {
+    return;
+  }
+  step.dependsOn.push(dependency);
+}
+
+function reaches(steps: Map<string, RemediationStep>, from: string, to: string): boolean {
+  const stack = [from];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === to) {
+      return true;
+    }
+    if (!seen.has(id)) {
+      seen.add(id);
+      stack.push(...(steps.get(id)?.dependsOn ?? []));
+    }
+  }
+  return false;
+}
+
+// Kahn's algorithm; among ready steps the most severe goes first, then insertion order
+function topologicalOrder(steps: Map<string, RemediationStep>): RemediationStep[] {
+  const remaining = new Map(Array.from(steps.values()).map(step => [step.id, step.dependsOn.length]));
+  const order: RemediationStep[] = [];
+
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.entries())
+      .filter(([, pending]) => pending === 0)
+      .map(([id]) => steps.get(id)!)
+      .sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+    const next = ready[0];
+    remaining.delete(next.id);
+    next.step = order.length + 1;
+    order.push(next);
+    for (const step of steps.values()) {
+      if (remaining.has(step.id) && step.dependsOn.includes(next.id)) {
+        remaining.set(step.id, remaining.get(step.id)! - 1);
+      }
+    }
+  }
+
+  return order;
+}
+
+// Longest path through the DAG by duration
+function schedule(order: RemediationStep[]): { totalSeconds: number; criticalPath: string[] } {
+  const finish = new Map<string, number>();
+  const via = new Map<string, string>();
+
+  for (const step of order) {
+    let start = 0;
+    for (const dependency of step.dependsOn) {
+      const end = finish.get(dependency) ?? 0;
+      if (end > start || !via.has(step.id)) {
+        start = Math.max(start, end);
+        via.set(step.id, dependency);
+      }
+    }
+    step.earliestStart = start;
+    finish.set(step.id, start + step.estimatedSeconds);
+  }
+
+  let last: string | undefined;
+  for (const [id, end] of finish) {
+    if (last === undefined || end > finish.get(last)!) {
+      last = id;
+    }
+  }
+
+  const criticalPath: string[] = [];
+  for (let id = last; id !== undefined; id = via.get(id)) {
+    criticalPath.unshift(id);
+  }
+
+  return { totalSeconds: last ? finish.get(last)! : 0, criticalPath };
+}
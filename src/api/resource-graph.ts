@@ -0,0 +1,393 @@
+import { parse, stringify } from 'yaml';
+import type { Issue } from './issues';
+import type { Ingress, ObjectMeta, ResourceKind, Service } from './kubernetes-resources';
+import type { DetectableResources } from './issue-detectors';
+
+// Relationship graph over cluster objects: ownership, Helm releases, Service selection and Ingress routing
+
+export interface ResourceRef {
+  kind: string;
+  name: string;
+  namespace?: string;
+}
+
+export interface GraphNode extends ResourceRef {
+  key: string;
+  uid?: string;
+  labels: Record<string, string>;
+  // Referenced by an ownerReference or Helm metadata but not present in the listed objects
+  virtual: boolean;
+}
+
+export type GraphEdgeType = 'owns' | 'manages' | 'selects' | 'routes';
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: GraphEdgeType;
+}
+
+// Kinds the graph needs on top of whatever the detectors ask for
+export const GRAPH_KINDS: ResourceKind[] = [
+  'Pod',
+  'ReplicaSet',
+  'Deployment',
+  'StatefulSet',
+  'DaemonSet',
+  'Job',
+  'CronJob',
+  'Service',
+  'Ingress',
+];
+
+const HELM_RELEASE_KIND = 'HelmRelease';
+
+// Where the pod template lives inside each workload kind, for retargeting container patches
+export const TEMPLATE_PATHS: Record<string, string[]> = {
+  Deployment: ['spec', 'template'],
+  StatefulSet: ['spec', 'template'],
+  DaemonSet: ['spec', 'template'],
+  ReplicaSet: ['spec', 'template'],
+  Job: ['spec', 'template'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template'],
+};
+
+const API_VERSIONS: Record<string, string> = {
+  Deployment: 'apps/v1',
+  StatefulSet: 'apps/v1',
+  DaemonSet: 'apps/v1',
+  ReplicaSet: 'apps/v1',
+  Job: 'batch/v1',
+  CronJob: 'batch/v1',
+};
+
+export function refKey(ref: ResourceRef): string {
+  return [ref.kind, ref.namespace ?? '', ref.name].join('/');
+}
+
+export function matchesSelector(labels: Record<string, string>, selector: Record<string, string>): boolean {
+  const entries = Object.entries(selector);
+  return entries.length > 0 && entries.every(([k, v]) => labels[k] === v);
+}
+
+export class ResourceGraph {
+  private nodes: Map<string, GraphNode> = new Map();
+  private uidIndex: Map<string, string> = new Map();
+  private outgoing: Map<string, GraphEdge[]> = new Map();
+  private incoming: Map<string, GraphEdge[]> = new Map();
+
+  static fromResources(resources: Partial<DetectableResources>): ResourceGraph {
+    const graph = new ResourceGraph();
+    const objects: Array<{ kind: string; metadata: ObjectMeta }> = [];
+
+    for (const [kind, items] of Object.entries(resources)) {
+      // Events describe objects rather than being part of the topology
+      if (kind === 'Event' || !items) {
+        continue;
+      }
+      for (const item of items as Array<{ metadata: ObjectMeta }>) {
+        graph.addObject(kind, item.metadata);
+        objects.push({ kind, metadata: item.metadata });
+      }
+    }
+
+    // Edges second, so owners listed after their children still resolve by uid
+    for (const { kind, metadata } of objects) {
+      graph.linkOwners(kind, metadata);
+      graph.linkHelmRelease(kind, metadata);
+    }
+
+    for (const service of resources.Service ?? []) {
+      graph.linkServiceSelector(service, resources.Pod ?? []);
+    }
+
+    for (const ingress of resources.Ingress ?? []) {
+      graph.linkIngressBackends(ingress);
+    }
+
+    return graph;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  get(ref: ResourceRef): GraphNode | undefined {
+    return this.nodes.get(refKey(ref));
+  }
+
+  getByUid(uid: string): GraphNode | undefined {
+    const key = this.uidIndex.get(uid);
+    return key ? this.nodes.get(key) : undefined;
+  }
+
+  edgesFrom(ref: ResourceRef, type?: GraphEdgeType): GraphEdge[] {
+    return (this.outgoing.get(refKey(ref)) ?? []).filter(e => !type || e.type === type);
+  }
+
+  edgesTo(ref: ResourceRef, type?: GraphEdgeType): GraphEdge[] {
+    return (this.incoming.get(refKey(ref)) ?? []).filter(e => !type || e.type === type);
+  }
+
+  ownersOf(ref: ResourceRef): GraphNode[] {
+    return this.edgesTo(ref, 'owns').map(e => this.nodes.get(e.from)!);
+  }
+
+  childrenOf(ref: ResourceRef): GraphNode[] {
+    return this.edgesFrom(ref, 'owns').map(e => this.nodes.get(e.to)!);
+  }
+
+  // Pod → ReplicaSet → Deployment, innermost first; the resource itself is not included
+  ownerChain(ref: ResourceRef): GraphNode[] {
+    const chain: GraphNode[] = [];
+    const visited = new Set<string>([refKey(ref)]);
+    let current: ResourceRef = ref;
+
+    for (;;) {
+      const owner = this.ownersOf(current)[0];
+      if (!owner || visited.has(owner.key)) {
+        return chain;
+      }
+      visited.add(owner.key);
+      chain.push(owner);
+      current = owner;
+    }
+  }
+
+  // The workload a fix should target: the outermost owner, or the resource itself if unowned
+  rootOwner(ref: ResourceRef): ResourceRef {
+    const chain = this.ownerChain(ref);
+    const root = chain[chain.length - 1];
+    return root ? { kind: root.kind, name: root.name, namespace: root.namespace } : ref;
+  }
+
+  helmReleaseOf(ref: ResourceRef): string | undefined {
+    for (const candidate of [ref, ...this.ownerChain(ref)]) {
+      const release = this.edgesTo(candidate, 'manages')[0];
+      if (release) {
+        return this.nodes.get(release.from)!.name;
+      }
+    }
+    return undefined;
+  }
+
+  servicesSelecting(pod: ResourceRef): GraphNode[] {
+    return this.edgesTo(pod, 'selects').map(e => this.nodes.get(e.from)!);
+  }
+
+  podsSelectedBy(service: ResourceRef): GraphNode[] {
+    return this.edgesFrom(service, 'selects').map(e => this.nodes.get(e.to)!);
+  }
+
+  ingressesRouting(service: ResourceRef): GraphNode[] {
+    return this.edgesTo(service, 'routes').map(e => this.nodes.get(e.from)!);
+  }
+
+  servicesRoutedBy(ingress: ResourceRef): GraphNode[] {
+    return this.edgesFrom(ingress, 'routes').map(e => this.nodes.get(e.to)!);
+  }
+
+  // Every pod that ultimately belongs to a workload, following ownership downwards
+  podsOf(workload: ResourceRef): GraphNode[] {
+    const pods: GraphNode[] = [];
+    const queue = [workload];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const child of this.childrenOf(current)) {
+        if (visited.has(child.key)) continue;
+        visited.add(child.key);
+        if (child.kind === 'Pod') {
+          pods.push(child);
+        } else {
+          queue.push(child);
+        }
+      }
+    }
+
+    return pods;
+  }
+
+  private addNode(node: Omit<GraphNode, 'key'>): GraphNode {
+    const key = refKey(node);
+    const existing = this.nodes.get(key);
+    if (existing && !existing.virtual) {
+      return existing;
+    }
+
+    const created = { ...node, key };
+    this.nodes.set(key, created);
+    if (node.uid) {
+      this.uidIndex.set(node.uid, key);
+    }
+    return created;
+  }
+
+  private addObject(kind: string, metadata: ObjectMeta): GraphNode {
+    return this.addNode({
+      kind,
+      name: metadata.name,
+      namespace: metadata.namespace,
+      uid: metadata.uid,
+      labels: metadata.labels ?? {},
+      virtual: false,
+    });
+  }
+
+  private addEdge(from: string, to: string, type: GraphEdgeType): void {
+    const edge = { from, to, type };
+    if ((this.outgoing.get(from) ?? []).some(e => e.to === to && e.type === type)) {
+      return;
+    }
+    this.outgoing.set(from, [...(this.outgoing.get(from) ?? []), edge]);
+    this.incoming.set(to, [...(this.incoming.get(to) ?? []), edge]);
+  }
+
+  private linkOwners(kind: string, metadata: ObjectMeta): void {
+    const child = refKey({ kind, name: metadata.name, namespace: metadata.namespace });
+    const owners = metadata.ownerReferences ?? [];
+    // Only follow the controller when there is one; other owners are bookkeeping
+    const controller = owners.find(o => o.controller) ?? owners[0];
+    if (!controller) {
+      return;
+    }
+
+    const ownerKey = this.uidIndex.get(controller.uid);
+    if (ownerKey) {
+      this.addEdge(ownerKey, child, 'owns');
+      return;
+    }
+
+    const owner = this.addNode({
+      kind: controller.kind,
+      name: controller.name,
+      namespace: metadata.namespace,
+      uid: controller.uid,
+      labels: {},
+      virtual: true,
+    });
+    this.addEdge(owner.key, child, 'owns');
+
+    // ReplicaSets were not listed, but the pod-template-hash suffix gives the Deployment away
+    const hash = metadata.labels?.['pod-template-hash'];
+    if (controller.kind === 'ReplicaSet' && hash && controller.name.endsWith(`-${hash}`) && this.ownersOf(owner).length === 0) {
+      const deployment = this.addNode({
+        kind: 'Deployment',
+        name: controller.name.slice(0, -(hash.length + 1)),
+        namespace: metadata.namespace,
+        labels: {},
+        virtual: true,
+      });
+      this.addEdge(deployment.key, owner.key, 'owns');
+    }
+  }
+
+  private linkHelmRelease(kind: string, metadata: ObjectMeta): void {
+    const labels = metadata.labels ?? {};
+    const annotations = metadata.annotations ?? {};
+    const managedByHelm = labels['app.kubernetes.io/managed-by'] === 'Helm' || labels.heritage === 'Helm';
+    const release = annotations['meta.helm.sh/release-name'] ?? (managedByHelm ? labels.release ?? labels['app.kubernetes.io/instance'] : undefined);
+    if (!release) {
+      return;
+    }
+
+    const namespace = annotations['meta.helm.sh/release-namespace'] ?? metadata.namespace;
+    const node = this.addNode({ kind: HELM_RELEASE_KIND, name: release, namespace, labels: {}, virtual: true });
+    this.addEdge(node.key, refKey({ kind, name: metadata.name, namespace: metadata.namespace }), 'manages');
+  }
+
+  private linkServiceSelector(service: Service, pods: DetectableResources['Pod']): void {
+    const selector = service.spec.selector;
+    if (!selector) {
+      return;
+    }
+
+    const serviceKey = refKey({ kind: 'Service', name: service.metadata.name, namespace: service.metadata.namespace });
+    for (const pod of pods) {
+      if (pod.metadata.namespace === service.metadata.namespace && matchesSelector(pod.metadata.labels ?? {}, selector)) {
+        this.addEdge(serviceKey, refKey({ kind: 'Pod', name: pod.metadata.name, namespace: pod.metadata.namespace }), 'selects');
+      }
+    }
+  }
+
+  private linkIngressBackends(ingress: Ingress): void {
+    const { name, namespace } = ingress.metadata;
+    const backends = [
+      ingress.spec.defaultBackend,
+      ...(ingress.spec.rules ?? []).flatMap(rule => rule.http?.paths.map(path => path.backend) ?? []),
+    ];
+
+    const ingressKey = refKey({ kind: 'Ingress', name, namespace });
+    for (const backend of backends) {
+      if (!backend?.service) continue;
+      // Backends are always in the Ingress's own namespace; a missing Service still shows up, as virtual
+      const service = this.addNode({ kind: 'Service', name: backend.service.name, namespace, labels: {}, virtual: true });
+      this.addEdge(ingressKey, service.key, 'routes');
+    }
+  }
+}
+
+// Point issues at the workload that owns the failing object, and move container patches onto its template
+export function rollUpIssues(issues: Issue[], graph: ResourceGraph): Issue[] {
+  return issues.map(issue => {
+    const ref = { ...issue.resource, namespace: issue.namespace || undefined };
+    const root = graph.rootOwner(ref);
+    if (refKey(root) === refKey(ref)) {
+      return issue;
+    }
+
+    const helmRelease = graph.helmReleaseOf(ref);
+    const rolledUp: Issue = {
+      ...issue,
+      owner: { kind: root.kind, name: root.name },
+      helmRelease,
+      suggestedFix: retargetFix(issue, root),
+    };
+
+    if (helmRelease) {
+      rolledUp.aiAnalysis = `${issue.aiAnalysis} ${root.kind} ${root.name} is managed by Helm release ${helmRelease}; carry the change into the chart values or the next upgrade will revert it.`;
+    }
+
+    return rolledUp;
+  });
+}
+
+function retargetFix(issue: Issue, owner: ResourceRef): Issue['suggestedFix'] {
+  const fix = issue.suggestedFix;
+  const templatePath = TEMPLATE_PATHS[owner.kind];
+  if (!fix?.yaml || !templatePath) {
+    return fix;
+  }
+
+  let patch: unknown;
+  try {
+    patch = parse(fix.yaml);
+  } catch {
+    return fix;
+  }
+
+  // Only pod-level container patches need moving; anything else already targets its object
+  const podSpec = (patch as { spec?: { containers?: unknown } } | null)?.spec;
+  if (!podSpec?.containers) {
+    return fix;
+  }
+
+  const retargeted: Record<string, unknown> = {
+    apiVersion: API_VERSIONS[owner.kind],
+    kind: owner.kind,
+    metadata: { name: owner.name, namespace: owner.namespace ?? issue.namespace },
+  };
+  let cursor = retargeted;
+  for (const segment of templatePath) {
+    cursor[segment] = {};
+    cursor = cursor[segment] as Record<string, unknown>;
+  }
+  cursor.spec = podSpec;
+
+  return {
+    ...fix,
+    yaml: stringify(retargeted),
+    command: `kubectl patch ${owner.kind.toLowerCase()} ${owner.name} -n ${owner.namespace ?? issue.namespace} --type strategic --patch-file fix.yaml`,
+  };
+}
@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import { ErrorAnalysis, ErrorAnalysisSchema } from './kubernetes-error-analyzer';
+import { ErrorRuleSet } from './error-rules';
+import { LogParserOptions, parseLogLines } from './log-parsers';
+import { aggregateStackTraces, classifyStackTrace } from './stack-traces';
+
+// Golden-file regression runs for the error rules: real log samples paired with the analyses
+// they must produce. Every line not listed in the expected file must produce nothing.
+
+// Only the fields written down are compared, so expected files stay readable
+export const ExpectedAnalysisSchema = ErrorAnalysisSchema
+  .omit({ category: true })
+  .deepPartial()
+  .extend({
+    // 1-based line where the record (or the first line of a stack trace) starts
+    line: z.number().int().positive(),
+    category: z.enum(['kubernetes', 'application']).optional(),
+  });
+
+export const ExpectedFileSchema = z.array(ExpectedAnalysisSchema);
+
+export type ExpectedAnalysis = z.infer<typeof ExpectedAnalysisSchema>;
+
+export interface GoldenFixture {
+  name: string;
+  log: string;
+  expected: ExpectedAnalysis[];
+}
+
+export interface RegressionMismatch {
+  line: number;
+  kind: 'missing' | 'unexpected' | 'wrong-rule' | 'field';
+  // For field mismatches, the dotted path that differs
+  path?: string;
+  expected?: unknown;
+  actual?: unknown;
+  text: string;
+}
+
+export interface FixtureResult {
+  fixture: string;
+  passed: boolean;
+  mismatches: RegressionMismatch[];
+}
+
+export interface RuleStats {
+  rule: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface RegressionReport {
+  passed: boolean;
+  fixtures: FixtureResult[];
+  rules: RuleStats[];
+  // Lines a rule matched although the fixture expects another rule or nothing at all
+  falseMatches: Array<{ fixture: string; line: number; rule: string; text: string }>;
+}
+
+export interface RegressionOptions extends LogParserOptions {
+  // Defaults to the built-in rules only, so local rule files do not leak into the baseline
+  rules?: ErrorRuleSet;
+}
+
+interface LineAnalysis {
+  line: number;
+  text: string;
+  analysis: ErrorAnalysis;
+}
+
+// Stack traces are classified, not matched by a rule; they are scored under their error type
+function ruleOf(analysis: { ruleId?: string; errorType?: string }): string {
+  return analysis.ruleId ?? analysis.errorType ?? 'unknown';
+}
+
+// An expected entry without a ruleId accepts whichever rule yields the right error type
+function sameRule(expected: ExpectedAnalysis, analysis: ErrorAnalysis): boolean {
+  return expected.ruleId !== undefined ? expected.ruleId === analysis.ruleId : expected.errorType === analysis.errorType;
+}
+
+// Pairs `<name>.log` with `<name>.expected.json`, as laid out in tests/fixtures/error-patterns
+export function goldenFixturesFromFiles(files: Record<string, string>): GoldenFixture[] {
+  const fixtures: GoldenFixture[] = [];
+  for (const [path, log] of Object.entries(files)) {
+    if (!path.endsWith('.log')) {
+      continue;
+    }
+    const base = path.slice(0, -'.log'.length);
+    const expectedText = files[`${base}.expected.json`];
+    if (expectedText === undefined) {
+      throw new Error(`Missing expected output for ${path}: add ${base}.expected.json`);
+    }
+
+    const parsed = ExpectedFileSchema.safeParse(JSON.parse(expectedText));
+    if (!parsed.success) {
+      const details = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid expected output ${base}.expected.json: ${details}`);
+    }
+    fixtures.push({ name: base.split('/').pop()!, log, expected: parsed.data });
+  }
+
+  // An expected file without its log, or no fixtures at all, would otherwise pass vacuously
+  for (const path of Object.keys(files)) {
+    if (path.endsWith('.expected.json') && files[`${path.slice(0, -'.expected.json'.length)}.log`] === undefined) {
+      throw new Error(`Missing log for ${path}: add ${path.slice(0, -'.expected.json'.length)}.log`);
+    }
+  }
+  if (fixtures.length === 0) {
+    throw new Error('No golden fixtures found: expected <name>.log files next to their <name>.expected.json');
+  }
+  return fixtures.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Same pipeline as batchAnalyze, but every analysis keeps the line it came from
+export function analyzeFixtureLog(log: string, options: RegressionOptions = {}): LineAnalysis[] {
+  const rules = options.rules ?? new ErrorRuleSet();
+  const lines = log.split('\n');
+  const results: LineAnalysis[] = [];
+  let cursor = 0;
+
+  for (const { record, trace } of aggregateStackTraces(parseLogLines(lines, options))) {
+    // Runtime wrappers strip their prefix from raw, so look for the payload inside the line
+    const first = (record.raw ?? record.message).split('\n')[0];
+    const index = lines.findIndex((line, i) => i >= cursor && line.includes(first));
+    if (index >= 0) {
+      cursor = index;
+    }
+
+    const analysis = trace ? classifyStackTrace(trace, record) : rules.analyze(record);
+    if (analysis) {
+      results.push({ line: index + 1, text: lines[index] ?? first, analysis });
+    }
+  }
+  return results;
+}
+
+// Lists every place where actual differs from the fields expected spells out
+function diffFields(expected: unknown, actual: unknown, path: string): Array<{ path: string; expected: unknown; actual: unknown }> {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return [{ path, expected, actual }];
+    }
+    return expected.flatMap((item, i) => diffFields(item, actual[i], `${path}[${i}]`));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') {
+      return [{ path, expected, actual }];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      diffFields(value, (actual as Record<string, unknown>)[key], path ? `${path}.${key}` : key));
+  }
+  return expected === actual ? [] : [{ path, expected, actual }];
+}
+
+export function runRuleRegression(fixtures: GoldenFixture[], options: RegressionOptions = {}): RegressionReport {
+  const stats = new Map<string, { truePositives: number; falsePositives: number; falseNegatives: number }>();
+  const count = (rule: string, field: 'truePositives' | 'falsePositives' | 'falseNegatives') => {
+    const entry = stats.get(rule) ?? { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+    entry[field]++;
+    stats.set(rule, entry);
+  };
+  const falseMatches: RegressionReport['falseMatches'] = [];
+
+  const results = fixtures.map(fixture => {
+    const actual = analyzeFixtureLog(fixture.log, options);
+    const lines = fixture.log.split('\n');
+    const mismatches: RegressionMismatch[] = [];
+    const expectedByLine = new Map(fixture.expected.map(e => [e.line, e]));
+    const actualByLine = new Map(actual.map(a => [a.line, a]));
+
+    for (const expected of fixture.expected) {
+      const found = actualByLine.get(expected.line);
+      const text = lines[expected.line - 1] ?? '';
+      if (!found) {
+        count(ruleOf(expected), 'falseNegatives');
+        mismatches.push({ line: expected.line, kind: 'missing', expected: ruleOf(expected), text });
+        continue;
+      }
+      if (!sameRule(expected, found.analysis)) {
+        count(ruleOf(expected), 'falseNegatives');
+        continue;
+      }
+
+      count(ruleOf(found.analysis), 'truePositives');
+      const fields: Partial<ExpectedAnalysis> = { ...expected };
+      delete fields.line;
+      for (const diff of diffFields(fields, found.analysis, '')) {
+        mismatches.push({ line: expected.line, kind: 'field', ...diff, text });
+      }
+    }
+
+    for (const found of actual) {
+      const expected = expectedByLine.get(found.line);
+      const rule = ruleOf(found.analysis);
+      if (expected && sameRule(expected, found.analysis)) {
+        continue;
+      }
+      count(rule, 'falsePositives');
+      falseMatches.push({ fixture: fixture.name, line: found.line, rule, text: found.text });
+      mismatches.push(expected
+        ? { line: found.line, kind: 'wrong-rule', expected: ruleOf(expected), actual: rule, text: found.text }
+        : { line: found.line, kind: 'unexpected', actual: rule, text: found.text });
+    }
+
+    mismatches.sort((a, b) => a.line - b.line);
+    return { fixture: fixture.name, passed: mismatches.length === 0, mismatches };
+  });
+
+  const rules = Array.from(stats.entries())
+    .map(([rule, { truePositives, falsePositives, falseNegatives }]) => ({
+      rule,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives),
+      recall: truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives),
+    }))
+    .sort((a, b) => a.rule.localeCompare(b.rule));
+
+  return { passed: results.every(r => r.passed), fixtures: results, rules, falseMatches };
+}
+
+// Writes the current output as an expected file, for new fixtures; review it before committing
+export function expectedFromLog(log: string, options: RegressionOptions = {}): string {
+  const expected = analyzeFixtureLog(log, options).map(({ line, analysis }) => ({
+    line,
+    ...(analysis.ruleId ? { ruleId: analysis.ruleId } : {}),
+    errorType: analysis.errorType,
+    category: analysis.category,
+    severity: analysis.severity,
+    rootCause: analysis.rootCause,
+    variables: analysis.variables,
+    suggestedFixes: analysis.suggestedFixes.map(fix => ({
+      action: fix.action,
+      ...(fix.command ? { command: fix.command } : {}),
+    })),
+  }));
+  return `${JSON.stringify(expected, null, 2)}\n`;
+}
+
+export function formatRegressionReport(report: RegressionReport): string {
+  const lines = ['rule                                  precision  recall  tp  fp  fn'];
+  for (const rule of report.rules) {
+    lines.push([
+      rule.rule.padEnd(36),
+      rule.precision.toFixed(2).padStart(10),
+      rule.recall.toFixed(2).padStart(7),
+      String(rule.truePositives).padStart(3),
+      String(rule.falsePositives).padStart(3),
+      String(rule.falseNegatives).padStart(3),
+    ].join(' '));
+  }
+
+  for (const fixture of report.fixtures.filter(f => !f.passed)) {
+    lines.push('', `FAIL ${fixture.fixture}`);
+    for (const m of fixture.mismatches) {
+      const detail = m.kind === 'field'
+        ? `${m.path}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`
+        : m.kind === 'missing'
+          ? `expected ${m.expected}, nothing matched`
+          : m.kind === 'wrong-rule'
+            ? `expected ${m.expected}, matched ${m.actual}`
+            : `${m.actual} matched a line expected to produce nothing`;
+      lines.push(`  line ${m.line} ${m.kind}: ${detail}`, `    ${m.text.slice(0, 160)}`);
+    }
+  }
+
+  lines.push('', report.passed ? `All ${report.fixtures.length} fixtures passed` : `${report.fixtures.filter(f => !f.passed).length} of ${report.fixtures.length} fixtures failed`);
+  return lines.join('\n');
+}
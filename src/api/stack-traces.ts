@@ -0,0 +1,450 @@
+import { z } from 'zod';
+import type { ErrorAnalysis, KubernetesError } from './kubernetes-error-analyzer';
+import { renderTemplate, safeVariables } from './error-rules';
+
+// Groups Java, Python and Go stack traces back into one event and classifies the exception
+
+export const StackTraceSchema = z.object({
+  language: z.enum(['java', 'python', 'go']),
+  exceptionType: z.string(),
+  exceptionMessage: z.string(),
+  // Innermost application frame first where the language allows telling
+  frames: z.array(z.string()),
+  // Chained causes ("Caused by:", "During handling of ...")
+  causes: z.array(z.string()),
+});
+
+export type StackTrace = z.infer<typeof StackTraceSchema>;
+export type StackTraceLanguage = StackTrace['language'];
+
+export interface AggregatedEvent {
+  record: KubernetesError;
+  trace?: StackTrace;
+  // Index of the event's first line in the input, to restore order across interleaved streams
+  position: number;
+}
+
+interface LanguageRules {
+  start: RegExp;
+  continuation: RegExp;
+  // A line that belongs to the trace and also finishes it (Python's final exception line)
+  end?: RegExp;
+}
+
+const JAVA_EXCEPTION = /^(?:Exception in thread "[^"]*" )?((?:[a-zA-Z_$][\w$]*\.)+[A-Z][\w$]*(?:Exception|Error|Throwable))(?:: (.*))?$/;
+
+const LANGUAGES: Record<StackTraceLanguage, LanguageRules> = {
+  java: {
+    start: JAVA_EXCEPTION,
+    continuation: /^\s+at |^\s*\.\.\. \d+ (more|common frames omitted)|^Caused by: |^\s+Suppressed: /,
+  },
+  python: {
+    start: /^Traceback \(most recent call last\):/,
+    continuation: /^\s+|^Traceback \(most recent call last\):|^During handling of the above exception|^The above exception was the direct cause/,
+    end: /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/,
+  },
+  go: {
+    start: /^(panic|fatal error): /,
+    continuation: /^goroutine \d+ \[|^\t|^\s+|^[\w./*()[\]-]+\(.*\)$|^\[signal |^exit status \d+|^created by |^\[recovered\]/,
+  },
+};
+
+const PYTHON_CHAIN = /^During handling of the above exception|^The above exception was the direct cause/;
+
+const MAX_TRACE_LINES = 200;
+
+interface OpenTrace {
+  language: StackTraceLanguage;
+  records: KubernetesError[];
+  position: number;
+  // A Python traceback is finished by its exception line, unless a chained exception follows
+  closed: boolean;
+  // Clock readings when the first and the latest line arrived
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Live streams may never send the line that would end a trace, so a trace can also end with time.
+// Neither limit applies by default, which suits input that is read to the end.
+export interface StackTraceAggregatorOptions {
+  // A trace with no new line for this long is complete
+  idleMs?: number;
+  // A trace is emitted this long after its first line even if lines keep arriving
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+// Continuation lines from one container are only merged with that container's trace
+function streamKey(record: KubernetesError): string {
+  return [record.namespace ?? '', record.pod ?? '', record.container ?? ''].join('/');
+}
+
+function detectStart(message: string): StackTraceLanguage | null {
+  for (const language of Object.keys(LANGUAGES) as StackTraceLanguage[]) {
+    if (LANGUAGES[language].start.test(message)) {
+      return language;
+    }
+  }
+  return null;
+}
+
+export class StackTraceAggregator {
+  private open: Map<string, OpenTrace> = new Map();
+  private position = 0;
+  private readonly idleMs: number;
+  private readonly maxAgeMs: number;
+  private readonly now: () => number;
+
+  constructor(options: StackTraceAggregatorOptions = {}) {
+    this.idleMs = options.idleMs ?? Infinity;
+    this.maxAgeMs = options.maxAgeMs ?? Infinity;
+    this.now = options.now ?? Date.now;
+  }
+
+  // Returns events that are complete; a trace is held until a line that does not continue it,
+  // or until it goes idle or reaches its maximum age
+  push(record: KubernetesError): AggregatedEvent[] {
+    const now = this.now();
+    const emitted = this.flushStale(now);
+    const key = streamKey(record);
+    const current = this.open.get(key);
+    const position = this.position++;
+
+    if (current && current.records.length < MAX_TRACE_LINES && this.continues(current, record.message)) {
+      current.records.push(record);
+      current.updatedAt = now;
+      current.closed = current.language === 'python'
+        && !LANGUAGES.python.continuation.test(record.message)
+        && LANGUAGES.python.end!.test(record.message);
+      return emitted;
+    }
+
+    if (current) {
+      this.open.delete(key);
+      emitted.push(finish(current));
+    }
+
+    const language = detectStart(record.message);
+    if (language) {
+      this.open.set(key, { language, records: [record], position, closed: false, startedAt: now, updatedAt: now });
+    } else {
+      emitted.push({ record, position });
+    }
+    return emitted;
+  }
+
+  flush(): AggregatedEvent[] {
+    const events = Array.from(this.open.values()).map(finish);
+    this.open.clear();
+    return events;
+  }
+
+  // Completes traces that went idle or grew too old; call on a timer when input may stall
+  flushStale(now: number = this.now()): AggregatedEvent[] {
+    const events: AggregatedEvent[] = [];
+    for (const [key, trace] of this.open) {
+      if (now - trace.updatedAt >= this.idleMs || now - trace.startedAt >= this.maxAgeMs) {
+        this.open.delete(key);
+        events.push(finish(trace));
+      }
+    }
+    return events;
+  }
+
+  get pending(): number {
+    return this.open.size;
+  }
+
+  private continues(trace: OpenTrace, message: string): boolean {
+    const rules = LANGUAGES[trace.language];
+    if (trace.closed) {
+      // Only a chained exception reopens a finished Python traceback
+      return PYTHON_CHAIN.test(message);
+    }
+    if (rules.continuation.test(message)) {
+      return true;
+    }
+    // The first unindented, exception-shaped line after a Python traceback is its conclusion
+    return trace.language === 'python' && trace.records.length > 1 && !!rules.end?.test(message);
+  }
+}
+
+export function aggregateStackTraces(records: KubernetesError[]): AggregatedEvent[] {
+  const aggregator = new StackTraceAggregator();
+  return [...records.flatMap(record => aggregator.push(record)), ...aggregator.flush()]
+    .sort((a, b) => a.position - b.position);
+}
+
+function finish(trace: OpenTrace): AggregatedEvent {
+  const [first] = trace.records;
+  const lines = trace.records.map(r => r.message);
+  const record: KubernetesError = {
+    ...first,
+    level: 'ERROR',
+    message: lines.join('\n'),
+    raw: trace.records.map(r => r.raw ?? r.message).join('\n'),
+  };
+  return { record, trace: parseTrace(trace.language, lines), position: trace.position };
+}
+
+export function parseTrace(language: StackTraceLanguage, lines: string[]): StackTrace {
+  switch (language) {
+    case 'java': {
+      const [, exceptionType = 'Throwable', exceptionMessage = ''] = lines[0].match(JAVA_EXCEPTION) ?? [];
+      return {
+        language,
+        exceptionType,
+        exceptionMessage,
+        frames: lines.filter(l => /^\s+at /.test(l)).map(l => l.trim().slice(3)),
+        causes: lines.filter(l => l.startsWith('Caused by: ')).map(l => l.slice('Caused by: '.length)),
+      };
+    }
+    case 'python': {
+      const exceptionLines = lines.filter(l => !/^\s/.test(l) && !LANGUAGES.python.continuation.test(l));
+      const last = exceptionLines[exceptionLines.length - 1] ?? '';
+      const [, exceptionType = 'Exception', exceptionMessage = ''] = last.match(LANGUAGES.python.end!) ?? [];
+      const frames = lines
+        .map(l => l.match(/^\s+File "([^"]+)", line (\d+)(?:, in (.+))?/))
+        .filter((m): m is RegExpMatchArray => m !== null)
+        .map(m => `${m[1]}:${m[2]}${m[3] ? ` in ${m[3]}` : ''}`)
+        // most recent call last, so flip it to innermost first
+        .reverse();
+      return { language, exceptionType, exceptionMessage, frames, causes: exceptionLines.slice(0, -1) };
+    }
+    case 'go': {
+      const [, kind, exceptionMessage] = lines[0].match(/^(panic|fatal error): (.*)$/) ?? [];
+      const frames: string[] = [];
+      lines.forEach((line, i) => {
+        if (/^[\w./*()[\]-]+\(.*\)$/.test(line) && lines[i + 1]?.startsWith('\t')) {
+          frames.push(`${line} ${lines[i + 1].trim().replace(/ \+0x[0-9a-f]+$/, '')}`);
+        }
+      });
+      return { language, exceptionType: kind ?? 'panic', exceptionMessage: exceptionMessage ?? '', frames, causes: [] };
+    }
+  }
+}
+
+interface ApplicationErrorClass {
+  errorType: string;
+  test: RegExp;
+  // Both must match for classes that need context, e.g. "refused" and a database driver
+  context?: RegExp;
+  severity: ErrorAnalysis['severity'];
+  summary: string;
+  diagnosis: string;
+  fixes: ErrorAnalysis['suggestedFixes'];
+  prevention: string;
+}
+
+const INSPECT_PREVIOUS_LOGS = {
+  action: 'check_logs',
+  description: 'Read the full output of the crashed container',
+  command: 'kubectl logs {{pod}} -n {{namespace|default}} -c {{container}} --previous',
+  priority: 2,
+};
+
+// First match wins, so the specific classes come before the generic ones
+const APPLICATION_ERROR_CLASSES: ApplicationErrorClass[] = [
+  {
+    errorType: 'app_missing_configuration',
+    test: /KeyError: '[A-Z][A-Z0-9_]+'|environment variable|env var|Could not resolve placeholder|required (?:config|setting|env)|is not set|must be set/i,
+    severity: 'high',
+    summary: 'Application configuration is missing',
+    diagnosis: 'The application expects a setting, typically an environment variable, that is not present in the container.',
+    fixes: [
+      {
+        action: 'add_env_var',
+        description: 'Provide {{envVar|the missing variable}} to the container',
+        yaml: `spec:
+  containers:
+  - name: {{container}}
+    env:
+    - name: {{envVar}}
+      valueFrom:
+        configMapKeyRef:
+          name: <configmap>
+          key: {{envVar}}`,
+        priority: 1,
+      },
+      {
+        action: 'list_env',
+        description: 'List the environment variables the pod actually has',
+        command: "kubectl get pod {{pod}} -n {{namespace|default}} -o jsonpath='{.spec.containers[*].env[*].name}'",
+        priority: 2,
+      },
+    ],
+    prevention: 'Validate required configuration at startup and keep it in ConfigMaps/Secrets referenced by the manifest',
+  },
+  {
+    errorType: 'app_database_connection',
+    test: /connection refused|could not connect|Connection to \S+ refused|Communications link failure|connection reset|timed out|no route to host/i,
+    context: /jdbc|sql|postgres|psycopg|mysql|mariadb|redis|mongo|hikari|OperationalError|:5432|:3306|:6379|:27017/i,
+    severity: 'critical',
+    summary: 'Application cannot reach its database',
+    diagnosis: 'The application failed to open a database connection. The database Service may have no ready endpoints, the host or port may be wrong, or a NetworkPolicy may block the traffic.',
+    fixes: [
+      {
+        action: 'check_db_endpoints',
+        description: 'Check that the database Service has ready endpoints',
+        command: 'kubectl get svc,endpoints -n {{namespace|default}}',
+        priority: 1,
+      },
+      {
+        action: 'test_db_connectivity',
+        description: 'Test connectivity to {{endpoint|the database}} from inside the namespace',
+        command: 'kubectl run db-check --rm -it --restart=Never --image=busybox -n {{namespace|default}} -- nc -zv {{host}} {{port}}',
+        priority: 2,
+      },
+    ],
+    prevention: 'Retry database connections with backoff and gate readiness on database availability',
+  },
+  {
+    errorType: 'app_out_of_memory',
+    test: /OutOfMemoryError|MemoryError|runtime: out of memory|cannot allocate memory/,
+    severity: 'high',
+    summary: 'Application ran out of memory',
+    diagnosis: 'The runtime could not allocate memory. The heap or container limit is too small for the workload, or the application leaks memory.',
+    fixes: [
+      {
+        action: 'increase_resources',
+        description: 'Raise the memory limit of {{container|the container}}',
+        yaml: `spec:
+  containers:
+  - name: {{container}}
+    resources:
+      limits:
+        memory: "1Gi"`,
+        priority: 1,
+      },
+      INSPECT_PREVIOUS_LOGS,
+    ],
+    prevention: 'Size JVM/runtime heap relative to the container limit and profile memory usage',
+  },
+  {
+    errorType: 'app_null_reference',
+    test: /NullPointerException|'NoneType' object|nil pointer dereference|invalid memory address|Cannot read propert/,
+    severity: 'high',
+    summary: 'Application dereferenced a null value',
+    diagnosis: 'Code accessed a field or method on a null/nil value. This is a code defect, often triggered by unexpected input or missing configuration.',
+    fixes: [INSPECT_PREVIOUS_LOGS],
+    prevention: 'Add null checks and input validation at the failing frame; roll back if the defect came with a new release',
+  },
+  {
+    errorType: 'app_connection_refused',
+    test: /connection refused|ECONNREFUSED|ConnectException/i,
+    severity: 'medium',
+    summary: 'Application could not reach a dependency',
+    diagnosis: 'A downstream service refused the connection. It may be down, not yet ready, or addressed by the wrong host or port.',
+    fixes: [
+      {
+        action: 'check_endpoints',
+        description: 'Check that the dependency has ready endpoints',
+        command: 'kubectl get endpoints -n {{namespace|default}}',
+        priority: 1,
+      },
+      INSPECT_PREVIOUS_LOGS,
+    ],
+    prevention: 'Retry with backoff and express startup dependencies through readiness probes',
+  },
+  {
+    errorType: 'app_timeout',
+    test: /TimeoutException|timed? ?out|deadline exceeded/i,
+    severity: 'medium',
+    summary: 'Application call timed out',
+    diagnosis: 'An outbound call exceeded its deadline. The dependency may be overloaded or the timeout too tight.',
+    fixes: [INSPECT_PREVIOUS_LOGS],
+    prevention: 'Tune timeouts per dependency and add circuit breakers',
+  },
+  {
+    errorType: 'app_file_not_found',
+    test: /FileNotFoundError|NoSuchFileException|FileNotFoundException|no such file or directory/i,
+    severity: 'medium',
+    summary: 'Application could not find a file',
+    diagnosis: 'An expected file is missing, usually because a ConfigMap, Secret or volume is not mounted where the application looks.',
+    fixes: [
+      {
+        action: 'check_mounts',
+        description: 'Compare the pod volume mounts with the path the application opens',
+        command: 'kubectl describe pod {{pod}} -n {{namespace|default}}',
+        priority: 1,
+      },
+    ],
+    prevention: 'Mount configuration explicitly and fail fast with a clear message when it is absent',
+  },
+  {
+    errorType: 'app_permission_denied',
+    test: /PermissionError|AccessDeniedException|permission denied/i,
+    severity: 'medium',
+    summary: 'Application was denied access',
+    diagnosis: 'The process lacks filesystem permissions, often because it runs as non-root against a volume owned by root.',
+    fixes: [
+      {
+        action: 'set_fs_group',
+        description: 'Give the pod group ownership of its volumes',
+        yaml: `spec:
+  securityContext:
+    fsGroup: 2000`,
+        priority: 1,
+      },
+    ],
+    prevention: 'Set runAsUser/fsGroup deliberately and test images as non-root',
+  },
+  {
+    errorType: 'app_unhandled_exception',
+    test: /[\s\S]/,
+    severity: 'medium',
+    summary: 'Application raised an unhandled exception',
+    diagnosis: 'The application crashed on an exception it did not handle.',
+    fixes: [INSPECT_PREVIOUS_LOGS],
+    prevention: 'Handle expected failures and report unexpected ones with context',
+  },
+];
+
+// Names worth carrying into fix templates, pulled from the whole trace text
+function traceVariables(text: string): Record<string, string | undefined> {
+  const envVar = text.match(/KeyError: '([A-Z][A-Z0-9_]+)'/)?.[1]
+    ?? text.match(/(?:environment variable|env var|env)\s+"?'?([A-Z][A-Z0-9_]{2,})/i)?.[1]
+    ?? text.match(/\b([A-Z][A-Z0-9_]{2,})\b (?:is not set|must be set)/)?.[1]
+    ?? text.match(/placeholder '([\w.-]+)'/)?.[1];
+  // host:port, but not file.go:12 style source locations
+  const endpoint = Array.from(text.matchAll(/\b((?:[a-z0-9-]+\.)*[a-z0-9-]+):(\d{2,5})\b/gi))
+    .find(m => !/\.(go|py|java|kt|scala|js|ts|rb)$/i.test(m[1]));
+  return { envVar, endpoint: endpoint?.[0], host: endpoint?.[1], port: endpoint?.[2] };
+}
+
+export function classifyStackTrace(trace: StackTrace, record: KubernetesError): ErrorAnalysis {
+  const text = [trace.exceptionType, trace.exceptionMessage, ...trace.causes, record.message].join('\n');
+  const errorClass = APPLICATION_ERROR_CLASSES.find(c => c.test.test(text) && (!c.context || c.context.test(text)))!;
+  const variables = safeVariables({
+    pod: record.pod,
+    namespace: record.namespace,
+    container: record.container,
+    node: record.node,
+    exception: trace.exceptionType,
+    ...traceVariables(text),
+  });
+  const render = (template: string) => renderTemplate(template, variables);
+  const where = trace.frames[0] ? ` at ${trace.frames[0]}` : '';
+  // The innermost cause is usually the actionable one (the driver error under a framework wrapper)
+  const cause = trace.causes.length > 0 ? `, caused by ${trace.causes[trace.causes.length - 1]}` : '';
+
+  return {
+    errorType: errorClass.errorType,
+    severity: errorClass.severity,
+    rootCause: `${errorClass.summary}: ${trace.exceptionType}${trace.exceptionMessage ? ` (${trace.exceptionMessage})` : ''}${where}${cause}`,
+    aiDiagnosis: errorClass.diagnosis,
+    // Application defects need a code or config change; nothing here is safe to apply blindly
+    autoRemediationAvailable: false,
+    suggestedFixes: errorClass.fixes.map(fix => ({
+      ...fix,
+      description: render(fix.description),
+      command: fix.command && render(fix.command),
+      yaml: fix.yaml && render(fix.yaml),
+    })),
+    preventionStrategy: errorClass.prevention,
+    entry: record,
+    variables,
+    category: 'application',
+    stackTrace: trace,
+  };
+}
@@ -0,0 +1,165 @@
+// In-memory metric history with bounded size: recent samples at full resolution, older ones
+// folded into coarser averages, so a week of history costs a few thousand points per series.
+
+export interface Sample {
+  // Epoch milliseconds
+  timestamp: number;
+  value: number;
+}
+
+export interface RetentionTier {
+  // 0 keeps samples as written
+  resolutionMs: number;
+  capacity: number;
+}
+
+export interface SeriesQuery {
+  since?: number;
+  until?: number;
+}
+
+// About an hour of 5s scrapes, a day of minutes and a week of quarter hours
+export const DEFAULT_RETENTION: RetentionTier[] = [
+  { resolutionMs: 0, capacity: 720 },
+  { resolutionMs: 60 * 1000, capacity: 1440 },
+  { resolutionMs: 15 * 60 * 1000, capacity: 672 },
+];
+
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Ring buffer capacity must be a positive integer, got ${capacity}`);
+    }
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  // Overwrites the oldest item once full
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  last(): T | undefined {
+    return this.items.length === 0 ? undefined : this.items[(this.start + this.items.length - 1) % this.items.length];
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+class Tier {
+  private buffer: RingBuffer<Sample>;
+  // The bucket still being filled
+  private open: { start: number; valueSum: number; timeSum: number; count: number } | null = null;
+
+  constructor(readonly resolutionMs: number, capacity: number) {
+    this.buffer = new RingBuffer(capacity);
+  }
+
+  add(sample: Sample): void {
+    if (this.resolutionMs === 0) {
+      this.buffer.push(sample);
+      return;
+    }
+
+    const start = Math.floor(sample.timestamp / this.resolutionMs) * this.resolutionMs;
+    if (this.open && this.open.start !== start) {
+      this.buffer.push(this.point(this.open));
+      this.open = null;
+    }
+    if (!this.open) {
+      this.open = { start, valueSum: 0, timeSum: 0, count: 0 };
+    }
+    this.open.valueSum += sample.value;
+    this.open.timeSum += sample.timestamp;
+    this.open.count++;
+  }
+
+  // Includes the open bucket, so the newest samples are never missing from a coarse tier
+  samples(): Sample[] {
+    const closed = this.buffer.toArray();
+    return this.open ? [...closed, this.point(this.open)] : closed;
+  }
+
+  // Stamped at the mean time of its samples rather than the bucket start, which keeps fits unbiased
+  private point(bucket: { valueSum: number; timeSum: number; count: number }): Sample {
+    return { timestamp: bucket.timeSum / bucket.count, value: bucket.valueSum / bucket.count };
+  }
+}
+
+export class TimeSeriesStore {
+  private series: Map<string, Tier[]> = new Map();
+  private latestSamples: Map<string, Sample> = new Map();
+
+  constructor(private retention: RetentionTier[] = DEFAULT_RETENTION) {
+    if (retention.length === 0) {
+      throw new Error('Time series retention needs at least one tier');
+    }
+    retention.forEach((tier, i) => {
+      if (i > 0 && tier.resolutionMs <= retention[i - 1].resolutionMs) {
+        throw new Error('Time series retention tiers must be ordered from finest to coarsest resolution');
+      }
+    });
+  }
+
+  // Samples no newer than the series' latest are dropped; returns whether it was kept
+  append(key: string, value: number, timestamp: number = Date.now()): boolean {
+    const latest = this.latestSamples.get(key);
+    if (!Number.isFinite(value) || (latest && timestamp <= latest.timestamp)) {
+      return false;
+    }
+
+    let tiers = this.series.get(key);
+    if (!tiers) {
+      tiers = this.retention.map(({ resolutionMs, capacity }) => new Tier(resolutionMs, capacity));
+      this.series.set(key, tiers);
+    }
+    const sample = { timestamp, value };
+    tiers.forEach(tier => tier.add(sample));
+    this.latestSamples.set(key, sample);
+    return true;
+  }
+
+  // Oldest first, at the finest resolution still retained for each stretch of time
+  query(key: string, { since = -Infinity, until = Infinity }: SeriesQuery = {}): Sample[] {
+    const tiers = this.series.get(key);
+    if (!tiers) {
+      return [];
+    }
+
+    let samples: Sample[] = [];
+    for (const tier of tiers) {
+      const oldest = samples.length > 0 ? samples[0].timestamp : Infinity;
+      samples = [...tier.samples().filter(s => s.timestamp < oldest), ...samples];
+      if (samples.length > 0 && samples[0].timestamp <= since) {
+        break;
+      }
+    }
+    return samples.filter(s => s.timestamp >= since && s.timestamp <= until);
+  }
+
+  latest(key: string): Sample | undefined {
+    return this.latestSamples.get(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  delete(key: string): void {
+    this.series.delete(key);
+    this.latestSamples.delete(key);
+  }
+}
@@ -0,0 +1,181 @@
+import type { Sample } from './time-series';
+
+// Trend fits over a metric's history, and extrapolation of the fitted slope to a limit.
+// Rates are per hour; the fitted level is at the newest sample.
+
+export type TrendMethod = 'least-squares' | 'holt';
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+
+export interface TrendFit {
+  method: TrendMethod;
+  // Units per hour
+  slope: number;
+  // Undefined below three samples, which leave no residuals to estimate it from
+  slopeStdError?: number;
+  // Fitted value at `at`, the newest sample's time
+  level: number;
+  at: number;
+  residualStdDev: number;
+  samples: number;
+  spanMs: number;
+  // Share of the variance the line explains; least squares only
+  rSquared?: number;
+}
+
+// Smoothing as half-lives rather than per-sample weights, so it behaves the same at any scrape interval
+export interface HoltOptions {
+  // How quickly an old level stops mattering; shorter follows recent samples more closely
+  levelHalfLifeMs?: number;
+  trendHalfLifeMs?: number;
+}
+
+export interface TrendOptions {
+  // Slopes smaller than this (units per hour) count as stable however confident the fit
+  minSlope?: number;
+  // Standard errors the slope must clear to count as a trend
+  z?: number;
+}
+
+export interface Exhaustion {
+  // Hours until the fitted line reaches the limit; 0 once it is there
+  expectedHours: number;
+  // Band from the slope's standard error, absent without one; latest is Infinity when the slope could be flat
+  earliestHours?: number;
+  latestHours?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Sum of squared deviations of the sample times, in hours², for slope standard errors
+function timeSpread(samples: Sample[], origin: number): { meanX: number; sxx: number } {
+  const xs = samples.map(s => (s.timestamp - origin) / HOUR_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  return { meanX, sxx: xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0) };
+}
+
+// Ordinary least squares line through the samples; undefined when they cannot define a slope
+export function linearFit(samples: Sample[]): TrendFit | undefined {
+  const n = samples.length;
+  if (n < 2) {
+    return undefined;
+  }
+  // Times measured back from the newest sample, so the intercept is the current level
+  const at = samples[n - 1].timestamp;
+  const { meanX, sxx } = timeSpread(samples, at);
+  if (sxx === 0) {
+    return undefined;
+  }
+
+  const meanY = samples.reduce((sum, s) => sum + s.value, 0) / n;
+  const sxy = samples.reduce((sum, s) => sum + ((s.timestamp - at) / HOUR_MS - meanX) * (s.value - meanY), 0);
+  const slope = sxy / sxx;
+  const level = meanY - slope * meanX;
+
+  const sse = samples.reduce((sum, s) => sum + (s.value - (level + slope * (s.timestamp - at) / HOUR_MS)) ** 2, 0);
+  const sst = samples.reduce((sum, s) => sum + (s.value - meanY) ** 2, 0);
+  const residualStdDev = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+
+  return {
+    method: 'least-squares',
+    slope,
+    slopeStdError: n > 2 ? residualStdDev / Math.sqrt(sxx) : undefined,
+    level,
+    at,
+    residualStdDev,
+    samples: n,
+    spanMs: at - samples[0].timestamp,
+    rSquared: sst === 0 ? 1 : 1 - sse / sst,
+  };
+}
+
+// Holt's linear (double exponential) smoothing, adapted to uneven sample spacing.
+// Reacts to a change in slope sooner than a line fitted over the whole window.
+export function holtFit(
+  samples: Sample[],
+  { levelHalfLifeMs = 5 * 60 * 1000, trendHalfLifeMs = 30 * 60 * 1000 }: HoltOptions = {}
+): TrendFit | undefined {
+  const n = samples.length;
+  if (n < 2 || samples[n - 1].timestamp === samples[0].timestamp) {
+    return undefined;
+  }
+
+  let level = samples[0].value;
+  let trend = 0;
+  let squaredErrors = 0;
+  let errors = 0;
+  let previous = samples[0].timestamp;
+
+  samples.slice(1).forEach((sample, i) => {
+    const elapsed = sample.timestamp - previous;
+    const dt = elapsed / HOUR_MS;
+    if (dt <= 0) {
+      return;
+    }
+    if (i === 0) {
+      // Seed the trend with the first step
+      trend = (sample.value - level) / dt;
+    } else {
+      const forecast = level + trend * dt;
+      squaredErrors += (sample.value - forecast) ** 2;
+      errors++;
+    }
+    const alpha = 1 - Math.pow(0.5, elapsed / levelHalfLifeMs);
+    const beta = 1 - Math.pow(0.5, elapsed / trendHalfLifeMs);
+    const nextLevel = alpha * sample.value + (1 - alpha) * (level + trend * dt);
+    trend = beta * (nextLevel - level) / dt + (1 - beta) * trend;
+    level = nextLevel;
+    previous = sample.timestamp;
+  });
+
+  const at = samples[n - 1].timestamp;
+  const residualStdDev = errors > 0 ? Math.sqrt(squaredErrors / errors) : 0;
+  // Approximated as for a line, with Holt's one-step-ahead errors standing in for residuals
+  const { sxx } = timeSpread(samples, at);
+
+  return {
+    method: 'holt',
+    slope: trend,
+    slopeStdError: errors > 0 ? residualStdDev / Math.sqrt(sxx) : undefined,
+    level,
+    at,
+    residualStdDev,
+    samples: n,
+    spanMs: at - samples[0].timestamp,
+  };
+}
+
+export function fitTrend(samples: Sample[], method: TrendMethod = 'least-squares', holt?: HoltOptions): TrendFit | undefined {
+  return method === 'holt' ? holtFit(samples, holt) : linearFit(samples);
+}
+
+// Stable unless the slope clears its standard error, so too short a history never reads as a trend
+export function trendDirection(fit: TrendFit | undefined, { minSlope = 0, z = 2 }: TrendOptions = {}): TrendDirection {
+  if (!fit || fit.slopeStdError === undefined || Math.abs(fit.slope) <= minSlope || Math.abs(fit.slope) <= z * fit.slopeStdError) {
+    return 'stable';
+  }
+  return fit.slope > 0 ? 'increasing' : 'decreasing';
+}
+
+// When the fitted line crosses an upper limit; undefined when it is not heading there.
+// The band ignores uncertainty in the level, so it is narrow for short, noisy series.
+export function timeToExhaustion(fit: TrendFit, limit: number, z = 1.96): Exhaustion | undefined {
+  const remaining = limit - fit.level;
+  if (remaining <= 0) {
+    return { expectedHours: 0, earliestHours: 0, latestHours: 0 };
+  }
+  if (fit.slope <= 0) {
+    return undefined;
+  }
+
+  const expectedHours = remaining / fit.slope;
+  if (fit.slopeStdError === undefined) {
+    return { expectedHours };
+  }
+  const fastest = fit.slope + z * fit.slopeStdError;
+  const slowest = fit.slope - z * fit.slopeStdError;
+  return {
+    expectedHours,
+    earliestHours: remaining / fastest,
+    latestHours: slowest > 0 ? remaining / slowest : Infinity,
+  };
+}
@@ -382,7 +382,7 @@ const CICDIntegration: React.FC = () => {
                     </span>
                   </div>
                   
-                  <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div className="grid grid-cols-4 gap-2 text-xs">
                     <div>
                       <span className="text-gray-600 dark:text-gray-400">Completed:</span>
                       <span className="ml-1 font-medium text-green-600 dark:text-green-400">
@@ -401,6 +401,12 @@ const CICDIntegration: React.FC = () => {
                         {execution.fixes.filter(f => f.status === 'requires-approval').length}
                       </span>
                     </div>
+                    <div>
+                      <span className="text-gray-600 dark:text-gray-400">Denied:</span>
+                      <span className="ml-1 font-medium text-gray-700 dark:text-gray-300">
+                        {execution.fixes.filter(f => f.status === 'denied').length}
+                      </span>
+                    </div>
                   </div>
                   
                   {execution.gitopsCommit && execution.gitopsCommit.committed && (
@@ -1,13 +1,20 @@
-import React from 'react';
-import { CheckCircle, AlertTriangle, XCircle, Activity, TrendingUp } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, Activity } from 'lucide-react';
+import { IssueTracker, IssueStatus, TrackedIssue } from '../../api/issue-tracker';
+import { HealthReport, findingFromIssue, scoreClusterHealth } from '../../api/health-score';
+
+const ACTIVE_STATUSES: IssueStatus[] = ['open', 'acknowledged', 'remediating', 'reopened'];
+
+// Same score model as KubernetesAI.analyzeClusterHealth, over the issues still active
+const scoreIssues = (issues: TrackedIssue[]): HealthReport =>
+  scoreClusterHealth(issues.filter(i => ACTIVE_STATUSES.includes(i.status)).map(findingFromIssue));
 
 const ClusterHealth: React.FC = () => {
-  const clusterStats = {
-    total: 3,
-    healthy: 2,
-    warning: 1,
-    critical: 0
-  };
+  const [report, setReport] = useState<HealthReport>(() => scoreIssues(IssueTracker.getInstance().list()));
+
+  useEffect(() => {
+    return IssueTracker.getInstance().subscribe(issues => setReport(scoreIssues(issues)));
+  }, []);
 
   const health = [
     { name: 'Production', status: 'healthy', uptime: '99.98%', nodes: 8, pods: 42, cpu: 67, memory: 45 },
@@ -41,35 +48,53 @@ const ClusterHealth: React.FC = () => {
     }
   };
 
+  const getScoreClass = (score: number) => {
+    if (score >= 85) return 'text-green-600 dark:text-green-400';
+    if (score >= 60) return 'text-amber-600 dark:text-amber-400';
+    return 'text-red-600 dark:text-red-400';
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
       <div className="p-6">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Cluster Health</h2>
-          <div className="flex items-center text-sm text-green-600 dark:text-green-400">
-            <TrendingUp size={16} className="mr-1" />
-            +2.3% this week
+          <div className="flex items-center">
+            {getStatusIcon(report.status)}
+            <span className="ml-2 text-2xl font-bold text-gray-900 dark:text-white">{report.score}</span>
+            <span className="ml-1 text-sm text-gray-600 dark:text-gray-400">/ 100</span>
           </div>
         </div>
         
-        <div className="grid grid-cols-4 gap-4 mb-8">
-          <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Total Clusters</p>
-            <p className="text-2xl font-bold text-gray-900 dark:text-white">{clusterStats.total}</p>
-          </div>
-          <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
-            <p className="text-sm text-green-600 dark:text-green-400 mb-1">Healthy</p>
-            <p className="text-2xl font-bold text-green-600 dark:text-green-400">{clusterStats.healthy}</p>
-          </div>
-          <div className="bg-amber-50 dark:bg-amber-900/20 rounded-lg p-4">
-            <p className="text-sm text-amber-600 dark:text-amber-400 mb-1">Warning</p>
-            <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">{clusterStats.warning}</p>
-          </div>
-          <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
-            <p className="text-sm text-red-600 dark:text-red-400 mb-1">Critical</p>
-            <p className="text-2xl font-bold text-red-600 dark:text-red-400">{clusterStats.critical}</p>
-          </div>
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          {report.dimensions.map(dimension => (
+            <div key={dimension.dimension} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-1 capitalize">
+                {dimension.dimension} <span className="text-xs">({Math.round(dimension.weight * 100)}%)</span>
+              </p>
+              <p className={`text-2xl font-bold ${getScoreClass(dimension.score)}`}>{Math.round(dimension.score)}</p>
+            </div>
+          ))}
         </div>
+
+        {report.deductions.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Where the points went</h3>
+            <div className="space-y-2">
+              {report.deductions.slice(0, 5).map(deduction => (
+                <div key={deduction.findingId} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {deduction.title}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {deduction.namespace || 'cluster'} · {deduction.dimension}
+                    </span>
+                  </span>
+                  <span className="font-medium text-red-600 dark:text-red-400">-{deduction.impact}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         
         <div className="space-y-4">
           {health.map((cluster, index) => (
@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { AlertTriangle, CheckCircle, Clock, Zap, Brain, Play, Pause } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Clock, Zap, Brain, Play, Pause, Sparkles, FilePlus } from 'lucide-react';
 import { KubernetesErrorAnalyzer } from '../../api/kubernetes-error-analyzer';
+import { KubernetesAI } from '../../api/kubernetes';
+import { LogTemplate } from '../../api/log-templates';
+import { RemediationPlan } from '../../api/remediation-plan';
+import { IncidentSymptom } from '../../api/incident-correlation';
 
 const LiveErrorAnalysis: React.FC = () => {
   const [isAnalyzing, setIsAnalyzing] = useState(true);
   const [analysisResults, setAnalysisResults] = useState<any>(null);
-  const [remediationPlan, setRemediationPlan] = useState<any>(null);
+  const [remediationPlan, setRemediationPlan] = useState<RemediationPlan | null>(null);
   const [autoRemediationEnabled, setAutoRemediationEnabled] = useState(false);
+  const [newTemplates, setNewTemplates] = useState<LogTemplate[]>([]);
+  const [templateError, setTemplateError] = useState<string | null>(null);
 
   // Real Kubernetes error logs from the user's input
   const realErrorLogs = [
@@ -19,6 +25,12 @@ const LiveErrorAnalysis: React.FC = () => {
     'E0609 05:23:26.234567    1 controller_utils.go:1031] Error syncing job: failed to create pods: exceeded quota: default-quota, requested: pods=1, used: pods=10, limited: pods=10'
   ];
 
+  useEffect(() => {
+    const miner = KubernetesErrorAnalyzer.getInstance().getTemplateMiner();
+    setNewTemplates(miner.templates());
+    return miner.subscribe(setNewTemplates);
+  }, []);
+
   useEffect(() => {
     const analyzer = KubernetesErrorAnalyzer.getInstance();
     
@@ -27,7 +39,8 @@ const LiveErrorAnalysis: React.FC = () => {
       setAnalysisResults(results);
       
       if (results.analyses.length > 0) {
-        const plan = analyzer.generateRemediationPlan(results.analyses);
+        // Rollbacks can name the owning workload once cluster detection has built the graph
+        const plan = analyzer.generateRemediationPlan(results.analyses, { graph: KubernetesAI.getInstance().getResourceGraph() });
         setRemediationPlan(plan);
       }
     };
@@ -35,6 +48,27 @@ const LiveErrorAnalysis: React.FC = () => {
     runAnalysis();
   }, []);
 
+  const promoteTemplate = async (templateId: string) => {
+    const analyzer = KubernetesErrorAnalyzer.getInstance();
+    setTemplateError(null);
+    try {
+      analyzer.promoteTemplate(templateId);
+
+      // Re-run so lines the new rule covers show up as detected issues
+      const results = await analyzer.batchAnalyze(realErrorLogs);
+      setAnalysisResults(results);
+      setRemediationPlan(analyzer.generateRemediationPlan(results.analyses, { graph: KubernetesAI.getInstance().getResourceGraph() }));
+    } catch (error) {
+      setTemplateError(`Could not promote template: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Analyses explained by another one in the same batch
+  const symptomOf = (analysis: unknown): IncidentSymptom | undefined =>
+    analysisResults?.incidents
+      .flatMap((incident: { symptoms: IncidentSymptom[] }) => incident.symptoms)
+      .find((symptom: IncidentSymptom) => symptom.analysis === analysis);
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -131,6 +165,17 @@ const LiveErrorAnalysis: React.FC = () => {
                     </span>
                   </div>
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{analysis.rootCause}</p>
+                  {analysis.entry && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      {analysis.entry.component}
+                      {analysis.entry.pod && ` · ${analysis.entry.namespace ? `${analysis.entry.namespace}/` : ''}${analysis.entry.pod}`}
+                    </p>
+                  )}
+                  {symptomOf(analysis) && (
+                    <p className="text-xs text-purple-600 dark:text-purple-400 mb-2">
+                      Likely a symptom of {symptomOf(analysis)!.causedBy.errorType.replace(/_/g, ' ')} ({symptomOf(analysis)!.reason})
+                    </p>
+                  )}
                   <p className="text-xs text-blue-600 dark:text-blue-400 italic mb-3">{analysis.aiDiagnosis}</p>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
@@ -157,7 +202,7 @@ const LiveErrorAnalysis: React.FC = () => {
               <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
                 <div className="flex items-center justify-between mb-4">
                   <div className="text-sm text-gray-600 dark:text-gray-400">
-                    {remediationPlan.totalSteps} steps • Est. {remediationPlan.estimatedDuration}
+                    {remediationPlan.totalSteps} steps • Est. {remediationPlan.estimatedDuration} on the critical path
                   </div>
                   <button className="flex items-center px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
                     <Play size={14} className="mr-1" />
@@ -165,7 +210,7 @@ const LiveErrorAnalysis: React.FC = () => {
                   </button>
                 </div>
                 <div className="space-y-3 max-h-64 overflow-y-auto">
-                  {remediationPlan.plan.map((step: any, index: number) => (
+                  {remediationPlan.plan.map((step, index) => (
                     <div key={index} className="flex items-start space-x-3 p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
                       <div className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs font-medium flex items-center justify-center">
                         {step.step}
@@ -177,8 +222,15 @@ const LiveErrorAnalysis: React.FC = () => {
                             {step.command}
                           </code>
                         )}
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Verify: {step.verification.command ?? step.verification.description}
+                        </p>
                         <div className="flex items-center justify-between mt-2">
-                          <span className="text-xs text-gray-500 dark:text-gray-400">Est. {step.estimatedTime}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            Est. {step.estimatedTime}
+                            {step.dependsOn.length > 0 && ` • after ${step.dependsOn.map(id => `#${remediationPlan.plan.find(s => s.id === id)?.step}`).join(', ')}`}
+                            {remediationPlan.criticalPath.includes(step.id) && ' • critical path'}
+                          </span>
                           <button className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300">
                             View Details
                           </button>
@@ -191,6 +243,44 @@ const LiveErrorAnalysis: React.FC = () => {
             )}
           </div>
         </div>
+
+        {/* Unmatched lines, grouped into templates */}
+        {newTemplates.length > 0 && (
+          <div className="mt-6">
+            <h3 className="flex items-center text-md font-medium text-gray-900 dark:text-white mb-4">
+              <Sparkles size={16} className="text-purple-500 mr-2" />
+              What's New in the Logs
+            </h3>
+            {templateError && (
+              <div className="flex items-center text-red-500 text-sm mb-2">
+                <AlertTriangle size={16} className="mr-1 flex-shrink-0" />
+                {templateError}
+              </div>
+            )}
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {newTemplates.map(template => (
+                <div key={template.id} className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                  <div className="flex-1 min-w-0 mr-3">
+                    <code className="text-xs text-gray-900 dark:text-white break-all" title={template.examples.join('\n')}>
+                      {template.template}
+                    </code>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {template.count}× · {template.level} · first seen {new Date(template.firstSeen).toLocaleString()}
+                      {template.components.length > 0 && ` · ${template.components.join(', ')}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => promoteTemplate(template.id)}
+                    className="flex-shrink-0 flex items-center px-2 py-1 text-xs bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400 rounded-lg hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors"
+                  >
+                    <FilePlus size={12} className="mr-1" />
+                    Promote to rule
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
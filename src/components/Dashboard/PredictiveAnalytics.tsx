@@ -154,6 +154,11 @@ const PredictiveAnalytics: React.FC = () => {
                     <Clock size={14} className="text-gray-500 mr-1" />
                     <span className="text-sm text-gray-600 dark:text-gray-400">
                       Predicted in: <span className="font-medium text-gray-900 dark:text-white">{prediction.timeToFailure}</span>
+                      {prediction.timeToFailureRange && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">
+                          (95% band: {prediction.timeToFailureRange.earliest} – {prediction.timeToFailureRange.latest})
+                        </span>
+                      )}
                     </span>
                   </div>
 
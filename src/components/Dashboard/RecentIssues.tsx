@@ -1,49 +1,66 @@
-import React from 'react';
-import { AlertCircle, ArrowRight, Clock, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { AlertCircle, ArrowRight, Clock, CheckCircle, AlertTriangle, XCircle, RotateCcw } from 'lucide-react';
+import { IssueTracker, IssueStatus, TrackedIssue, TrackedIssueSchema } from '../../api/issue-tracker';
+import api from '../../services/api';
+
+const formatRelative = (iso: string) => {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
 
 const RecentIssues: React.FC = () => {
-  const issues = [
-    {
-      id: 'ISSUE-3421',
-      title: 'CoreDNS resolution failures in production',
-      severity: 'high',
-      timestamp: '10 minutes ago',
-      cluster: 'Production',
-      aiAnalysis: 'DNS cache poisoning detected. Auto-remediation applied.',
-      status: 'resolved',
-      type: 'network'
-    },
-    {
-      id: 'ISSUE-3420',
-      title: 'Persistent volume claim pending in staging',
-      severity: 'medium',
-      timestamp: '1 hour ago',
-      cluster: 'Staging',
-      aiAnalysis: 'Storage class misconfiguration. Manual action required.',
-      status: 'pending',
-      type: 'storage'
-    },
-    {
-      id: 'ISSUE-3419',
-      title: 'Deployment failed due to image pull error',
-      severity: 'medium',
-      timestamp: '3 hours ago',
-      cluster: 'Development',
-      aiAnalysis: 'Invalid image tag in deployment spec. Auto-remediation available.',
-      status: 'pending',
-      type: 'deployment'
-    },
-    {
-      id: 'ISSUE-3418',
-      title: 'High memory usage on worker nodes',
-      severity: 'low',
-      timestamp: '6 hours ago',
-      cluster: 'Production',
-      aiAnalysis: 'Memory optimization recommendations generated.',
-      status: 'in_progress',
-      type: 'resource'
+  const [issues, setIssues] = useState<TrackedIssue[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const tracker = IssueTracker.getInstance();
+    let cancelled = false;
+
+    const loadIssues = async () => {
+      try {
+        const response = await api.issues.getAll();
+        const parsed = z.array(TrackedIssueSchema).parse(response.issues);
+        if (!cancelled) setIssues(parsed.slice(0, 4));
+      } catch {
+        // Backend unavailable; show what this session has detected itself
+        if (!cancelled) setIssues(tracker.list().slice(0, 4));
+      }
+    };
+
+    loadIssues();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const acknowledge = async (issue: TrackedIssue) => {
+    const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+    setActionError(null);
+
+    let updated: TrackedIssue;
+    try {
+      updated = TrackedIssueSchema.parse(await api.issues.transition(issue.fingerprint, 'acknowledged'));
+    } catch (error) {
+      // fetch rejects with a TypeError only when the backend is unreachable; the backend refusing stands
+      if (!(error instanceof TypeError)) {
+        setActionError(`Could not acknowledge ${issue.title}: ${message(error)}`);
+        return;
+      }
+      try {
+        updated = IssueTracker.getInstance().transition(issue.fingerprint, 'acknowledged');
+      } catch (localError) {
+        setActionError(`Could not acknowledge ${issue.title}: backend unreachable (${message(error)}), local tracker: ${message(localError)}`);
+        return;
+      }
     }
-  ];
+    setIssues(current => current.map(i => (i.fingerprint === updated.fingerprint ? updated : i)));
+  };
 
   const getSeverityBadge = (severity: string) => {
     switch (severity) {
@@ -58,30 +75,34 @@ const RecentIssues: React.FC = () => {
     }
   };
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: IssueStatus) => {
     switch (status) {
       case 'resolved':
         return <CheckCircle size={16} className="text-green-500" />;
-      case 'in_progress':
+      case 'remediating':
+      case 'acknowledged':
         return <AlertTriangle size={16} className="text-blue-500" />;
+      case 'reopened':
+        return <RotateCcw size={16} className="text-red-500" />;
       default:
         return <XCircle size={16} className="text-gray-500" />;
     }
   };
 
   const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'network':
-        return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
-      case 'storage':
-        return 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400';
-      case 'deployment':
-        return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
-      case 'resource':
-        return 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400';
-      default:
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400';
+    if (type.startsWith('node-') || type === 'unschedulable') {
+      return 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400';
+    }
+    if (type.includes('probe')) {
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
+    }
+    if (type === 'image-pull' || type === 'replicas-unavailable') {
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+    }
+    if (type.startsWith('oom') || type === 'crash-loop') {
+      return 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400';
     }
+    return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400';
   };
 
   return (
@@ -93,10 +114,17 @@ const RecentIssues: React.FC = () => {
             View all <ArrowRight size={16} className="ml-1" />
           </a>
         </div>
+
+        {actionError && (
+          <div className="flex items-center text-red-500 text-sm mb-4">
+            <AlertTriangle size={16} className="mr-1 flex-shrink-0" />
+            {actionError}
+          </div>
+        )}
         
         <div className="space-y-4">
           {issues.map((issue) => (
-            <div key={issue.id} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+            <div key={issue.fingerprint} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
               <div className="flex items-start justify-between mb-3">
                 <div className="flex items-start">
                   <AlertCircle size={18} className="text-gray-400 mt-0.5 mr-3 flex-shrink-0" />
@@ -109,16 +137,22 @@ const RecentIssues: React.FC = () => {
                       </span>
                       <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
                         <Clock size={12} className="mr-1" />
-                        {issue.timestamp}
+                        {formatRelative(issue.lastSeen)}
                       </span>
                       <span className="text-xs text-gray-500 dark:text-gray-400">
-                        {issue.cluster}
+                        {issue.namespace || 'cluster'} / {(issue.owner ?? issue.resource).kind.toLowerCase()}/{(issue.owner ?? issue.resource).name}
                       </span>
+                      {issue.occurrences > 1 && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          ×{issue.occurrences}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
-                <div className="flex items-center">
+                <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
                   {getStatusIcon(issue.status)}
+                  <span className="ml-1">{issue.status}</span>
                 </div>
               </div>
               <div className="ml-9">
@@ -127,6 +161,14 @@ const RecentIssues: React.FC = () => {
                   <button className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md transition-colors font-medium">
                     View Details
                   </button>
+                  {(issue.status === 'open' || issue.status === 'reopened') && (
+                    <button
+                      onClick={() => acknowledge(issue)}
+                      className="text-xs bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 text-gray-800 dark:text-white px-3 py-1.5 rounded-md transition-colors font-medium"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
                   {issue.status !== 'resolved' && (
                     <button className="text-xs bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-md transition-colors font-medium">
                       Apply Fix
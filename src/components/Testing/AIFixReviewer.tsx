@@ -2,12 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { CheckCircle, XCircle, AlertTriangle, Eye, Play, Pause, Code, GitBranch, Clock, Brain, Shield } from 'lucide-react';
 import Editor from "@monaco-editor/react";
 import { KubernetesErrorAnalyzer } from '../../api/kubernetes-error-analyzer';
+import { AIConfidenceScorer } from '../../api/ai-confidence-scoring';
+import { BlastRadius } from '../../api/blast-radius';
+import type { ResourceRef } from '../../api/resource-graph';
+import { KubernetesAI } from '../../api/kubernetes';
+import { CalibrationReport } from '../../api/confidence-calibration';
 
 interface AIFix {
   id: string;
   errorType: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
+  namespace?: string;
+  // The pod the analyzed log line came from
+  target?: ResourceRef;
   aiConfidence: number;
   suggestedFix: {
     action: string;
@@ -20,6 +28,7 @@ interface AIFix {
   riskAssessment: {
     level: 'low' | 'medium' | 'high';
     factors: string[];
+    blastRadius?: BlastRadius;
   };
   manualReview: {
     status: 'pending' | 'approved' | 'rejected' | 'modified';
@@ -39,6 +48,7 @@ const AIFixReviewer: React.FC = () => {
   const [selectedFix, setSelectedFix] = useState<AIFix | null>(null);
   const [reviewMode, setReviewMode] = useState<'manual' | 'auto'>('manual');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [calibration, setCalibration] = useState<CalibrationReport | null>(null);
 
   useEffect(() => {
     generateMockFixes();
@@ -58,32 +68,59 @@ const AIFixReviewer: React.FC = () => {
     const analyzer = KubernetesErrorAnalyzer.getInstance();
     const analysisResults = await analyzer.batchAnalyze(mockErrors);
     
-    const generatedFixes: AIFix[] = analysisResults.analyses.map((analysis, index) => ({
-      id: `fix-${index + 1}`,
-      errorType: analysis.errorType,
-      severity: analysis.severity,
-      description: analysis.rootCause,
-      aiConfidence: Math.floor(Math.random() * 20) + 80, // 80-100%
-      suggestedFix: analysis.suggestedFixes[0] || {
+    const scorer = AIConfidenceScorer.getInstance();
+    // Whatever the last detection pass listed; empty until a cluster is connected
+    const resources = KubernetesAI.getInstance().getClusterResources();
+    const graph = KubernetesAI.getInstance().getResourceGraph();
+    // Approval rules can match on namespace labels; unknown until a cluster is connected
+    const labels = new Map(await Promise.all(
+      Array.from(new Set(analysisResults.analyses.map(analysis => analysis.entry?.namespace ?? 'default'))).map(async namespace =>
+        [namespace, await KubernetesAI.getInstance().namespaceLabels(namespace)
+          .catch(error => { console.error(`Could not read namespace ${namespace}`, error); return undefined; })] as const)));
+    // Disruption budgets aren't watched; list them only where a blast radius will be estimated
+    const namespaces = resources.Pod
+      ? Array.from(new Set(analysisResults.analyses.filter(analysis => analysis.entry?.pod).map(analysis => analysis.entry?.namespace ?? 'default')))
+      : [];
+    const budgets = new Map(await Promise.all(namespaces.map(async namespace =>
+      [namespace, await KubernetesAI.getInstance().listDisruptionBudgets(namespace)
+        .catch(error => { console.error(`Could not list disruption budgets in ${namespace}`, error); return undefined; })] as const)));
+
+    const generatedFixes: AIFix[] = analysisResults.analyses.map((analysis, index) => {
+      const suggestedFix = analysis.suggestedFixes[0] || {
         action: 'manual_intervention',
         description: 'Manual intervention required',
         priority: 1
-      },
-      bestPracticeAlignment: Math.floor(Math.random() * 30) + 70, // 70-100%
-      riskAssessment: {
-        level: analysis.severity === 'critical' ? 'high' : analysis.severity === 'high' ? 'medium' : 'low',
-        factors: [
-          'Production environment impact',
-          'Resource modification required',
-          'Service availability during fix'
-        ]
-      },
-      manualReview: {
-        status: 'pending'
-      }
-    }));
+      };
+      const pod = analysis.entry?.pod;
+      const namespace = analysis.entry?.namespace;
+      const target = pod ? { kind: 'Pod', name: pod, namespace } : undefined;
+      const evaluation = scorer.evaluateFix(analysis.errorType, analysis.severity, suggestedFix, {
+        ...KubernetesAI.getInstance().outcomeScope(namespace),
+        namespaceLabels: labels.get(namespace ?? 'default'),
+        target,
+        resources: resources.Pod ? { ...resources, PodDisruptionBudget: budgets.get(namespace ?? 'default') } : undefined,
+        graph,
+      });
+
+      return {
+        id: `fix-${index + 1}`,
+        errorType: analysis.errorType,
+        severity: analysis.severity,
+        description: analysis.rootCause,
+        namespace,
+        target,
+        aiConfidence: evaluation.confidence.finalConfidence,
+        suggestedFix,
+        bestPracticeAlignment: evaluation.bestPracticeValidation.score,
+        riskAssessment: evaluation.riskAssessment,
+        manualReview: {
+          status: 'pending'
+        }
+      };
+    });
 
     setFixes(generatedFixes);
+    setCalibration(AIConfidenceScorer.getInstance().generateConfidenceReport().calibration);
     setIsAnalyzing(false);
   };
 
@@ -119,7 +156,7 @@ const AIFixReviewer: React.FC = () => {
   };
 
   const applyFix = async (fix: AIFix) => {
-    // Simulate applying the fix
+    // Simulate applying the fix; nothing reaches a cluster, so no outcome is recorded
     console.log(`Applying fix: ${fix.suggestedFix.action}`);
     
     // Update status to show fix is being applied
@@ -331,6 +368,52 @@ const AIFixReviewer: React.FC = () => {
                   </ul>
                 </div>
 
+                {/* Blast Radius */}
+                <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2 flex items-center">
+                    <GitBranch size={16} className="mr-1" />
+                    Blast Radius
+                  </h4>
+                  {selectedFix.riskAssessment.blastRadius ? (
+                    <div className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                      <div>
+                        {selectedFix.riskAssessment.blastRadius.target.kind} {selectedFix.riskAssessment.blastRadius.target.name}:{' '}
+                        <span className="font-medium">{selectedFix.riskAssessment.blastRadius.podsRestarting}</span> pods restarting,
+                        up to <span className="font-medium">{selectedFix.riskAssessment.blastRadius.maxUnavailable}</span> at a time
+                        ({selectedFix.riskAssessment.blastRadius.disruption})
+                      </div>
+                      {selectedFix.riskAssessment.blastRadius.services.map(service => (
+                        <div key={`svc-${service.name}`} className={service.losesAllEndpoints ? 'text-red-600 dark:text-red-400' : ''}>
+                          Service {service.name}: {service.unavailableDuringRollout}/{service.readyEndpoints} endpoints down
+                        </div>
+                      ))}
+                      {selectedFix.riskAssessment.blastRadius.ingresses.map(ingress => (
+                        <div key={`ing-${ingress.name}`} className={ingress.losesAllBackends ? 'text-red-600 dark:text-red-400' : ''}>
+                          Ingress {ingress.name} → {ingress.services.join(', ')}
+                        </div>
+                      ))}
+                      {selectedFix.riskAssessment.blastRadius.disruptionBudgets.map(budget => (
+                        <div key={`pdb-${budget.name}`} className={budget.wouldBeViolated ? 'text-red-600 dark:text-red-400' : ''}>
+                          PodDisruptionBudget {budget.name}: allows {budget.allowedDisruptions}
+                          {budget.wouldBeViolated ? ', would be violated' : ''}
+                        </div>
+                      ))}
+                      {!selectedFix.riskAssessment.blastRadius.disruptionBudgetsKnown && (
+                        <div className="text-amber-600 dark:text-amber-400">PodDisruptionBudgets unknown: not checked</div>
+                      )}
+                      {selectedFix.riskAssessment.blastRadius.dependentNamespaces.map(dependent => (
+                        <div key={`ns-${dependent.namespace}`}>
+                          Namespace {dependent.namespace} via {dependent.via.join(', ')}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      No cluster data for the affected resource; connect a cluster to estimate what this fix disturbs
+                    </p>
+                  )}
+                </div>
+
                 {/* Test Results */}
                 {selectedFix.testResults && (
                   <div className="mb-4 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
@@ -451,6 +534,76 @@ const AIFixReviewer: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Confidence Calibration */}
+        <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="font-medium text-gray-900 dark:text-white mb-3">Confidence Calibration</h3>
+          {calibration && calibration.overall.predictions > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                {/* Reliability diagram: bars are observed success per confidence bin, the diagonal is perfect calibration */}
+                <svg viewBox="0 0 100 100" className="w-full h-48 bg-gray-50 dark:bg-gray-700/50 rounded-lg" preserveAspectRatio="none">
+                  {calibration.overall.bins.map(bin => (
+                    <rect
+                      key={bin.lower}
+                      x={bin.lower * 100 + 0.5}
+                      y={100 - bin.observedRate * 100}
+                      width={(bin.upper - bin.lower) * 100 - 1}
+                      height={bin.observedRate * 100}
+                      className="fill-purple-400 dark:fill-purple-500 opacity-70"
+                    >
+                      <title>{`${Math.round(bin.lower * 100)}-${Math.round(bin.upper * 100)}%: ${Math.round(bin.observedRate * 100)}% succeeded (${bin.count} fixes)`}</title>
+                    </rect>
+                  ))}
+                  {calibration.overall.bins.map(bin => (
+                    <circle
+                      key={`p-${bin.lower}`}
+                      cx={bin.meanPredicted * 100}
+                      cy={100 - bin.meanPredicted * 100}
+                      r="1.2"
+                      className="fill-blue-600 dark:fill-blue-400"
+                    />
+                  ))}
+                  <line x1="0" y1="100" x2="100" y2="0" stroke="#9ca3af" strokeWidth="0.5" strokeDasharray="2,2" />
+                </svg>
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  <span>0% predicted</span>
+                  <span>100% predicted</span>
+                </div>
+              </div>
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-3 text-center">
+                  <div>
+                    <p className="text-lg font-bold text-gray-900 dark:text-white">{calibration.overall.predictions}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Scored outcomes</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-bold text-gray-900 dark:text-white">{calibration.overall.brierScore.toFixed(3)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Brier score</p>
+                  </div>
+                  <div>
+                    <p className="text-lg font-bold text-gray-900 dark:text-white">{(calibration.overall.expectedCalibrationError * 100).toFixed(1)}%</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Calibration error</p>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {calibration.actions.slice(0, 5).map(group => (
+                    <div key={`${group.issueType}/${group.action}`} className="flex items-center justify-between text-xs">
+                      <span className="text-gray-700 dark:text-gray-300">{group.issueType.replace(/_/g, ' ')} · {group.action}</span>
+                      <span className={group.expectedCalibrationError > 0.1 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}>
+                        ECE {(group.expectedCalibrationError * 100).toFixed(1)}% · {group.predictions} fixes
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No outcomes recorded with their predicted confidence yet
+            </p>
+          )}
+        </div>
       </div>
     </div>
   );
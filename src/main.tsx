@@ -2,6 +2,59 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { KubernetesErrorAnalyzer } from './api/kubernetes-error-analyzer';
+import { urlRuleSource } from './api/error-rules';
+import { AIConfidenceScorer } from './api/ai-confidence-scoring';
+import { FileOutcomeStore, localStorageFile } from './api/outcome-store';
+import { ApprovalPolicyEngine } from './api/approval-policy';
+import { PrometheusClient, PrometheusMonitor } from './api/prometheus';
+import { KubernetesAI } from './api/kubernetes';
+import { KubernetesClient } from './api/kubernetes-client';
+
+// Custom error pattern rules, e.g. VITE_ERROR_RULE_URLS=/rules/operators.yaml,/rules/overrides.yaml
+const ruleUrls = (import.meta.env.VITE_ERROR_RULE_URLS || '').split(',').map((url: string) => url.trim()).filter(Boolean);
+if (ruleUrls.length > 0) {
+  void KubernetesErrorAnalyzer.getInstance().watchRules(ruleUrls.map(urlRuleSource));
+}
+
+// Fix outcomes feed the confidence scores, so keep them across reloads; outcomes recorded
+// before the history has loaded are held until it has
+void AIConfidenceScorer.getInstance().useOutcomeStore(new FileOutcomeStore(localStorageFile('autokube.fix-outcomes')))
+  .catch(error => console.error(error));
+
+// Fix approval policy, e.g. VITE_APPROVAL_POLICY_URL=/policies/approval.yaml; the built-in default applies until it loads
+const policyUrl = (import.meta.env.VITE_APPROVAL_POLICY_URL || '').trim();
+if (policyUrl) {
+  void urlRuleSource(policyUrl).read()
+    .then(text => text && ApprovalPolicyEngine.getInstance().load(text, policyUrl))
+    .catch(error => console.error(error));
+}
+
+// Predictive monitoring from Prometheus, e.g. VITE_PROMETHEUS_URL=/prometheus and
+// VITE_PROMETHEUS_CLUSTERS=production,staging (values of its `cluster` label); the URL should
+// be a proxy that adds any credentials, since VITE_* values ship in the bundle
+const prometheusUrl = (import.meta.env.VITE_PROMETHEUS_URL || '').trim();
+if (prometheusUrl) {
+  const clusters = (import.meta.env.VITE_PROMETHEUS_CLUSTERS || 'production').split(',').map((id: string) => id.trim()).filter(Boolean);
+  const client = new PrometheusClient(prometheusUrl);
+  void new PrometheusMonitor(client, clusters.map((clusterId: string) => ({ clusterId }))).start()
+    .catch(error => console.error(error));
+}
+
+// Live cluster access, e.g. VITE_KUBERNETES_API_URL=/k8s behind a `kubectl proxy`; without it,
+// issue detection reports only what has already been tracked. VITE_* values ship in the bundle,
+// so credentials stay with the proxy
+const kubernetesUrl = (import.meta.env.VITE_KUBERNETES_API_URL || '').trim();
+if (kubernetesUrl) {
+  KubernetesAI.getInstance().useClient(new KubernetesClient({
+    contextName: 'env',
+    clusterName: 'env',
+    server: kubernetesUrl,
+    namespace: (import.meta.env.VITE_KUBERNETES_NAMESPACE || 'default').trim(),
+    auth: { type: 'none' },
+    insecureSkipTlsVerify: false,
+  }), { environment: (import.meta.env.VITE_KUBERNETES_ENVIRONMENT || '').trim() || undefined });
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -45,8 +45,20 @@ export const api = {
   // Issue detection and remediation
   issues: {
     detect: (namespace: string) => fetchWithAuth(`/issues/detect?namespace=${namespace}`),
-    getAll: () => fetchWithAuth('/issues'),
+    getAll: (filter: { status?: string[]; namespace?: string } = {}) => {
+      const params = new URLSearchParams();
+      if (filter.status?.length) params.set('status', filter.status.join(','));
+      if (filter.namespace) params.set('namespace', filter.namespace);
+      const query = params.toString();
+      return fetchWithAuth(`/issues${query ? `?${query}` : ''}`);
+    },
     getById: (id: string) => fetchWithAuth(`/issues/${id}`),
+    getHistory: (fingerprint: string) => fetchWithAuth(`/issues/${fingerprint}/history`),
+    transition: (fingerprint: string, status: string, note?: string) =>
+      fetchWithAuth(`/issues/${fingerprint}/transition`, {
+        method: 'POST',
+        body: JSON.stringify({ status, note }),
+      }),
     applyFix: (issueId: string, autoApprove = false) => 
       fetchWithAuth(`/issues/${issueId}/fix`, {
         method: 'POST',
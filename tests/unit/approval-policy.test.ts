@@ -0,0 +1,150 @@
+/**
+ * Approval policy tests: rule matching, decisions and the policy's own test cases
+ */
+
+import {
+  ApprovalPolicy,
+  ApprovalPolicyEngine,
+  DEFAULT_APPROVAL_POLICY,
+  evaluatePolicy,
+  parseApprovalPolicy,
+  ruleMatches,
+  testPolicy,
+} from '../../src/api/approval-policy';
+
+const files = import.meta.glob('../fixtures/approval-policy/*.yaml', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+const fixture = (name: string) => files[`../fixtures/approval-policy/${name}.yaml`];
+
+describe('DEFAULT_APPROVAL_POLICY', () => {
+  test('passes its own test cases', () => {
+    const results = testPolicy(DEFAULT_APPROVAL_POLICY);
+
+    expect(results).toHaveLength(DEFAULT_APPROVAL_POLICY.tests.length);
+    expect(results.filter(result => !result.passed).map(result => result.name)).toEqual([]);
+  });
+});
+
+describe('ruleMatches', () => {
+  test('matches names against * globs and nothing else', () => {
+    const match = { clusters: ['prod-*'], actions: ['restart_pod'] };
+
+    expect(ruleMatches(match, { cluster: 'prod-eu1', action: 'restart_pod' })).toBe(true);
+    expect(ruleMatches(match, { cluster: 'preprod-eu1', action: 'restart_pod' })).toBe(false);
+    // Dots and other regex characters are literal
+    expect(ruleMatches({ namespaces: ['team.a'] }, { namespace: 'teamXa' })).toBe(false);
+    expect(ruleMatches(match, { action: 'restart_pod' })).toBe(false);
+  });
+
+  test('requires every listed namespace label', () => {
+    const match = { namespaceLabels: { compliance: 'pci', tier: 'gold' } };
+
+    expect(ruleMatches(match, { namespaceLabels: { compliance: 'pci', tier: 'gold', team: 'shop' } })).toBe(true);
+    expect(ruleMatches(match, { namespaceLabels: { compliance: 'pci' } })).toBe(false);
+    expect(ruleMatches(match, {})).toBe(false);
+  });
+
+  test('treats confidence bounds as inclusive and never matches without a confidence', () => {
+    const match = { minConfidence: 80, maxConfidence: 90 };
+
+    expect([79.9, 80, 90, 90.1].map(confidence => ruleMatches(match, { confidence }))).toEqual([false, true, true, false]);
+    expect(ruleMatches(match, {})).toBe(false);
+  });
+
+  test('gives the early hours of a window wrapping midnight to the day it started', () => {
+    const match = { timeOfDay: { from: '22:00', to: '06:00', timezone: 'UTC', days: ['fri' as const] } };
+    // 2026-01-02 is a Friday
+    const at = (time: string) => ruleMatches(match, { time });
+
+    expect(at('2026-01-02T23:30:00Z')).toBe(true);
+    expect(at('2026-01-03T05:59:00Z')).toBe(true);
+    expect(at('2026-01-03T06:00:00Z')).toBe(false);
+    expect(at('2026-01-02T03:00:00Z')).toBe(false);
+    expect(at('2026-01-02T21:59:00Z')).toBe(false);
+  });
+
+  test('reads the time of day in the window timezone', () => {
+    const match = { timeOfDay: { from: '09:00', to: '17:00', timezone: 'America/New_York' } };
+
+    expect(ruleMatches(match, { time: '2026-01-07T14:00:00Z' })).toBe(true);
+    expect(ruleMatches(match, { time: '2026-01-07T22:30:00Z' })).toBe(false);
+    expect(ruleMatches(match, { time: 'not a time' })).toBe(false);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const policy: ApprovalPolicy = {
+    version: 7,
+    name: 'ordered',
+    default: { effect: 'deny', approvers: 1 },
+    rules: [
+      { id: 'critical', description: 'Critical fixes are reviewed twice', match: { severities: ['critical'] }, effect: 'require-approval', approvers: 2 },
+      { id: 'confident', description: '', match: { minConfidence: 90 }, effect: 'allow', approvers: 1 },
+    ],
+    tests: [],
+  };
+
+  test('lets the first matching rule decide', () => {
+    expect(evaluatePolicy(policy, { severity: 'critical', confidence: 99 })).toEqual({
+      effect: 'require-approval',
+      approvers: 2,
+      ruleId: 'critical',
+      policyVersion: 7,
+      reason: 'ordered v7: Critical fixes are reviewed twice',
+    });
+    expect(evaluatePolicy(policy, { severity: 'low', confidence: 99 })).toMatchObject({ effect: 'allow', approvers: 0, ruleId: 'confident' });
+  });
+
+  test('falls back to the default when no rule matches', () => {
+    expect(evaluatePolicy(policy, { severity: 'low', confidence: 50 })).toMatchObject({
+      effect: 'deny',
+      approvers: 0,
+      ruleId: undefined,
+      reason: 'ordered v7: no rule matched, default applies',
+    });
+  });
+});
+
+describe('testPolicy', () => {
+  test('reports each case against the expected effect, approvers and rule', () => {
+    const policy = parseApprovalPolicy(fixture('change-freeze'), 'change-freeze.yaml');
+
+    const results = testPolicy(policy, [
+      ...policy.tests,
+      { name: 'wrong rule', input: { cluster: 'prod-eu1', action: 'restart_pod', confidence: 85, time: '2026-01-07T12:00:00Z' }, expect: { effect: 'allow', rule: 'default' } },
+      { name: 'frozen', input: { cluster: 'prod-eu1', action: 'restart_pod', confidence: 85, time: '2026-01-02T22:30:00Z' }, expect: { effect: 'deny', rule: 'friday-night-freeze' } },
+    ]);
+
+    expect(results.map(result => [result.name, result.passed])).toEqual([
+      ['confident restarts in production clusters apply', true],
+      ['pci namespaces need two approvers', true],
+      ['wrong rule', false],
+      ['frozen', true],
+    ]);
+  });
+});
+
+describe('parseApprovalPolicy', () => {
+  test('rejects duplicate rule ids and unknown timezones', () => {
+    const rule = (id: string, timezone = 'UTC') => `  - id: ${id}\n    match: { timeOfDay: { from: "01:00", to: "02:00", timezone: ${timezone} } }\n    effect: deny\n`;
+
+    expect(() => parseApprovalPolicy(`version: 1\nrules:\n${rule('a')}${rule('a')}`, 'dup.yaml')).toThrow('duplicate rule id a');
+    expect(() => parseApprovalPolicy(`version: 1\nrules:\n${rule('a', 'Mars/Olympus')}`, 'tz.yaml')).toThrow('unknown timezone Mars/Olympus');
+    expect(() => parseApprovalPolicy('rules: []', 'noversion.yaml')).toThrow('Invalid approval policy noversion.yaml: version');
+  });
+});
+
+describe('ApprovalPolicyEngine', () => {
+  afterEach(() => ApprovalPolicyEngine.getInstance().setPolicy(DEFAULT_APPROVAL_POLICY, 'builtin'));
+
+  test('loads a policy whose tests pass and keeps the active one when they fail', () => {
+    const engine = ApprovalPolicyEngine.getInstance();
+
+    engine.load(fixture('change-freeze'), 'change-freeze.yaml');
+    expect(engine.policy().version).toBe(3);
+    expect(engine.history().slice(-1)[0]).toMatchObject({ version: 3, source: 'change-freeze.yaml' });
+
+    const broken = fixture('change-freeze').replace('approvers: 2', 'approvers: 3');
+    expect(() => engine.load(broken, 'broken.yaml')).toThrow('failed its tests: pci namespaces need two approvers');
+    expect(engine.policy().version).toBe(3);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Beta distribution tests pinned to closed forms and hand-checked values
+ */
+
+import {
+  betaMean,
+  betaPrior,
+  betaQuantile,
+  credibleInterval,
+  decayedPosterior,
+  logGamma,
+  regularizedIncompleteBeta,
+} from '../../src/api/beta-distribution';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-01-10T00:00:00Z');
+const daysAgo = (days: number) => new Date(NOW - days * DAY).toISOString();
+
+describe('logGamma', () => {
+  test.each([
+    [1, 0],
+    [5, Math.log(24)],
+    [0.5, Math.log(Math.sqrt(Math.PI))],
+    [0.25, Math.log(3.625609908221908)],
+  ])('logGamma(%s)', (x, expected) => {
+    expect(logGamma(x)).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('regularizedIncompleteBeta', () => {
+  test.each([
+    // Beta(1, 1) is uniform
+    [0.3, 1, 1, 0.3],
+    // Beta(2, 2): 3x² - 2x³
+    [0.25, 2, 2, 0.15625],
+    [0.5, 2, 2, 0.5],
+    // Beta(a, 1): x^a
+    [0.5, 3, 1, 0.125],
+    // Beta(1, b): 1 - (1 - x)^b
+    [0.2, 1, 4, 1 - 0.8 ** 4],
+  ])('I_%s(%s, %s)', (x, a, b, expected) => {
+    expect(regularizedIncompleteBeta(x, a, b)).toBeCloseTo(expected, 10);
+  });
+
+  test('is a half at the middle of any symmetric distribution', () => {
+    for (const a of [0.5, 7, 120]) {
+      expect(regularizedIncompleteBeta(0.5, a, a)).toBeCloseTo(0.5, 10);
+    }
+  });
+
+  test('satisfies I_x(a, b) = 1 - I_(1-x)(b, a) on both sides of the mean', () => {
+    for (const x of [0.1, 0.6, 0.8, 0.95]) {
+      expect(regularizedIncompleteBeta(x, 30, 7.5)).toBeCloseTo(1 - regularizedIncompleteBeta(1 - x, 7.5, 30), 10);
+    }
+  });
+
+  test('clamps outside (0, 1) and rejects non-positive parameters', () => {
+    expect(regularizedIncompleteBeta(-0.1, 2, 3)).toBe(0);
+    expect(regularizedIncompleteBeta(1.5, 2, 3)).toBe(1);
+    expect(() => regularizedIncompleteBeta(0.5, 0, 1)).toThrow('Beta parameters must be positive');
+  });
+});
+
+describe('betaQuantile', () => {
+  test('inverts the cumulative distribution', () => {
+    for (const [a, b] of [[2, 2], [0.5, 0.5], [18, 3], [200, 40]]) {
+      for (const p of [0.025, 0.5, 0.9]) {
+        expect(regularizedIncompleteBeta(betaQuantile(p, a, b), a, b)).toBeCloseTo(p, 8);
+      }
+    }
+  });
+});
+
+describe('credibleInterval', () => {
+  test('Beta(2, 2) at 95% is [0.094, 0.906]', () => {
+    const interval = credibleInterval({ alpha: 2, beta: 2 });
+
+    expect(interval.lower).toBeCloseTo(0.0942993, 6);
+    expect(interval.upper).toBeCloseTo(0.9057007, 6);
+    expect(interval.level).toBe(0.95);
+  });
+
+  test('Beta(1, 1) at 90% cuts 5% from each end', () => {
+    const interval = credibleInterval({ alpha: 1, beta: 1 }, 0.9);
+
+    expect(interval.lower).toBeCloseTo(0.05, 10);
+    expect(interval.upper).toBeCloseTo(0.95, 10);
+  });
+
+  test('narrows as evidence accumulates at the same mean', () => {
+    const width = ({ lower, upper }: { lower: number; upper: number }) => upper - lower;
+
+    expect(width(credibleInterval({ alpha: 80, beta: 20 }))).toBeLessThan(width(credibleInterval({ alpha: 8, beta: 2 })));
+  });
+});
+
+describe('betaPrior', () => {
+  test('spreads the strength across alpha and beta by the mean', () => {
+    const prior = betaPrior(0.8, 10);
+
+    expect(prior.alpha).toBeCloseTo(8, 10);
+    expect(prior.beta).toBeCloseTo(2, 10);
+    expect(betaMean(prior)).toBeCloseTo(0.8, 10);
+  });
+});
+
+describe('decayedPosterior', () => {
+  const prior = { alpha: 1, beta: 1 };
+  const observations = [
+    { success: true, timestamp: daysAgo(0) },
+    { success: false, timestamp: daysAgo(1) },
+    { success: true, timestamp: daysAgo(2) },
+  ];
+
+  test('halves an observation per half-life of age', () => {
+    const posterior = decayedPosterior(prior, observations, { halfLifeMs: DAY, now: NOW });
+
+    expect(posterior.effectiveSuccesses).toBeCloseTo(1.25, 10);
+    expect(posterior.effectiveAttempts).toBeCloseTo(1.75, 10);
+    expect(posterior.alpha).toBeCloseTo(2.25, 10);
+    expect(posterior.beta).toBeCloseTo(1.5, 10);
+    expect(posterior.attempts).toBe(3);
+    expect(posterior.successes).toBe(2);
+    expect(posterior.prior).toBe(prior);
+  });
+
+  test('counts every observation fully with an infinite half-life', () => {
+    const posterior = decayedPosterior(prior, observations, { halfLifeMs: Infinity, now: NOW });
+
+    expect(posterior.alpha).toBe(3);
+    expect(posterior.beta).toBe(2);
+  });
+
+  test('counts future and unparseable timestamps as fresh', () => {
+    const posterior = decayedPosterior(prior, [
+      { success: true, timestamp: daysAgo(-3) },
+      { success: false, timestamp: 'yesterday' },
+    ], { halfLifeMs: DAY, now: NOW });
+
+    expect(posterior.effectiveAttempts).toBe(2);
+    expect(posterior.effectiveSuccesses).toBe(1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Blast radius tests against a small shop namespace with its Services, Ingresses and budgets
+ */
+
+// The namespace lives in tests/fixtures/blast-radius/shop.json, listed per kind
+import { estimateBlastRadius } from '../../src/api/blast-radius';
+import type { DetectableResources } from '../../src/api/issue-detectors';
+import { ResourceKind, ResourceSchemas } from '../../src/api/kubernetes-resources';
+
+const files = import.meta.glob('../fixtures/blast-radius/*.json', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+const cluster = Object.fromEntries(
+  Object.entries(JSON.parse(files['../fixtures/blast-radius/shop.json']) as Record<string, unknown[]>)
+    .map(([kind, items]) => [kind, items.map(item => ResourceSchemas[kind as ResourceKind].parse(item))])
+) as Partial<DetectableResources>;
+
+const resize = {
+  action: 'increase_resources',
+  yaml: 'spec:\n  template:\n    spec:\n      containers:\n      - name: app\n        resources: { limits: { memory: 1Gi } }',
+};
+const pod = (name: string) => ({ kind: 'Pod', name, namespace: 'shop' });
+
+describe('estimateBlastRadius', () => {
+  test('rolls a Deployment a percentage of its pods at a time, checking budgets against their status', () => {
+    const radius = estimateBlastRadius(resize, pod('web-1-a'), cluster);
+
+    expect(radius).toMatchObject({
+      target: { kind: 'Deployment', name: 'web', namespace: 'shop' },
+      disruption: 'rolling',
+      podsRestarting: 4,
+      maxUnavailable: 2,
+      services: [{ name: 'web', readyEndpoints: 4, unavailableDuringRollout: 2, losesAllEndpoints: false }],
+      ingresses: [{ name: 'storefront', services: ['web', 'api'], losesAllBackends: false }],
+      // status.disruptionsAllowed wins over the 50% in the spec
+      disruptionBudgets: [{ name: 'web', allowedDisruptions: 1, wouldBeViolated: true }],
+      disruptionBudgetsKnown: true,
+      dependentNamespaces: [{ namespace: 'ops', via: ['Service web-alias (ExternalName)'] }],
+      level: 'high',
+    });
+  });
+
+  test('takes a Recreate Deployment down at once, emptying its Services and Ingresses', () => {
+    const radius = estimateBlastRadius(resize, pod('api-1-a'), cluster);
+
+    expect(radius).toMatchObject({
+      disruption: 'recreate',
+      podsRestarting: 2,
+      maxUnavailable: 2,
+      services: [{ name: 'api', readyEndpoints: 2, unavailableDuringRollout: 2, losesAllEndpoints: true }],
+      // minAvailable 1 of 2 healthy pods, worked out from the spec
+      disruptionBudgets: [{ name: 'api', allowedDisruptions: 1, wouldBeViolated: true }],
+      dependentNamespaces: [{ namespace: 'billing', via: ['Pod checkout (env API_URL)'] }],
+      level: 'high',
+    });
+    expect(radius.ingresses.map(ingress => [ingress.name, ingress.losesAllBackends])).toEqual([['storefront', false], ['api', true]]);
+    expect(radius.factors.slice(0, 2)).toEqual([
+      'Service shop/api loses all endpoints during rollout',
+      'Ingress shop/api has no backends during rollout',
+    ]);
+  });
+
+  test('surges a Deployment with maxUnavailable 0 and restarts StatefulSet pods one at a time', () => {
+    const cache = estimateBlastRadius(resize, pod('cache-1-a'), cluster);
+    expect(cache).toMatchObject({ disruption: 'rolling', podsRestarting: 2, maxUnavailable: 0, disruptionBudgets: [], level: 'medium' });
+    expect(cache.factors).toEqual(['Restarts 2 pods of Deployment shop/cache, surging so none are unavailable']);
+
+    const db = estimateBlastRadius(resize, pod('db-0'), cluster);
+    expect(db).toMatchObject({
+      target: { kind: 'StatefulSet', name: 'db' },
+      podsRestarting: 3,
+      maxUnavailable: 1,
+      services: [{ name: 'db', readyEndpoints: 3, unavailableDuringRollout: 1, losesAllEndpoints: false }],
+      // maxUnavailable 50% of 3 rounds up
+      disruptionBudgets: [{ name: 'db', allowedDisruptions: 2, wouldBeViolated: false }],
+      level: 'medium',
+    });
+  });
+
+  test('restarts a single pod for pod deletes and nothing for objects without a pod template', () => {
+    expect(estimateBlastRadius({ action: 'restart_pod', command: 'kubectl delete pod web-1-a -n shop' }, pod('web-1-a'), cluster)).toMatchObject({
+      disruption: 'single-pod',
+      podsRestarting: 1,
+      disruptionBudgets: [{ name: 'web', wouldBeViolated: false }],
+    });
+
+    const quota = estimateBlastRadius({ action: 'increase_quota', yaml: 'apiVersion: v1\nkind: ResourceQuota\nmetadata: { name: compute }\nspec: {}' }, pod('web-1-a'), cluster);
+    expect(quota).toMatchObject({ disruption: 'none', podsRestarting: 0, services: [], level: 'low', factors: [] });
+  });
+
+  test('only counts DNS names that address the Service itself', () => {
+    // billing/checkout also calls api.shopping and billing/reports calls myweb.shop; neither is a shop Service
+    const web = estimateBlastRadius(resize, pod('web-1-a'), cluster);
+    const api = estimateBlastRadius(resize, pod('api-1-a'), cluster);
+
+    expect(web.dependentNamespaces.map(d => d.namespace)).toEqual(['ops']);
+    expect(api.dependentNamespaces).toEqual([{ namespace: 'billing', via: ['Pod checkout (env API_URL)'] }]);
+  });
+
+  test('reports budgets as unknown when none were listed', () => {
+    const radius = estimateBlastRadius(resize, pod('api-1-a'), { ...cluster, PodDisruptionBudget: undefined });
+
+    expect(radius.disruptionBudgetsKnown).toBe(false);
+    expect(radius.disruptionBudgets).toEqual([]);
+    expect(radius.factors).toContain('PodDisruptionBudgets could not be listed, so budget violations were not checked');
+  });
+});
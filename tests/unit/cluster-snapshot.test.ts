@@ -0,0 +1,101 @@
+/**
+ * Support bundle tests: the tar reader and offline analysis of a cluster-info dump
+ */
+
+// tests/fixtures/cluster-snapshot/support-bundle.tar mixes header formats: a GNU long name for
+// shop/pods.json, a pax path for the pod logs and ustar prefixes for the rest
+import { ClusterSnapshot, analyzeSnapshot, readTar } from '../../src/api/cluster-snapshot';
+import { createDefaultDetectorRegistry } from '../../src/api/issue-detectors';
+
+const files = import.meta.glob('../fixtures/cluster-snapshot/*.tar', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+// Every byte in the archive is ASCII, so it survives being read as text
+const bundle = new TextEncoder().encode(files['../fixtures/cluster-snapshot/support-bundle.tar']);
+const root = 'support-bundle-prod-east-2026-01-05T12-00-00Z-for-incident-4711-requested-by-on-call/cluster-info';
+
+const gzip = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer());
+
+describe('readTar', () => {
+  const entries = readTar(bundle);
+
+  test('reads long names from GNU, pax and ustar prefix headers, skipping directories', () => {
+    expect(Object.keys(entries)).toEqual([
+      `${root}/shop/pods.json`,
+      `${root}/shop/orders-7c9d8b6f5-x2x9k/logs.txt`,
+      `${root}/shop/configmaps-and-other-objects-the-resource-model-does-not-cover.json`,
+      `${root}/nodes.yaml`,
+      `${root}/broken.yaml`,
+    ]);
+  });
+
+  test('reads each body up to its size, not the block padding', () => {
+    expect(JSON.parse(entries[`${root}/shop/pods.json`])).toMatchObject({ kind: 'PodList' });
+    expect(entries[`${root}/broken.yaml`]).toBe('kind: Pod\nmetadata: [unclosed\n');
+  });
+
+  test('stops at the end-of-archive blocks', () => {
+    expect(readTar(new Uint8Array(1024))).toEqual({});
+  });
+});
+
+describe('ClusterSnapshot', () => {
+  test('unpacks gzipped bundles', async () => {
+    const snapshot = await ClusterSnapshot.fromTarball(await gzip(bundle));
+
+    expect(snapshot.list('Pod').map(pod => pod.metadata.name)).toEqual(['orders-7c9d8b6f5-x2x9k', 'web-5f6d7c8b9-abcde']);
+  });
+
+  test('takes the kind of typed list items from the list', async () => {
+    const snapshot = await ClusterSnapshot.fromTarball(bundle);
+
+    expect(snapshot.list('Pod', 'shop')).toEqual([expect.objectContaining({
+      metadata: expect.objectContaining({ name: 'orders-7c9d8b6f5-x2x9k', namespace: 'shop' }),
+    })]);
+    // Cluster-scoped kinds ignore the namespace
+    expect(snapshot.list('Node', 'shop').map(node => node.metadata.name)).toEqual(['worker-1']);
+    expect(snapshot.kinds.sort()).toEqual(['Node', 'Pod']);
+  });
+
+  test('counts kinds outside the resource model and reports unparseable files', async () => {
+    const snapshot = await ClusterSnapshot.fromTarball(bundle);
+
+    expect(Object.fromEntries(snapshot.ignoredKinds)).toEqual({ ConfigMap: 2 });
+    expect(snapshot.skipped).toEqual([
+      { source: `${root}/broken.yaml`, reason: expect.stringMatching(/^Unparseable manifest: /) },
+    ]);
+  });
+
+  test('takes namespace and pod from the <namespace>/<pod>/logs.txt layout', async () => {
+    const snapshot = await ClusterSnapshot.fromTarball(bundle);
+
+    expect(snapshot.logs).toHaveLength(1);
+    expect(snapshot.logs[0]).toMatchObject({ namespace: 'shop', pod: 'orders-7c9d8b6f5-x2x9k' });
+    expect(snapshot.logs[0].lines).toHaveLength(5);
+  });
+});
+
+describe('analyzeSnapshot', () => {
+  test('detects issues from the dumped objects and attributes log errors to the pod they came from', async () => {
+    const snapshot = await ClusterSnapshot.fromTarball(bundle);
+    const { issues, logAnalysis, health } = await analyzeSnapshot(snapshot, createDefaultDetectorRegistry());
+
+    expect(issues).toEqual([expect.objectContaining({
+      type: 'crash-loop',
+      namespace: 'shop',
+      owner: { kind: 'ReplicaSet', name: 'orders-7c9d8b6f5' },
+    })]);
+    expect(logAnalysis.analyses.length).toBeGreaterThan(0);
+    for (const analysis of logAnalysis.analyses) {
+      expect(analysis.entry).toMatchObject({ namespace: 'shop', pod: 'orders-7c9d8b6f5-x2x9k' });
+    }
+    expect(health.score).toBeLessThan(100);
+  });
+
+  test('leaves out other namespaces', async () => {
+    const snapshot = await ClusterSnapshot.fromTarball(bundle);
+    const { issues, logAnalysis } = await analyzeSnapshot(snapshot, createDefaultDetectorRegistry(), { namespace: 'storefront' });
+
+    expect(issues).toEqual([]);
+    expect(logAnalysis.analyses).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Calibration tests over small sets computed by hand
+ */
+
+import { calibrate, calibrationReport } from '../../src/api/confidence-calibration';
+import type { FixOutcome } from '../../src/api/outcome-store';
+
+const outcome = (issueType: string, action: string, predictedConfidence: number | undefined, success: boolean): FixOutcome => ({
+  issueType,
+  action,
+  cluster: 'prod-east',
+  environment: 'production',
+  timestamp: '2026-01-05T12:00:00Z',
+  success,
+  predictedConfidence,
+});
+
+describe('calibrate', () => {
+  // Squared errors 0.01, 0.01, 0.81, 0.04 and 0
+  const predictions = [
+    { predicted: 0.9, success: true },
+    { predicted: 0.9, success: true },
+    { predicted: 0.9, success: false },
+    { predicted: 0.2, success: false },
+    { predicted: 1, success: true },
+  ];
+
+  test('scores the mean squared error', () => {
+    expect(calibrate(predictions).brierScore).toBeCloseTo(0.174, 10);
+  });
+
+  test('bins predictions, putting exactly 1 in the top bin and leaving empty bins out', () => {
+    const { bins } = calibrate(predictions);
+
+    expect(bins).toHaveLength(2);
+    expect(bins[0]).toMatchObject({ lower: 0.2, upper: 0.3, count: 1, meanPredicted: 0.2, observedRate: 0 });
+    expect(bins[1]).toMatchObject({ lower: 0.9, upper: 1, count: 4, observedRate: 0.75 });
+    expect(bins[1].meanPredicted).toBeCloseTo(0.925, 10);
+  });
+
+  test('weights the calibration error by bin size', () => {
+    // 4/5 × |0.925 - 0.75| + 1/5 × |0.2 - 0|
+    expect(calibrate(predictions).expectedCalibrationError).toBeCloseTo(0.18, 10);
+  });
+
+  test('honours the bin count', () => {
+    const { bins } = calibrate(predictions, 2);
+
+    expect(bins.map(bin => [bin.lower, bin.count])).toEqual([[0, 1], [0.5, 4]]);
+  });
+
+  test('clamps predictions outside 0-1', () => {
+    const stats = calibrate([{ predicted: 1.3, success: true }, { predicted: -0.2, success: true }]);
+
+    expect(stats.brierScore).toBeCloseTo(0.5, 10);
+    expect(stats.bins.map(bin => bin.meanPredicted)).toEqual([0, 1]);
+  });
+
+  test('is zero with no predictions', () => {
+    expect(calibrate([])).toEqual({ predictions: 0, brierScore: 0, expectedCalibrationError: 0, bins: [] });
+  });
+});
+
+describe('calibrationReport', () => {
+  const outcomes = [
+    outcome('OOMKilled', 'increase_memory', 90, true),
+    outcome('OOMKilled', 'increase_memory', 90, false),
+    outcome('OOMKilled', 'restart_pod', 60, true),
+    outcome('ImagePullBackOff', 'update_image_tag', 80, true),
+    outcome('ImagePullBackOff', 'update_image_tag', undefined, false),
+  ];
+
+  test('skips outcomes recorded without a confidence', () => {
+    const report = calibrationReport(outcomes);
+
+    expect(report.overall.predictions).toBe(4);
+    expect(report.issueTypes.find(group => group.issueType === 'ImagePullBackOff')?.brierScore).toBeCloseTo(0.04, 10);
+  });
+
+  test('groups by issue type and by action, largest first', () => {
+    const report = calibrationReport(outcomes);
+
+    expect(report.issueTypes.map(group => [group.issueType, group.predictions])).toEqual([
+      ['OOMKilled', 3],
+      ['ImagePullBackOff', 1],
+    ]);
+    expect(report.actions.map(group => [group.issueType, group.action, group.predictions])).toEqual([
+      ['OOMKilled', 'increase_memory', 2],
+      ['OOMKilled', 'restart_pod', 1],
+      ['ImagePullBackOff', 'update_image_tag', 1],
+    ]);
+  });
+
+  test('reads confidences as percentages', () => {
+    const [group] = calibrationReport(outcomes).actions;
+
+    // 0.9 predicted, one of two succeeded
+    expect(group.expectedCalibrationError).toBeCloseTo(0.4, 10);
+    expect(group.bins).toEqual([expect.objectContaining({ lower: 0.9, count: 2, observedRate: 0.5 })]);
+  });
+
+  test('uses the requested number of bins', () => {
+    expect(calibrationReport(outcomes, { bins: 1 }).overall.bins).toHaveLength(1);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Golden-file tests for the error pattern rules
+ */
+
+// Each tests/fixtures/error-patterns/<name>.log is paired with <name>.expected.json.
+// To add a sample, write the log, generate the expected file with expectedFromLog and review it.
+import { formatRegressionReport, goldenFixturesFromFiles, runRuleRegression } from '../../src/api/rule-regression';
+
+const files = import.meta.glob('../fixtures/error-patterns/*', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+describe('Error pattern rules', () => {
+  const report = runRuleRegression(goldenFixturesFromFiles(files));
+
+  test('every fixture produces its expected analyses', () => {
+    expect(report.passed ? '' : formatRegressionReport(report)).toBe('');
+  });
+
+  test('no rule matches lines it should not', () => {
+    expect(report.falseMatches).toEqual([]);
+  });
+
+  test('every rule with fixtures has full precision and recall', () => {
+    const imperfect = report.rules.filter(rule => rule.precision < 1 || rule.recall < 1);
+    expect(imperfect).toEqual([]);
+  });
+});
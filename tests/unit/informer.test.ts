@@ -0,0 +1,88 @@
+/**
+ * Informer sync tests against a stub API server that fails its lists
+ */
+
+import { Informer, InformerSet, InformerSyncError } from '../../src/api/informer';
+import { KubernetesClient } from '../../src/api/kubernetes-client';
+
+const files = import.meta.glob('../fixtures/kubernetes/*', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+const fixture = (name: string) => files[`../fixtures/kubernetes/${name}`];
+
+const connection = {
+  contextName: 'test',
+  clusterName: 'test',
+  server: 'http://k8s.test',
+  namespace: 'default',
+  auth: { type: 'none' as const },
+  insecureSkipTlsVerify: false,
+};
+
+function clientAnswering(respond: (url: URL) => Response) {
+  const requests: URL[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    // Answer on a later tick, so a client that spins fails its test instead of starving the timers
+    await new Promise(resolve => setTimeout(resolve));
+    return respond(url);
+  }) as typeof fetch;
+  return { requests, client: new KubernetesClient(connection, { fetch: fetchImpl }) };
+}
+
+describe('Informer', () => {
+  test('fails sync at once when a kind is forbidden', async () => {
+    const { requests, client } = clientAnswering(url => url.pathname.endsWith('/pods')
+      ? new Response(fixture('forbidden.json'), { status: 403 })
+      : new Response(JSON.stringify({ metadata: { resourceVersion: '1' }, items: [] }), { status: 200 }));
+    const informers = new InformerSet(client, ['Pod'], { initialBackoffMs: 1 });
+
+    await expect(informers.start()).rejects.toBeInstanceOf(InformerSyncError);
+    await expect(informers.start()).rejects.toMatchObject({ kind: 'Pod', status: 403 });
+    expect(requests).toHaveLength(2);
+    expect(informers.hasSynced()).toBe(false);
+  });
+
+  test('gives up after the configured number of failed initial lists', async () => {
+    const { requests, client } = clientAnswering(() => new Response('{}', { status: 500 }));
+    const informer = new Informer(client, 'Node', { initialBackoffMs: 1, maxInitialListAttempts: 3 });
+
+    await expect(informer.start()).rejects.toThrow('could not list Node after 3 attempt(s)');
+    await expect(informer.waitForSync()).rejects.toBeInstanceOf(InformerSyncError);
+    expect(requests).toHaveLength(3);
+    expect(informer.isRunning).toBe(false);
+  });
+});
+
+describe('Informer reconnects', () => {
+  const list = () => new Response(JSON.stringify({ metadata: { resourceVersion: '1' }, items: [] }), { status: 200 });
+  const gone = () => new Response(JSON.stringify({ kind: 'Status', code: 410, reason: 'Expired', message: 'too old resource version' }), { status: 410 });
+  const watches = (requests: URL[]) => requests.filter(url => url.searchParams.has('watch')).length;
+
+  // Without backoff either server would be hit thousands of times in this window
+  const runFor = async (informer: Informer, ms: number) => {
+    await informer.start();
+    await new Promise(resolve => setTimeout(resolve, ms));
+    informer.stop();
+  };
+
+  test('backs off when the server ends watches without sending anything', async () => {
+    const { requests, client } = clientAnswering(url => url.searchParams.has('watch') ? new Response('', { status: 200 }) : list());
+    const informer = new Informer(client, 'Pod', { initialBackoffMs: 20 });
+
+    await runFor(informer, 150);
+
+    // 20 + 40 + 80ms of backoff fit at most four watches
+    expect(watches(requests)).toBeGreaterThan(0);
+    expect(watches(requests)).toBeLessThanOrEqual(4);
+  });
+
+  test('backs off before relisting when the watch version has expired', async () => {
+    const { requests, client } = clientAnswering(url => url.searchParams.has('watch') ? gone() : list());
+    const informer = new Informer(client, 'Pod', { initialBackoffMs: 20 });
+
+    await runFor(informer, 150);
+
+    expect(requests.length - watches(requests)).toBeGreaterThan(1);
+    expect(requests.length - watches(requests)).toBeLessThanOrEqual(4);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Kubernetes client tests against a stub that replays recorded API server responses
+ */
+
+// Responses and the kubeconfig live in tests/fixtures/kubernetes
+import { loadKubeConfig } from '../../src/api/kubeconfig';
+import { KubernetesApiError, KubernetesClient } from '../../src/api/kubernetes-client';
+import { KubernetesAI } from '../../src/api/kubernetes';
+import { IssueTracker } from '../../src/api/issue-tracker';
+
+const files = import.meta.glob('../fixtures/kubernetes/*', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+const fixture = (name: string) => files[`../fixtures/kubernetes/${name}`];
+
+// Pods in "shop" come back in two pages, "payments" is forbidden and every other list is empty
+function replayServer() {
+  const requests: Array<{ url: URL; headers: Record<string, string> }> = [];
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    requests.push({ url, headers: (init?.headers ?? {}) as Record<string, string> });
+    if (url.pathname.includes('/namespaces/payments/')) {
+      return new Response(fixture('forbidden.json'), { status: 403 });
+    }
+    if (url.pathname === '/api/v1/namespaces/shop/pods') {
+      const page = url.searchParams.has('continue') ? 'pods-page-2.json' : 'pods-page-1.json';
+      return new Response(fixture(page), { status: 200 });
+    }
+    return new Response(JSON.stringify({ metadata: { resourceVersion: '48213' }, items: [] }), { status: 200 });
+  }) as typeof fetch;
+  return { requests, fetchImpl };
+}
+
+describe('loadKubeConfig', () => {
+  test('resolves the current context with token auth', () => {
+    const connection = loadKubeConfig(fixture('kubeconfig.yaml'));
+
+    expect(connection).toMatchObject({
+      contextName: 'staging',
+      server: 'https://staging.k8s.test:6443',
+      namespace: 'shop',
+      auth: { type: 'token', token: 'staging-t0ken' },
+      insecureSkipTlsVerify: false,
+    });
+  });
+
+  test('resolves embedded client certificates and rejects credential files', () => {
+    const connection = loadKubeConfig(fixture('kubeconfig.yaml'), 'production');
+
+    expect(connection.namespace).toBe('default');
+    expect(connection.auth.type).toBe('client-certificate');
+    expect(() => loadKubeConfig(fixture('kubeconfig.yaml'), 'files')).toThrow('references credential files');
+    expect(() => loadKubeConfig(fixture('kubeconfig.yaml'), 'missing')).toThrow('Context not found');
+  });
+});
+
+describe('KubernetesClient', () => {
+  test('follows continue tokens and skips invalid objects', async () => {
+    const server = replayServer();
+    const client = new KubernetesClient(loadKubeConfig(fixture('kubeconfig.yaml')), { fetch: server.fetchImpl, pageSize: 2 });
+
+    const { items, resourceVersion } = await client.listWithVersion('Pod', 'shop');
+
+    expect(items.map(pod => pod.metadata.name)).toEqual(['cart-7d9f8b6c5-x2x9q', 'checkout-5c8d7f9b4-mq7zt']);
+    expect(resourceVersion).toBe('48213');
+    expect(server.requests.map(r => r.url.searchParams.get('limit'))).toEqual(['2', '2']);
+    expect(server.requests[1].url.searchParams.get('continue')).toMatch(/^eyJ2/);
+    expect(server.requests[0].headers.Authorization).toBe('Bearer staging-t0ken');
+  });
+
+  test('surfaces API errors with their status and reason', async () => {
+    const client = new KubernetesClient(loadKubeConfig(fixture('kubeconfig.yaml')), { fetch: replayServer().fetchImpl });
+
+    await expect(client.list('Pod', 'payments')).rejects.toBeInstanceOf(KubernetesApiError);
+    await expect(client.list('Pod', 'payments')).rejects.toMatchObject({ status: 403, reason: 'Forbidden' });
+  });
+
+  test('rejects client certificates without a fetch that can present them', () => {
+    const connection = loadKubeConfig(fixture('kubeconfig.yaml'), 'production');
+
+    expect(() => new KubernetesClient(connection)).toThrow('client-certificate auth');
+    expect(() => new KubernetesClient(connection, { fetch: replayServer().fetchImpl })).not.toThrow();
+  });
+});
+
+describe('KubernetesAI.detectIssues', () => {
+  beforeEach(() => IssueTracker.getInstance().clear());
+  afterEach(() => KubernetesAI.getInstance().useClient(null));
+
+  test('detects issues from listed resources', async () => {
+    const ai = KubernetesAI.getInstance();
+    ai.useClient(new KubernetesClient(loadKubeConfig(fixture('kubeconfig.yaml')), { fetch: replayServer().fetchImpl }));
+
+    const issues = await ai.detectIssues('shop');
+
+    expect(issues.map(issue => [issue.type, issue.resource?.name])).toEqual([['crash-loop', 'checkout-5c8d7f9b4-mq7zt']]);
+  });
+
+  test('reports tracked issues when no client is configured', async () => {
+    const ai = KubernetesAI.getInstance();
+    ai.useClient(new KubernetesClient(loadKubeConfig(fixture('kubeconfig.yaml')), { fetch: replayServer().fetchImpl }));
+    await ai.detectIssues('shop');
+    ai.useClient(null);
+
+    const issues = await ai.detectIssues('shop');
+
+    expect(issues.map(issue => issue.type)).toEqual(['crash-loop']);
+    expect(await ai.detectIssues('payments')).toEqual([]);
+  });
+});
+
+describe('KubernetesAI.listDisruptionBudgets', () => {
+  afterEach(() => KubernetesAI.getInstance().useClient(null));
+
+  test('reports budgets as unknown when they may not be listed', async () => {
+    const ai = KubernetesAI.getInstance();
+    const server = replayServer();
+    ai.useClient(new KubernetesClient(loadKubeConfig(fixture('kubeconfig.yaml')), { fetch: server.fetchImpl }));
+
+    expect(await ai.listDisruptionBudgets('shop')).toEqual([]);
+    expect(await ai.listDisruptionBudgets('payments')).toBeUndefined();
+    expect(server.requests.map(r => r.url.pathname)).toEqual([
+      '/apis/policy/v1/namespaces/shop/poddisruptionbudgets',
+      '/apis/policy/v1/namespaces/payments/poddisruptionbudgets',
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Streaming analysis tests for stack traces whose stream goes quiet
+ */
+
+import { KubernetesErrorAnalyzer } from '../../src/api/kubernetes-error-analyzer';
+
+const files = import.meta.glob('../fixtures/error-patterns/app-traces.log', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+// The Java trace and its "Caused by" section, without the line that would end it
+const javaTrace = files['../fixtures/error-patterns/app-traces.log'].split('\n').slice(0, 6);
+
+describe('StreamingLogAnalyzer', () => {
+  test('releases a trace once it has been idle', () => {
+    let now = 0;
+    const stream = KubernetesErrorAnalyzer.getInstance().createStream({ now: () => now, traceIdleMs: 2000 });
+
+    expect(javaTrace.flatMap(line => stream.push(line))).toEqual([]);
+    now = 1999;
+    expect(stream.flushIdle()).toEqual([]);
+    now = 2000;
+    expect(stream.flushIdle().map(emission => emission.errorType)).toEqual(['app_database_connection']);
+    expect(stream.flush()).toEqual([]);
+  });
+
+  test('releases a trace that keeps growing once it reaches its maximum age', () => {
+    let now = 0;
+    const stream = KubernetesErrorAnalyzer.getInstance().createStream({ now: () => now, traceIdleMs: 2000, traceMaxAgeMs: 5000 });
+
+    javaTrace.forEach((line, i) => {
+      now = i * 800;
+      stream.push(line);
+    });
+    now = 5000;
+    expect(stream.flushIdle().map(emission => emission.errorType)).toEqual(['app_database_connection']);
+  });
+
+  test('analyze() emits a trace while the input is stalled', async () => {
+    let stalled = 0;
+    async function* lines() {
+      yield* javaTrace;
+      stalled = Date.now();
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    const emissions = [];
+    for await (const emission of KubernetesErrorAnalyzer.getInstance().analyzeStream(lines(), { traceIdleMs: 50 })) {
+      emissions.push({ errorType: emission.errorType, waited: Date.now() - stalled });
+    }
+
+    expect(emissions).toHaveLength(1);
+    expect(emissions[0].errorType).toBe('app_database_connection');
+    expect(emissions[0].waited).toBeLessThan(400);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Manifest validator tests: which rules each proposed fix breaks, and where
+ */
+
+import { stringify } from 'yaml';
+import { validateManifest } from '../../src/api/manifest-validator';
+import { PodDisruptionBudgetSchema } from '../../src/api/kubernetes-resources';
+
+// A container that passes every check, so each case only shows what it changes
+const goodContainer = {
+  name: 'app',
+  image: 'registry.test/app:1.4.2',
+  resources: { requests: { cpu: '100m', memory: '128Mi' }, limits: { memory: '256Mi' } },
+  securityContext: { runAsNonRoot: true },
+  readinessProbe: { httpGet: { path: '/ready', port: 8080 } },
+  livenessProbe: { httpGet: { path: '/live', port: 8080 } },
+};
+
+function deployment(container: object = {}, { replicas = 1, pod = {} }: { replicas?: number; pod?: object } = {}) {
+  return stringify({
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: { name: 'web', namespace: 'shop' },
+    spec: {
+      replicas,
+      selector: { matchLabels: { app: 'web' } },
+      template: { metadata: { labels: { app: 'web' } }, spec: { ...pod, containers: [{ ...goodContainer, ...container }] } },
+    },
+  });
+}
+
+const patch = (container: object) => stringify({ spec: { template: { spec: { containers: [{ name: 'app', ...container }] } } } });
+
+const webBudget = PodDisruptionBudgetSchema.parse({
+  metadata: { name: 'web', namespace: 'shop' },
+  spec: { minAvailable: 1, selector: { matchLabels: { app: 'web' } } },
+});
+
+const container = '$.spec.template.spec.containers[0]';
+
+describe('validateManifest', () => {
+  test.each([
+    {
+      name: 'a complete manifest that follows every practice',
+      yaml: deployment(),
+      expected: [],
+    },
+    {
+      name: 'a patch that only sets what it changes',
+      yaml: patch({ resources: { limits: { memory: '1Gi' } } }),
+      expected: [],
+    },
+    {
+      name: 'a complete manifest missing resources, probes and runAsNonRoot',
+      yaml: deployment({ resources: undefined, readinessProbe: undefined, livenessProbe: undefined, securityContext: undefined }),
+      expected: [
+        ['resources-missing', container],
+        ['run-as-root', `${container}.securityContext`],
+        ['probes-missing', container],
+      ],
+    },
+    {
+      name: 'a limit below its request',
+      yaml: patch({ resources: { requests: { memory: '512Mi' }, limits: { memory: '256Mi', cpu: '1' } } }),
+      expected: [['limit-below-request', `${container}.resources.limits.memory`]],
+    },
+    {
+      name: 'a quantity that does not parse',
+      yaml: patch({ resources: { limits: { memory: '1 GB' } } }),
+      expected: [['invalid-quantity', `${container}.resources.limits.memory`]],
+    },
+    {
+      name: 'the latest tag',
+      yaml: patch({ image: 'registry.test/app:latest' }),
+      expected: [['image-latest-tag', `${container}.image`]],
+    },
+    {
+      name: 'a registry port with no tag',
+      yaml: patch({ image: 'registry.test:5000/team/app' }),
+      expected: [['image-latest-tag', `${container}.image`]],
+    },
+    {
+      name: 'a registry port with a tag',
+      yaml: patch({ image: 'registry.test:5000/team/app:2.0' }),
+      expected: [],
+    },
+    {
+      name: 'a digest',
+      yaml: patch({ image: 'registry.test/app@sha256:0123abcd' }),
+      expected: [],
+    },
+    {
+      name: 'privileged containers, host namespaces and hostPath volumes',
+      yaml: deployment({ securityContext: { runAsNonRoot: true, privileged: true } }, {
+        pod: { hostNetwork: true, volumes: [{ name: 'docker', hostPath: { path: '/var/run/docker.sock' } }] },
+      }),
+      expected: [
+        ['host-namespace', '$.spec.template.spec.hostNetwork'],
+        ['host-path-volume', '$.spec.template.spec.volumes[0].hostPath'],
+        ['privileged-container', `${container}.securityContext.privileged`],
+      ],
+    },
+    {
+      name: 'root set on the pod rather than the container',
+      yaml: deployment({ securityContext: {} }, { pod: { securityContext: { runAsUser: 0 } } }),
+      expected: [['run-as-root', '$.spec.template.spec.securityContext.runAsUser']],
+    },
+    {
+      name: 'a Job without probes',
+      yaml: stringify({
+        apiVersion: 'batch/v1',
+        kind: 'Job',
+        metadata: { name: 'migrate' },
+        spec: { template: { spec: { restartPolicy: 'Never', containers: [{ ...goodContainer, readinessProbe: undefined, livenessProbe: undefined }] } } },
+      }),
+      expected: [],
+    },
+    {
+      name: 'replicas without a disruption budget',
+      yaml: deployment({}, { replicas: 3 }),
+      expected: [['pdb-missing', '$.spec.replicas']],
+    },
+    {
+      name: 'replicas covered by a budget in the cluster',
+      yaml: deployment({}, { replicas: 3 }),
+      options: { podDisruptionBudgets: [webBudget] },
+      expected: [],
+    },
+    {
+      name: 'replicas covered by a budget in another namespace only',
+      yaml: deployment({}, { replicas: 3 }),
+      options: { podDisruptionBudgets: [{ ...webBudget, metadata: { ...webBudget.metadata, namespace: 'staging' } }] },
+      expected: [['pdb-missing', '$.spec.replicas']],
+    },
+    {
+      name: 'replicas covered by a budget in the same fix',
+      yaml: `${deployment({}, { replicas: 3 })}---\n${stringify({ apiVersion: 'policy/v1', kind: 'PodDisruptionBudget', metadata: { name: 'web', namespace: 'shop' }, spec: { minAvailable: 2, selector: { matchLabels: { app: 'web' } } } })}`,
+      expected: [],
+    },
+  ])('flags $name', ({ yaml, options, expected }) => {
+    const { violations } = validateManifest(yaml, options);
+
+    expect(violations.map(v => [v.rule, v.path])).toEqual(expected);
+  });
+
+  test('numbers documents and scores by penalty', () => {
+    const result = validateManifest(`${patch({ image: 'app:latest' })}---\nspec: [unclosed\n`);
+
+    expect(result.documents).toBe(2);
+    expect(result.violations.map(v => [v.rule, v.document])).toEqual([['invalid-yaml', 1], ['image-latest-tag', 0]]);
+    expect(result.score).toBe(100 - 8 - 40);
+  });
+});
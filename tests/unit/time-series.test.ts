@@ -0,0 +1,60 @@
+/**
+ * Time-series store tests: ring buffers and merging retention tiers on query
+ */
+
+import { RingBuffer, TimeSeriesStore } from '../../src/api/time-series';
+
+const SECOND = 1000;
+
+describe('RingBuffer', () => {
+  test('overwrites the oldest items once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.last()).toBe(5);
+    expect(buffer.length).toBe(3);
+    expect(() => new RingBuffer(0)).toThrow('positive integer');
+  });
+});
+
+describe('TimeSeriesStore', () => {
+  // Four raw samples, then three closed 10s buckets plus the one still filling
+  const store = () => {
+    const s = new TimeSeriesStore([{ resolutionMs: 0, capacity: 4 }, { resolutionMs: 10 * SECOND, capacity: 3 }]);
+    for (let t = 0; t < 60; t += 5) {
+      s.append('cpu', t, t * SECOND);
+    }
+    return s;
+  };
+
+  test('fills older stretches from coarser tiers, averaged and stamped at their mean time', () => {
+    // Raw: 40s-55s; buckets [0,10) and [10,20) have been overwritten; [20,30) and [30,40) remain
+    expect(store().query('cpu')).toEqual([
+      { timestamp: 22.5 * SECOND, value: 22.5 },
+      { timestamp: 32.5 * SECOND, value: 32.5 },
+      { timestamp: 40 * SECOND, value: 40 },
+      { timestamp: 45 * SECOND, value: 45 },
+      { timestamp: 50 * SECOND, value: 50 },
+      { timestamp: 55 * SECOND, value: 55 },
+    ]);
+  });
+
+  test('limits queries to a time range', () => {
+    expect(store().query('cpu', { since: 30 * SECOND, until: 50 * SECOND }).map(s => s.value)).toEqual([32.5, 40, 45, 50]);
+    expect(store().query('memory')).toEqual([]);
+  });
+
+  test('drops samples that are out of order or not finite', () => {
+    const s = store();
+
+    expect(s.append('cpu', 1, 55 * SECOND)).toBe(false);
+    expect(s.append('cpu', NaN, 60 * SECOND)).toBe(false);
+    expect(s.append('cpu', 60, 60 * SECOND)).toBe(true);
+    expect(s.latest('cpu')).toEqual({ timestamp: 60 * SECOND, value: 60 });
+  });
+
+  test('rejects tiers that are not ordered finest first', () => {
+    expect(() => new TimeSeriesStore([{ resolutionMs: 60 * SECOND, capacity: 1 }, { resolutionMs: 0, capacity: 1 }])).toThrow('finest to coarsest');
+  });
+});
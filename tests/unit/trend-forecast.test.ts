@@ -0,0 +1,104 @@
+/**
+ * Trend fit tests over synthetic series with known slopes
+ */
+
+import { Exhaustion, TrendFit, holtFit, linearFit, timeToExhaustion, trendDirection } from '../../src/api/trend-forecast';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Every `stepMs` from t=0, valued by hour
+const series = (count: number, stepMs: number, value: (hours: number) => number) =>
+  Array.from({ length: count }, (_, i) => ({ timestamp: i * stepMs, value: value((i * stepMs) / HOUR) }));
+
+describe('linearFit', () => {
+  test('recovers the slope and current level of a straight line', () => {
+    const fit = linearFit(series(9, 15 * MINUTE, hours => 40 + 2 * hours));
+
+    expect(fit?.slope).toBeCloseTo(2, 10);
+    expect(fit?.level).toBeCloseTo(44, 10);
+    expect(fit?.slopeStdError).toBeCloseTo(0, 10);
+    expect(fit?.rSquared).toBeCloseTo(1, 10);
+    expect(fit).toMatchObject({ at: 2 * HOUR, samples: 9, spanMs: 2 * HOUR });
+  });
+
+  test('has no standard error from two samples, so they never make a trend', () => {
+    const fit = linearFit([{ timestamp: 0, value: 50 }, { timestamp: 5 * MINUTE, value: 80 }]);
+
+    expect(fit?.slope).toBeCloseTo(360, 10);
+    expect(fit?.slopeStdError).toBeUndefined();
+    expect(trendDirection(fit)).toBe('stable');
+    expect(timeToExhaustion(fit!, 90)).toEqual({ expectedHours: 10 / 360 });
+  });
+
+  test('needs two distinct sample times', () => {
+    expect(linearFit([{ timestamp: 0, value: 1 }])).toBeUndefined();
+    expect(linearFit([{ timestamp: 0, value: 1 }, { timestamp: 0, value: 2 }])).toBeUndefined();
+  });
+});
+
+describe('trendDirection', () => {
+  // Rising 1 per hour with ±3 of alternating noise
+  const noisy = series(25, 5 * MINUTE, hours => 50 + hours).map((s, i) => ({ ...s, value: s.value + (i % 2 ? 3 : -3) }));
+
+  test('calls a slope a trend only when it clears its standard error', () => {
+    const fit = linearFit(noisy)!;
+
+    expect(fit.slopeStdError).toBeGreaterThan(0);
+    expect(trendDirection(fit, { z: 0 })).toBe('increasing');
+    expect(trendDirection(fit, { z: fit.slope / fit.slopeStdError! + 0.1 })).toBe('stable');
+    expect(trendDirection(fit, { z: 0, minSlope: 5 })).toBe('stable');
+    expect(trendDirection(linearFit(series(5, HOUR, hours => 10 - hours)))).toBe('decreasing');
+    expect(trendDirection(undefined)).toBe('stable');
+  });
+});
+
+describe('holtFit', () => {
+  test('follows a straight line exactly', () => {
+    const fit = holtFit(series(13, 10 * MINUTE, hours => 20 + 3 * hours));
+
+    expect(fit?.slope).toBeCloseTo(3, 10);
+    expect(fit?.level).toBeCloseTo(26, 10);
+    expect(fit?.slopeStdError).toBeCloseTo(0, 10);
+  });
+
+  test('picks up a change in slope sooner than a line over the whole window', () => {
+    // Flat for two hours, then climbing 10 per hour for half an hour
+    const samples = series(31, 5 * MINUTE, hours => (hours <= 2 ? 30 : 30 + 10 * (hours - 2)));
+
+    const holt = holtFit(samples)!;
+    const line = linearFit(samples)!;
+
+    expect(holt.slope).toBeGreaterThan(2 * line.slope);
+    expect(holt.level).toBeGreaterThan(line.level);
+  });
+
+  test('has no standard error before a one-step forecast could be checked', () => {
+    expect(holtFit(series(2, MINUTE, hours => hours))?.slopeStdError).toBeUndefined();
+    expect(holtFit(series(3, MINUTE, hours => hours))?.slopeStdError).toBeDefined();
+    expect(holtFit([{ timestamp: 0, value: 1 }, { timestamp: 0, value: 2 }])).toBeUndefined();
+  });
+});
+
+describe('timeToExhaustion', () => {
+  const fit = (slope: number, slopeStdError: number | undefined, level = 80): TrendFit =>
+    ({ method: 'least-squares', slope, slopeStdError, level, at: 0, residualStdDev: 0, samples: 10, spanMs: HOUR });
+
+  test('brackets the crossing with the slope standard error', () => {
+    const exhaustion = timeToExhaustion(fit(2, 0.5), 100, 2) as Exhaustion;
+
+    expect(exhaustion.expectedHours).toBe(10);
+    expect(exhaustion.earliestHours).toBeCloseTo(20 / 3, 10);
+    expect(exhaustion.latestHours).toBe(20);
+  });
+
+  test('leaves the latest crossing open when the slope could be flat', () => {
+    expect(timeToExhaustion(fit(2, 1.5), 100, 2)?.latestHours).toBe(Infinity);
+  });
+
+  test('reports a limit already reached, and nothing for a flat or falling series', () => {
+    expect(timeToExhaustion(fit(2, 0.5, 100), 100)).toEqual({ expectedHours: 0, earliestHours: 0, latestHours: 0 });
+    expect(timeToExhaustion(fit(0, 0.5), 100)).toBeUndefined();
+    expect(timeToExhaustion(fit(-1, 0.5), 100)).toBeUndefined();
+  });
+});
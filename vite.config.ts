@@ -1,9 +1,15 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Tests use describe/test/expect without importing them
+    globals: true,
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },